@@ -0,0 +1,19 @@
+-- database/migrations/001_refresh_tokens.sql
+-- Refresh tokens rotativos por usuario y dispositivo (personal y clientes).
+-- Solo se guarda el hash SHA-256 del token, nunca el valor en claro.
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    user_type ENUM('staff', 'client') NOT NULL,
+    user_id INT NOT NULL,
+    token_hash CHAR(64) NOT NULL,
+    device_id VARCHAR(100) NOT NULL,
+    user_agent VARCHAR(255) NULL,
+    expires_at DATETIME NOT NULL,
+    revoked_at DATETIME NULL,
+    replaced_by_id INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_refresh_token_hash (token_hash),
+    INDEX idx_refresh_user (tenant_id, user_type, user_id),
+    CONSTRAINT fk_refresh_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
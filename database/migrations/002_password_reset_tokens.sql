@@ -0,0 +1,15 @@
+-- database/migrations/002_password_reset_tokens.sql
+-- Tokens de un solo uso para restablecer la contraseña (personal y clientes).
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    user_type ENUM('staff', 'client') NOT NULL,
+    user_id INT NOT NULL,
+    token_hash CHAR(64) NOT NULL,
+    expires_at DATETIME NOT NULL,
+    used_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_password_reset_hash (token_hash),
+    INDEX idx_password_reset_user (tenant_id, user_type, user_id),
+    CONSTRAINT fk_password_reset_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
@@ -0,0 +1,20 @@
+-- database/migrations/003_client_email_verification.sql
+-- Verificación del email de los clientes que se registran por su cuenta.
+ALTER TABLE clients ADD COLUMN email_verified_at DATETIME NULL;
+
+-- Los clientes existentes se consideran verificados
+UPDATE clients SET email_verified_at = NOW() WHERE email_verified_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    client_id INT NOT NULL,
+    token_hash CHAR(64) NOT NULL,
+    expires_at DATETIME NOT NULL,
+    used_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_email_verification_hash (token_hash),
+    INDEX idx_email_verification_client (tenant_id, client_id),
+    CONSTRAINT fk_email_verification_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE,
+    CONSTRAINT fk_email_verification_client FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
@@ -0,0 +1,29 @@
+-- database/migrations/004_login_attempts.sql
+-- Intentos fallidos de inicio de sesión por cuenta y por IP dentro de cada inquilino.
+CREATE TABLE IF NOT EXISTS login_attempts (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    scope ENUM('account', 'ip') NOT NULL,
+    user_type ENUM('staff', 'client', 'any') NOT NULL, -- 'any' para el scope 'ip'
+    identifier VARCHAR(255) NOT NULL, -- Email (normalizado) o dirección IP
+    failed_count INT NOT NULL DEFAULT 0,
+    last_failed_at DATETIME NOT NULL,
+    locked_until DATETIME NULL,
+    UNIQUE KEY uq_login_attempt (tenant_id, scope, user_type, identifier),
+    CONSTRAINT fk_login_attempts_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
+
+-- Eventos de seguridad (bloqueos, desbloqueos) para auditoría
+CREATE TABLE IF NOT EXISTS security_events (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    event_type VARCHAR(50) NOT NULL, -- 'account_locked', 'ip_locked', 'account_unlocked'
+    user_type ENUM('staff', 'client', 'any') NOT NULL,
+    identifier VARCHAR(255) NOT NULL,
+    ip_address VARCHAR(45) NULL,
+    actor_staff_id INT NULL, -- Admin que realizó la acción (si aplica)
+    details JSON NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_security_events_tenant (tenant_id, created_at),
+    CONSTRAINT fk_security_events_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
@@ -0,0 +1,19 @@
+-- database/migrations/005_staff_two_factor.sql
+-- Autenticación en dos pasos (TOTP) para el personal.
+ALTER TABLE staff
+    ADD COLUMN totp_secret VARCHAR(64) NULL, -- Secreto base32 (pendiente mientras totp_enabled = FALSE)
+    ADD COLUMN totp_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN totp_last_counter BIGINT NULL; -- Último intervalo usado (evita reutilizar un código)
+
+CREATE TABLE IF NOT EXISTS staff_recovery_codes (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    staff_id INT NOT NULL,
+    code_hash CHAR(64) NOT NULL,
+    used_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_recovery_codes_staff (staff_id),
+    CONSTRAINT fk_recovery_codes_staff FOREIGN KEY (staff_id) REFERENCES staff(id) ON DELETE CASCADE
+);
+
+-- Cada inquilino puede exigir 2FA a sus administradores
+ALTER TABLE tenants ADD COLUMN require_admin_2fa BOOLEAN NOT NULL DEFAULT FALSE;
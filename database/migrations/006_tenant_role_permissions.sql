@@ -0,0 +1,10 @@
+-- database/migrations/006_tenant_role_permissions.sql
+-- Permisos personalizados por inquilino y rol. Sin fila, el rol usa el mapeo por defecto.
+CREATE TABLE IF NOT EXISTS tenant_role_permissions (
+    tenant_id INT NOT NULL,
+    role ENUM('admin', 'doctor', 'receptionist') NOT NULL,
+    permissions JSON NOT NULL, -- Lista de permisos, e.g. ["products.view", "appointments.create"]
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (tenant_id, role),
+    CONSTRAINT fk_role_permissions_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
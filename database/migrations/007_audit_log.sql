@@ -0,0 +1,29 @@
+-- database/migrations/007_audit_log.sql
+-- Bitácora de cambios administrativos por inquilino. Solo se permite insertar.
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    actor_type VARCHAR(20) NOT NULL, -- 'staff', 'client', 'system'
+    actor_id INT NULL,
+    actor_role VARCHAR(20) NULL,
+    action VARCHAR(60) NOT NULL, -- e.g. 'product.update', 'staff.delete'
+    entity_type VARCHAR(40) NOT NULL,
+    entity_id VARCHAR(64) NULL,
+    changes JSON NULL, -- { campo: { before, after } }
+    ip_address VARCHAR(45) NULL,
+    user_agent VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_audit_tenant_date (tenant_id, created_at),
+    INDEX idx_audit_entity (tenant_id, entity_type, entity_id),
+    INDEX idx_audit_actor (tenant_id, actor_type, actor_id)
+);
+
+-- Append-only: se rechaza cualquier modificación o borrado
+DELIMITER //
+CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log es de solo inserción';
+//
+CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log es de solo inserción';
+//
+DELIMITER ;
@@ -0,0 +1,21 @@
+-- database/migrations/008_staff_invitations.sql
+-- Invitaciones al personal: el invitado define su propia contraseña.
+ALTER TABLE staff
+    MODIFY COLUMN password VARCHAR(255) NULL, -- NULL mientras la invitación está pendiente
+    ADD COLUMN status ENUM('active', 'invited') NOT NULL DEFAULT 'active';
+
+CREATE TABLE IF NOT EXISTS staff_invitations (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    staff_id INT NOT NULL,
+    token_hash CHAR(64) NOT NULL,
+    invited_by INT NULL, -- staff.id del administrador que invitó
+    expires_at DATETIME NOT NULL,
+    accepted_at DATETIME NULL,
+    revoked_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_staff_invitation_hash (token_hash),
+    INDEX idx_staff_invitation_staff (tenant_id, staff_id),
+    CONSTRAINT fk_staff_invitation_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE,
+    CONSTRAINT fk_staff_invitation_staff FOREIGN KEY (staff_id) REFERENCES staff(id) ON DELETE CASCADE
+);
@@ -0,0 +1,3 @@
+-- database/migrations/009_client_account_deletion.sql
+-- Baja de clientes: se anonimizan sus datos personales pero se conservan sus pedidos.
+ALTER TABLE clients ADD COLUMN deleted_at DATETIME NULL;
@@ -0,0 +1,8 @@
+-- database/migrations/010_email_unique_per_tenant.sql
+-- Los emails pasan a ser únicos por inquilino (antes se validaban en toda la plataforma).
+-- Ajustar el nombre del índice si el UNIQUE original se creó con otro nombre (SHOW INDEX FROM clients).
+ALTER TABLE clients DROP INDEX email;
+ALTER TABLE clients ADD UNIQUE KEY uq_clients_tenant_email (tenant_id, email);
+
+ALTER TABLE staff DROP INDEX email;
+ALTER TABLE staff ADD UNIQUE KEY uq_staff_tenant_email (tenant_id, email);
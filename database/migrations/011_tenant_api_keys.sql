@@ -0,0 +1,20 @@
+-- database/migrations/011_tenant_api_keys.sql
+-- Claves de API por inquilino para integraciones (contabilidad, widgets, etc.).
+-- Solo se guarda el hash SHA-256; la clave completa se muestra una única vez al crearla.
+CREATE TABLE IF NOT EXISTS tenant_api_keys (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    key_prefix VARCHAR(16) NOT NULL, -- Inicio de la clave, para identificarla en el listado
+    key_hash CHAR(64) NOT NULL,
+    scopes JSON NOT NULL, -- ['read'], ['orders'], ['appointments']...
+    created_by INT NULL, -- staff.id
+    last_used_at DATETIME NULL,
+    revoked_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_tenant_api_keys_hash (key_hash),
+    INDEX idx_tenant_api_keys_tenant (tenant_id),
+    CONSTRAINT fk_tenant_api_keys_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
+
+-- Las acciones hechas con una clave quedan en audit_log con actor_type = 'api_key' y actor_id = tenant_api_keys.id
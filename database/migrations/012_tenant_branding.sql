@@ -0,0 +1,5 @@
+-- database/migrations/012_tenant_branding.sql
+-- Personalización de la marca de cada clínica (el logo y los colores ya existían en `tenants`).
+ALTER TABLE tenants
+    ADD COLUMN favicon_url VARCHAR(255) NULL,
+    ADD COLUMN social_links JSON NULL; -- { facebook, instagram, tiktok, whatsapp, website }
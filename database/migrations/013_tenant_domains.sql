@@ -0,0 +1,13 @@
+-- database/migrations/013_tenant_domains.sql
+-- Dominios propios de las clínicas (e.g., vetchavez.pe). Solo se usan una vez verificados.
+CREATE TABLE IF NOT EXISTS tenant_domains (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    domain VARCHAR(253) NOT NULL, -- En minúsculas, sin puerto ni protocolo
+    verification_token CHAR(32) NOT NULL, -- Se publica en un registro TXT del dominio
+    verified_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_tenant_domains_domain (domain),
+    INDEX idx_tenant_domains_tenant (tenant_id),
+    CONSTRAINT fk_tenant_domains_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
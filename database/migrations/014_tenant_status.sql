@@ -0,0 +1,7 @@
+-- database/migrations/014_tenant_status.sql
+-- Ciclo de vida de las clínicas: activa, suspendida (solo exportación) o cerrada (pendiente de purga).
+ALTER TABLE tenants
+    ADD COLUMN status ENUM('active', 'suspended', 'closed') NOT NULL DEFAULT 'active',
+    ADD COLUMN status_reason VARCHAR(255) NULL,
+    ADD COLUMN status_changed_at DATETIME NULL,
+    ADD COLUMN purge_after DATETIME NULL; -- Solo para clínicas cerradas: fecha a partir de la cual se eliminan sus datos
@@ -0,0 +1,26 @@
+-- database/migrations/015_subscription_plans.sql
+-- Planes de suscripción con límites de uso. Un límite NULL significa "sin límite".
+-- Un inquilino sin plan asignado no tiene límites (compatibilidad con las clínicas existentes).
+CREATE TABLE IF NOT EXISTS plans (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    code VARCHAR(50) NOT NULL, -- Identificador estable usado por la API externa (e.g., 'basico')
+    name VARCHAR(100) NOT NULL,
+    max_staff INT NULL,
+    max_products INT NULL,
+    max_services INT NULL,
+    max_monthly_appointments INT NULL, -- Citas por mes calendario (según la fecha de la cita)
+    max_storage_mb INT NULL, -- Imágenes subidas (productos, servicios, logo y favicon)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_plans_code (code)
+);
+
+ALTER TABLE tenants
+    ADD COLUMN plan_id INT NULL,
+    ADD CONSTRAINT fk_tenants_plan FOREIGN KEY (plan_id) REFERENCES plans(id) ON DELETE SET NULL;
+
+-- Planes iniciales (se pueden ajustar desde la API externa)
+INSERT INTO plans (code, name, max_staff, max_products, max_services, max_monthly_appointments, max_storage_mb) VALUES
+    ('basico', 'Básico', 3, 50, 10, 200, 200),
+    ('profesional', 'Profesional', 10, 500, 50, 1000, 1000),
+    ('empresarial', 'Empresarial', NULL, NULL, NULL, NULL, 5000);
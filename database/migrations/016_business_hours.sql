@@ -0,0 +1,21 @@
+-- database/migrations/016_business_hours.sql
+-- Horario estructurado de las clínicas: turnos semanales (varios por día para horario partido)
+-- y días de cierre (feriados, vacaciones). El texto 'tenants.schedule' se genera a partir de estos datos.
+CREATE TABLE IF NOT EXISTS tenant_business_hours (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    weekday TINYINT NOT NULL, -- 0 = domingo ... 6 = sábado (igual que Date.getDay())
+    opens_at TIME NOT NULL,
+    closes_at TIME NOT NULL, -- Exclusivo: a esta hora ya no se atiende
+    INDEX idx_business_hours_tenant_day (tenant_id, weekday),
+    CONSTRAINT fk_business_hours_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS tenant_closures (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    closure_date DATE NOT NULL,
+    reason VARCHAR(150) NULL,
+    UNIQUE KEY uq_tenant_closures_date (tenant_id, closure_date),
+    CONSTRAINT fk_tenant_closures_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
@@ -0,0 +1,27 @@
+-- database/migrations/017_operator_action_log.sql
+-- Bitácora de las acciones de los operadores de la plataforma (API externa). Solo se permite insertar.
+-- Sin FK al inquilino: el registro se conserva aunque la clínica se purgue.
+CREATE TABLE IF NOT EXISTS operator_action_log (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    operator VARCHAR(100) NOT NULL, -- Cabecera X-Operator (o 'external-api' si no se envía)
+    action VARCHAR(60) NOT NULL, -- e.g. 'tenant.update', 'tenant.admin_password_reset'
+    tenant_id INT NULL,
+    tenant_slug VARCHAR(100) NULL,
+    entity_type VARCHAR(40) NULL,
+    entity_id VARCHAR(64) NULL,
+    changes JSON NULL, -- { campo: { before, after } }
+    ip_address VARCHAR(45) NULL,
+    user_agent VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_operator_log_date (created_at),
+    INDEX idx_operator_log_tenant (tenant_id, created_at)
+);
+
+DELIMITER //
+CREATE TRIGGER operator_action_log_no_update BEFORE UPDATE ON operator_action_log
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'operator_action_log es de solo inserción';
+//
+CREATE TRIGGER operator_action_log_no_delete BEFORE DELETE ON operator_action_log
+FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'operator_action_log es de solo inserción';
+//
+DELIMITER ;
@@ -0,0 +1,10 @@
+-- database/migrations/018_tenant_settings.sql
+-- Configuración operativa por inquilino (ventana de recojo, vencimiento de reservas, moneda,
+-- zona horaria, anticipación de citas). Solo se guardan los valores personalizados:
+-- las claves ausentes usan los valores por defecto de utils/tenantSettings.
+CREATE TABLE IF NOT EXISTS tenant_settings (
+    tenant_id INT NOT NULL PRIMARY KEY,
+    settings JSON NOT NULL, -- e.g. {"pickupWindowDays": 7, "currency": "USD"}
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    CONSTRAINT fk_tenant_settings_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
@@ -0,0 +1,55 @@
+-- database/migrations/019_branches.sql
+-- Sucursales de una clínica: datos de contacto y horario propios, personal asignado y stock por sucursal.
+-- Una clínica sin sucursales activas funciona como antes (un solo local con los datos de 'tenants').
+CREATE TABLE IF NOT EXISTS branches (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tenant_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    address VARCHAR(255) NOT NULL,
+    phone VARCHAR(50) NULL,
+    email VARCHAR(255) NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE, -- Las sucursales no se borran (pedidos y citas las referencian)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_branches_tenant_name (tenant_id, name),
+    CONSTRAINT fk_branches_tenant FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
+
+-- Turnos semanales de la sucursal (mismo formato que tenant_business_hours).
+-- Sin filas, la sucursal usa el horario de la clínica. Los días de cierre son de toda la clínica.
+CREATE TABLE IF NOT EXISTS branch_business_hours (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    branch_id INT NOT NULL,
+    weekday TINYINT NOT NULL, -- 0 = domingo ... 6 = sábado
+    opens_at TIME NOT NULL,
+    closes_at TIME NOT NULL,
+    INDEX idx_branch_hours_branch_day (branch_id, weekday),
+    CONSTRAINT fk_branch_hours_branch FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE CASCADE
+);
+
+-- Personal asignado a cada sucursal (un miembro puede atender en varias)
+CREATE TABLE IF NOT EXISTS staff_branches (
+    staff_id INT NOT NULL,
+    branch_id INT NOT NULL,
+    PRIMARY KEY (staff_id, branch_id),
+    CONSTRAINT fk_staff_branches_staff FOREIGN KEY (staff_id) REFERENCES staff(id) ON DELETE CASCADE,
+    CONSTRAINT fk_staff_branches_branch FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE CASCADE
+);
+
+-- Stock por sucursal. Si un producto tiene filas aquí, products.stock es la suma de todas las sucursales.
+CREATE TABLE IF NOT EXISTS branch_stock (
+    branch_id INT NOT NULL,
+    product_id INT NOT NULL,
+    stock INT NOT NULL DEFAULT 0,
+    PRIMARY KEY (branch_id, product_id),
+    CONSTRAINT fk_branch_stock_branch FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE CASCADE,
+    CONSTRAINT fk_branch_stock_product FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+);
+
+-- Sucursal elegida para el recojo del pedido y para la cita (NULL en clínicas sin sucursales)
+ALTER TABLE orders
+    ADD COLUMN branch_id INT NULL AFTER client_id,
+    ADD CONSTRAINT fk_orders_branch FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL;
+
+ALTER TABLE appointments
+    ADD COLUMN branch_id INT NULL AFTER client_id,
+    ADD CONSTRAINT fk_appointments_branch FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL;
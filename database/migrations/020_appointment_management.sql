@@ -0,0 +1,8 @@
+-- database/migrations/020_appointment_management.sql
+-- Gestión de citas por el personal: profesional asignado y estado de la cita.
+-- Las citas existentes quedan 'scheduled' y sin profesional asignado.
+ALTER TABLE appointments
+    ADD COLUMN staff_id INT NULL AFTER branch_id, -- Profesional que atiende (NULL = sin asignar)
+    ADD COLUMN status ENUM('scheduled', 'confirmed', 'completed', 'cancelled', 'no_show') NOT NULL DEFAULT 'scheduled' AFTER appointment_time,
+    ADD CONSTRAINT fk_appointments_staff FOREIGN KEY (staff_id) REFERENCES staff(id) ON DELETE SET NULL,
+    ADD INDEX idx_appointments_tenant_date (tenant_id, appointment_date, appointment_time);
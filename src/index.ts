@@ -1,8 +1,11 @@
 // src/index.ts
 import 'dotenv/config';
-import express, { Express, Request, Response, NextFunction } from 'express';
+import express, { Express, Request, Response } from 'express';
 import cors from 'cors';
 import path from 'path';
+import { resolveTenant, isAllowedOrigin } from './middleware/resolveTenant';
+import { localizeResponses } from './middleware/localizeResponse';
+import { scheduleTenantPurge } from './utils/tenantLifecycle';
 
 // Rutas
 import authRoutes from './routes/authRoutes';
@@ -16,51 +19,42 @@ import categoryAdminRoutes from './routes/categoryAdminRoutes'; // 👈 AÑADIR
 import productAdminRoutes from './routes/productAdminRoutes'; // 👈 AÑADIR
 import clientAuthRoutes from './routes/clientAuthRoutes'; // 👈 AÑADIR
 import orderRoutes from './routes/orderRoutes';           // 👈 AÑADIR
+import twoFactorRoutes from './routes/twoFactorRoutes';
+import permissionRoutes from './routes/permissionRoutes';
+import auditLogRoutes from './routes/auditLogRoutes';
+import clientAccountRoutes from './routes/clientAccountRoutes';
+import apiKeyRoutes from './routes/apiKeyRoutes';
+import branchRoutes from './routes/branchRoutes';
 
 const app: Express = express();
 const port = process.env.PORT || 4000;
 
-// Middleware para resolver el tenantId del subdominio (NO CAMBIA)
-const resolveTenant = (req: Request, res: Response, next: NextFunction) => {
-
-    if (req.path.startsWith('/api/external')) {
-        return next();
-    }
-
-    const host = req.hostname;
-
-    let tenantSlug = null;
-    if (host !== 'localhost' && host !== '127.0.0.1' && host.includes('.')) {
-        tenantSlug = host.split('.')[0];
-    } else {
-        // Para desarrollo local sin subdominio, usamos un header de fallback (o un default)
-        tenantSlug = req.headers['x-tenant-slug'] || 'chavez';
-    }
-
-    // Inyectamos el slug en la solicitud para que las rutas puedan usarlo
-    (req as any).tenantId = tenantSlug;
-
-    next();
-};
-
 app.use(cors({
     origin: (origin, callback) => {
         if (!origin) return callback(null, true);
-        if (origin.endsWith(':5173') || origin.endsWith(':4000')) {
-            return callback(null, true);
-        }
-        return callback(new Error('Not allowed by CORS'), false);
+        isAllowedOrigin(origin)
+            .then((allowed) => allowed
+                ? callback(null, true)
+                : callback(new Error('Not allowed by CORS'), false))
+            .catch((error) => callback(error, false));
     },
     credentials: true,
 }));
 
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
-app.use(resolveTenant);
 
+// Archivos estáticos: no dependen del inquilino (se sirven antes de resolverlo)
 app.use('/uploads', express.static(path.join(__dirname, '..', 'uploads')));
 
+// Traduce los mensajes de la API al idioma del cliente (Accept-Language) o de la clínica
+app.use(localizeResponses);
+
+// Resuelve el inquilino del host (dominio propio, subdominio o cabecera en desarrollo)
+app.use(resolveTenant);
+
 // Rutas de API - Rutas montadas de forma simplificada
+app.use('/api/auth/admin/2fa', twoFactorRoutes); // 2FA (TOTP) del personal
 app.use('/api/auth', authRoutes);
 app.use('/api/tenants', tenantRoutes); // Maneja /profile y /:tenantId
 app.use('/api/services', serviceRoutes); // Montado en /api/services
@@ -71,7 +65,12 @@ app.use('/api/store', storeRoutes);
 app.use('/api/categories', categoryAdminRoutes);
 app.use('/api/products', productAdminRoutes);
 app.use('/api/client/auth', clientAuthRoutes); // Autenticación de Clientes
+app.use('/api/client/me', clientAccountRoutes); // Cuenta del cliente (perfil, datos, baja)
 app.use('/api/orders', orderRoutes);
+app.use('/api/permissions', permissionRoutes); // Permisos por rol del inquilino
+app.use('/api/audit-logs', auditLogRoutes); // Bitácora de cambios administrativos
+app.use('/api/api-keys', apiKeyRoutes); // Claves de API para integraciones
+app.use('/api/branches', branchRoutes); // Sucursales (datos, horario y stock)
 
 // Ruta de prueba
 app.get('/', (req: Request, res: Response) => {
@@ -80,4 +79,6 @@ app.get('/', (req: Request, res: Response) => {
 
 app.listen(port, () => {
     console.log(`⚡️ [server]: Server is running at http://localhost:${port}`);
+    // Purga de clínicas cerradas cuyo período de retención venció
+    scheduleTenantPurge();
 });
\ No newline at end of file
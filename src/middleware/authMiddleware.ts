@@ -0,0 +1,250 @@
+// src/middleware/authMiddleware.ts
+// Capa única de autenticación y control multi-inquilino compartida por todos los routers.
+import { Request, Response, NextFunction } from 'express';
+import { ParamsDictionary } from 'express-serve-static-core';
+import { verifyAccessToken, UserRole } from '../utils/jwt';
+import { isClientEmailVerified } from '../utils/emailVerification';
+import { Permission, getRolePermissions } from '../utils/permissions';
+import { ApiKeyPrincipal, findApiKey, getApiKeyPermissions } from '../utils/apiKeys';
+import { SocialLinks } from '../utils/branding';
+import { getCachedTenant } from '../utils/tenantCache';
+import { Locale, apiMessage } from '../utils/i18n';
+
+export type StaffRole = Exclude<UserRole, 'client'>;
+
+export const STAFF_ROLES: StaffRole[] = ['admin', 'doctor', 'receptionist'];
+
+// --- INTERFACES ---
+export interface AuthUser {
+    id: number; // ID real en `staff` o `clients`
+    tenant_id: string; // Slug del inquilino autenticado (e.g., 'chavez')
+    role: UserRole;
+}
+
+export type TenantStatus = 'active' | 'suspended' | 'closed';
+
+// Registro completo del inquilino (viene de la caché: ver utils/tenantCache)
+export interface ResolvedTenant {
+    id: number; // El ID numérico del tenant
+    slug: string; // El slug del tenant
+    status: TenantStatus;
+    name: string;
+    phone: string;
+    email: string;
+    address: string;
+    schedule: string;
+    logoUrl: string; // Relativa (/uploads/...) o absoluta
+    faviconUrl: string | null;
+    primaryColor: string;
+    secondaryColor: string;
+    socialLinks: SocialLinks;
+    locale: Locale; // Idioma por defecto de los mensajes (configuración de la clínica)
+}
+
+export interface AuthRequest<P extends ParamsDictionary = ParamsDictionary> extends Request<P> {
+    user?: AuthUser;
+    tenantId?: string; // Slug inyectado por resolveTenant (subdominio/header)
+    resolvedTenant?: ResolvedTenant;
+    apiKey?: ApiKeyPrincipal; // Integración autenticada con X-API-Key (en lugar de req.user)
+    permissions?: Permission[]; // Permisos efectivos del usuario (cargados una vez por solicitud)
+}
+
+// --- HELPERS ---
+// Único punto de resolución de inquilinos: consulta la caché y solo va a la DB si expiró
+export const getTenantInfoBySlug = (tenantSlug: string): Promise<ResolvedTenant | null> =>
+    getCachedTenant(tenantSlug);
+
+const extractBearerToken = (req: Request): string | undefined => {
+    const authHeader = req.headers.authorization;
+    return authHeader?.split(' ')[1];
+};
+
+// -----------------------------------------------------------------------------
+// 🏢 MIDDLEWARE: Resolver el inquilino solicitado (público, no valida token)
+// Traduce el slug (req.tenantId) al registro del inquilino en req.resolvedTenant.
+// Normalmente resolveTenant ya lo adjuntó y este middleware no hace nada.
+// -----------------------------------------------------------------------------
+export const resolveTenantInfo = async (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+    if (req.resolvedTenant) return next();
+
+    const tenantSlug = req.tenantId;
+    if (!tenantSlug) {
+        return res.status(400).json(apiMessage('TENANT_SLUG_MISSING'));
+    }
+
+    try {
+        const tenantInfo = await getTenantInfoBySlug(tenantSlug);
+        if (tenantInfo === null) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: tenantSlug }));
+        }
+        req.resolvedTenant = tenantInfo;
+    } catch (error) {
+        console.error("Error al resolver el inquilino:", error);
+        return res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+
+    next();
+};
+
+// -----------------------------------------------------------------------------
+// 🔐 MIDDLEWARE DE AUTENTICACIÓN (JWT obligatorio, o clave de API del inquilino)
+// Con X-API-Key se inyecta req.apiKey en lugar de req.user: solo sirve en rutas
+// protegidas por permisos (requirePermission), nunca en las de un rol concreto.
+// -----------------------------------------------------------------------------
+export const verifyToken = (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+    const apiKey = req.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey) {
+        return authenticateApiKey(req, res, next, apiKey);
+    }
+
+    const token = extractBearerToken(req);
+    if (!token) {
+        return res.status(401).json(apiMessage('AUTHENTICATION_REQUIRED'));
+    }
+
+    try {
+        req.user = verifyAccessToken(token);
+    } catch (e) {
+        return res.status(401).json(apiMessage('INVALID_TOKEN'));
+    }
+
+    next();
+};
+
+const authenticateApiKey = async (req: AuthRequest<any>, res: Response, next: NextFunction, key: string) => {
+    try {
+        const principal = await findApiKey(key);
+        if (!principal) {
+            return res.status(401).json(apiMessage('INVALID_API_KEY'));
+        }
+        req.apiKey = principal;
+    } catch (error) {
+        console.error("Error al verificar la clave de API:", error);
+        return res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+
+    next();
+};
+
+// Slug del inquilino autenticado (usuario o clave de API)
+export const getAuthenticatedTenantSlug = (req: AuthRequest<any>): string | undefined =>
+    req.user?.tenant_id ?? req.apiKey?.tenantSlug;
+
+// -----------------------------------------------------------------------------
+// 🌐 MIDDLEWARE PÚBLICO CON AUTENTICACIÓN OPCIONAL
+// Si hay un token válido del mismo inquilino se inyecta req.user; si no, la
+// solicitud continúa como visitante anónimo.
+// -----------------------------------------------------------------------------
+export const optionalToken = (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+    const token = extractBearerToken(req);
+    if (token) {
+        try {
+            const user = verifyAccessToken(token);
+            // Un token de otro inquilino no otorga privilegios aquí
+            if (user.tenant_id === req.tenantId) {
+                req.user = user;
+            }
+        } catch (e) {
+            // Token inválido o expirado: se trata como visitante
+        }
+    }
+    next();
+};
+
+// -----------------------------------------------------------------------------
+// 🛡️ MIDDLEWARE DE AUTORIZACIÓN MULTI-INQUILINO
+// Resuelve el inquilino solicitado y comprueba que el usuario pertenece a él.
+// -----------------------------------------------------------------------------
+export const ensureTenantAccess = (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+    return resolveTenantInfo(req, res, () => {
+        if (getAuthenticatedTenantSlug(req) !== req.resolvedTenant!.slug) {
+            return res.status(403).json(apiMessage('TENANT_ACCESS_DENIED'));
+        }
+        next();
+    });
+};
+
+// -----------------------------------------------------------------------------
+// 🧑‍💻 GUARDAS DE ROL (componibles, siempre después de verifyToken)
+// -----------------------------------------------------------------------------
+export const requireRole = (...roles: UserRole[]) =>
+    (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+        if (req.apiKey) {
+            return res.status(403).json(apiMessage('NOT_AVAILABLE_FOR_API_KEYS'));
+        }
+        if (!req.user) {
+            return res.status(401).json(apiMessage('AUTHENTICATION_REQUIRED'));
+        }
+        if (!roles.includes(req.user.role)) {
+            return res.status(403).json(apiMessage('PERMISSION_DENIED'));
+        }
+        next();
+    };
+
+// Solo personal de la clínica (admin, doctor, recepcionista)
+export const requireStaff = requireRole(...STAFF_ROLES);
+
+// Solo clientes de la tienda
+export const requireClient = requireRole('client');
+
+// -----------------------------------------------------------------------------
+// 🗝️ AUTORIZACIÓN POR PERMISOS (siempre después de verifyToken/optionalToken)
+// -----------------------------------------------------------------------------
+
+// Carga (una sola vez por solicitud) los permisos efectivos del usuario. Visitantes: ninguno.
+// Las claves de API tienen los permisos de sus scopes.
+export const loadPermissions = async (req: AuthRequest<any>): Promise<Permission[]> => {
+    if (req.apiKey) return getApiKeyPermissions(req.apiKey.scopes);
+    if (!req.user) return [];
+
+    if (!req.permissions) {
+        const tenant = req.resolvedTenant ?? await getTenantInfoBySlug(req.user.tenant_id);
+        req.permissions = tenant ? await getRolePermissions(tenant.id, req.user.role) : [];
+    }
+    return req.permissions;
+};
+
+export const hasPermission = async (req: AuthRequest<any>, permission: Permission): Promise<boolean> => {
+    const permissions = await loadPermissions(req);
+    return permissions.includes(permission);
+};
+
+export const requirePermission = (permission: Permission) =>
+    async (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+        if (!req.user && !req.apiKey) {
+            return res.status(401).json(apiMessage('AUTHENTICATION_REQUIRED'));
+        }
+
+        try {
+            if (!(await hasPermission(req, permission))) {
+                return res.status(403).json({
+                    ...apiMessage(req.apiKey ? 'API_KEY_PERMISSION_DENIED' : 'PERMISSION_DENIED'),
+                    requiredPermission: permission
+                });
+            }
+        } catch (error) {
+            console.error("Error al verificar permisos:", error);
+            return res.status(500).json(apiMessage('INTERNAL_ERROR'));
+        }
+
+        next();
+    };
+
+// -----------------------------------------------------------------------------
+// ✉️ GUARDA: los clientes deben haber verificado su email (el personal pasa directo)
+// -----------------------------------------------------------------------------
+export const requireVerifiedClient = async (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+    if (req.user?.role !== 'client') return next();
+
+    try {
+        const tenant = req.resolvedTenant ?? await getTenantInfoBySlug(req.user.tenant_id);
+        if (!tenant || !(await isClientEmailVerified(tenant.id, req.user.id))) {
+            return res.status(403).json(apiMessage('EMAIL_NOT_VERIFIED'));
+        }
+    } catch (error) {
+        console.error("Error al verificar el email del cliente:", error);
+        return res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+
+    next();
+};
@@ -0,0 +1,31 @@
+// src/middleware/localizeResponse.ts
+// Middleware global que traduce el texto de las respuestas con código de mensaje (utils/i18n).
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './authMiddleware';
+import { DEFAULT_LOCALE, MessageParams, isMessageCode, negotiateLocale, renderMessage } from '../utils/i18n';
+
+// -----------------------------------------------------------------------------
+// 🌍 Idioma de la respuesta (en orden de prioridad):
+//   1. Accept-Language del cliente, si pide un idioma soportado
+//   2. Idioma por defecto de la clínica (configuración 'locale')
+//   3. DEFAULT_LOCALE del servidor
+// Solo se reescribe 'message' de los cuerpos con un 'code' del catálogo; el código no cambia.
+// Se monta antes de resolveTenant: la clínica ya está resuelta cuando la ruta responde.
+// -----------------------------------------------------------------------------
+export const localizeResponses = (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+    const sendJson = res.json.bind(res);
+    res.vary('Accept-Language');
+
+    res.json = (body?: any) => {
+        if (body && typeof body === 'object' && !Array.isArray(body) && isMessageCode(body.code)) {
+            const locale = negotiateLocale(req.headers['accept-language'])
+                ?? req.resolvedTenant?.locale
+                ?? DEFAULT_LOCALE;
+            res.set('Content-Language', locale);
+            body = { ...body, message: renderMessage(body.code, locale, body.params as MessageParams | undefined) };
+        }
+        return sendJson(body);
+    };
+
+    next();
+};
@@ -0,0 +1,66 @@
+// src/middleware/planLimits.ts
+// Rechaza la creación de recursos y las subidas de archivos cuando el inquilino alcanzó el límite de su plan.
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './authMiddleware';
+import { PlanResource, checkPlanLimit } from '../utils/planLimits';
+import { discardUpload } from '../utils/branding';
+import { apiMessage } from '../utils/i18n';
+
+// -----------------------------------------------------------------------------
+// 🚦 Debe ir después de multer (si la ruta sube imagen) para contar también el espacio del archivo.
+// Responde 403 con el código del límite alcanzado (e.g., PLAN_LIMIT_PRODUCTS).
+// -----------------------------------------------------------------------------
+export const enforcePlanLimit = (resource: PlanResource) =>
+    async (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+        const { id: tenantDbId } = req.resolvedTenant!;
+
+        try {
+            const limitError = await checkPlanLimit(tenantDbId, resource)
+                ?? (req.file ? await checkPlanLimit(tenantDbId, 'storage_mb', { incomingBytes: req.file.size }) : null);
+
+            if (limitError) {
+                discardUpload(req.file);
+                return res.status(403).json(limitError);
+            }
+        } catch (error) {
+            console.error("Error al verificar los límites del plan:", error);
+            discardUpload(req.file);
+            return res.status(500).json(apiMessage('INTERNAL_ERROR'));
+        }
+
+        next();
+    };
+
+// Archivos subidos por multer, sea con upload.single (req.file) o upload.fields/array (req.files)
+const getUploadedFiles = (req: AuthRequest<any>): Express.Multer.File[] => {
+    if (req.file) return [req.file];
+    if (!req.files) return [];
+    return Array.isArray(req.files) ? req.files : Object.values(req.files).reduce<Express.Multer.File[]>((all, group) => all.concat(group), []);
+};
+
+// -----------------------------------------------------------------------------
+// 💾 Límite de almacenamiento para las rutas que solo reemplazan imágenes (sin crear recursos).
+// Va después de multer; se cuenta el archivo completo aunque reemplace a otro, porque el
+// anterior se borra recién cuando la actualización termina bien.
+// -----------------------------------------------------------------------------
+export const enforceStorageLimit = async (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const files = getUploadedFiles(req);
+    if (files.length === 0) return next();
+
+    try {
+        const incomingBytes = files.reduce((total, file) => total + file.size, 0);
+        const limitError = await checkPlanLimit(tenantDbId, 'storage_mb', { incomingBytes });
+
+        if (limitError) {
+            files.forEach(file => discardUpload(file));
+            return res.status(403).json(limitError);
+        }
+    } catch (error) {
+        console.error("Error al verificar los límites del plan:", error);
+        files.forEach(file => discardUpload(file));
+        return res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+
+    next();
+};
@@ -0,0 +1,98 @@
+// src/middleware/resolveTenant.ts
+// Middleware global que determina el inquilino de cada solicitud a partir del host.
+import { Response, NextFunction } from 'express';
+import { AuthRequest, getTenantInfoBySlug } from './authMiddleware';
+import { PLATFORM_DOMAIN_BASE } from '../utils/tenantDomains';
+import { getCachedDomainSlug } from '../utils/tenantCache';
+import { apiMessage } from '../utils/i18n';
+
+// Hosts de desarrollo: el inquilino viene del subdominio (chavez.localhost),
+// de la cabecera x-tenant-slug o, si se configuró, de DEFAULT_TENANT_SLUG.
+const isDevelopmentHost = (host: string) =>
+    host === 'localhost' || host.endsWith('.localhost') || /^\d{1,3}(\.\d{1,3}){3}$/.test(host);
+
+const getDevelopmentTenantSlug = (req: AuthRequest<any>, host: string): string | null => {
+    const headerSlug = req.headers['x-tenant-slug'];
+    if (typeof headerSlug === 'string' && headerSlug) return headerSlug;
+    if (host.endsWith('.localhost')) return host.slice(0, -'.localhost'.length);
+    return process.env.DEFAULT_TENANT_SLUG || null;
+};
+
+// Lo único permitido en una clínica suspendida: que el personal inicie sesión y exporte sus datos
+const SUSPENDED_TENANT_ALLOWED_ROUTES = [
+    'POST /api/auth/admin/login',
+    'POST /api/auth/admin/login/2fa',
+    'POST /api/auth/refresh',
+    'POST /api/auth/admin/logout',
+    'GET /api/tenants/export',
+    'GET /api/tenants/export/archive',
+];
+
+// <slug>.<dominio de la plataforma> (solo un nivel de subdominio)
+const getPlatformSubdomainSlug = (host: string): string | null => {
+    if (!host.endsWith(`.${PLATFORM_DOMAIN_BASE}`)) return null;
+    const slug = host.slice(0, -(PLATFORM_DOMAIN_BASE.length + 1));
+    return slug && !slug.includes('.') ? slug : null;
+};
+
+// -----------------------------------------------------------------------------
+// 🏢 Orden de resolución:
+//   1. Dominio propio verificado (tabla tenant_domains)
+//   2. Subdominio de la plataforma
+//   3. Hosts de desarrollo (cabecera / subdominio .localhost / DEFAULT_TENANT_SLUG)
+// Un host desconocido o un inquilino inexistente responde 404 (sin inquilino por defecto).
+// Una clínica cerrada responde 410 y una suspendida 403 (salvo la exportación de solo lectura).
+// Dominios e inquilinos salen de la caché (utils/tenantCache): en caliente no se consulta la DB.
+// -----------------------------------------------------------------------------
+export const resolveTenant = async (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+    // La API de administración de la plataforma no pertenece a ningún inquilino
+    if (req.path.startsWith('/api/external')) {
+        return next();
+    }
+
+    const host = req.hostname.toLowerCase();
+
+    try {
+        let tenantSlug: string | null;
+        if (isDevelopmentHost(host)) {
+            tenantSlug = getDevelopmentTenantSlug(req, host);
+        } else {
+            tenantSlug = await getCachedDomainSlug(host) ?? getPlatformSubdomainSlug(host);
+        }
+
+        const tenantInfo = tenantSlug ? await getTenantInfoBySlug(tenantSlug) : null;
+        if (!tenantInfo) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { host }));
+        }
+
+        if (tenantInfo.status === 'closed') {
+            return res.status(410).json(apiMessage('TENANT_CLOSED'));
+        }
+        if (tenantInfo.status === 'suspended' && !SUSPENDED_TENANT_ALLOWED_ROUTES.includes(`${req.method} ${req.path}`)) {
+            return res.status(403).json(apiMessage('TENANT_SUSPENDED'));
+        }
+
+        // Inyectamos el slug y el registro completo del inquilino (una sola vez por solicitud)
+        req.tenantId = tenantInfo.slug;
+        req.resolvedTenant = tenantInfo;
+    } catch (error) {
+        console.error("Error al resolver el inquilino del host:", error);
+        return res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+
+    next();
+};
+
+// 🌐 CORS: orígenes de la plataforma, de desarrollo y dominios propios verificados
+export const isAllowedOrigin = async (origin: string): Promise<boolean> => {
+    let host: string;
+    try {
+        host = new URL(origin).hostname.toLowerCase();
+    } catch (e) {
+        return false;
+    }
+
+    if (origin.endsWith(':5173') || origin.endsWith(':4000')) return true;
+    if (host === PLATFORM_DOMAIN_BASE || getPlatformSubdomainSlug(host)) return true;
+    return (await getCachedDomainSlug(host)) !== null;
+};
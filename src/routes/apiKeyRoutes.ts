@@ -0,0 +1,104 @@
+// src/routes/apiKeyRoutes.ts
+// Gestión de las claves de API del inquilino (integraciones de terceros).
+import { Router, Response } from 'express';
+import pool from '../db';
+import { ResultSetHeader } from 'mysql2';
+import { AuthRequest, verifyToken, requireStaff, ensureTenantAccess, requirePermission, hasPermission } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES, ApiKeyScope, createApiKey, isApiKeyScope, listApiKeys } from '../utils/apiKeys';
+import { recordAudit } from '../utils/auditLog';
+import { apiMessage } from '../utils/i18n';
+
+const router = Router();
+
+// Solo personal con 'api_keys.manage' (una clave de API no puede crear otras claves)
+const guards = [verifyToken, requireStaff, ensureTenantAccess, requirePermission('api_keys.manage')];
+
+// 1. LISTAR CLAVES (GET /api/api-keys)
+router.get('/', ...guards, async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const apiKeys = await listApiKeys(tenantDbId);
+        res.status(200).json({ apiKeys, availableScopes: API_KEY_SCOPES });
+    } catch (error) {
+        console.error("Error al obtener las claves de API:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 2. CREAR CLAVE (POST /api/api-keys) { name, scopes: ['read' | 'orders' | 'appointments' | 'appointments_manage'] }
+// La clave completa se devuelve solo en esta respuesta. Cada scope exige que quien crea
+// la clave ya tenga todos sus permisos (no se puede delegar más de lo que se tiene).
+router.post('/', ...guards, async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { name, scopes } = req.body;
+
+    if (!name) {
+        return res.status(400).json(apiMessage('API_KEY_NAME_REQUIRED'));
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+        return res.status(400).json(apiMessage('API_KEY_SCOPES_REQUIRED'));
+    }
+
+    const unknown = scopes.filter((scope: unknown) => !isApiKeyScope(scope));
+    if (unknown.length > 0) {
+        return res.status(400).json(apiMessage('UNKNOWN_SCOPES', { scopes: unknown.join(', ') }));
+    }
+
+    const uniqueScopes = Array.from(new Set(scopes)) as ApiKeyScope[];
+
+    try {
+        const notAllowed: ApiKeyScope[] = [];
+        for (const scope of uniqueScopes) {
+            for (const permission of API_KEY_SCOPES[scope]) {
+                if (!(await hasPermission(req, permission))) {
+                    notAllowed.push(scope);
+                    break;
+                }
+            }
+        }
+        if (notAllowed.length > 0) {
+            return res.status(403).json(apiMessage('API_KEY_SCOPES_NOT_ALLOWED', { scopes: notAllowed.join(', ') }));
+        }
+
+        const { id, key, keyPrefix } = await createApiKey(tenantDbId, name, uniqueScopes, req.user!.id);
+
+        await recordAudit(req, {
+            action: 'api_key.create', entityType: 'api_key', entityId: id,
+            after: { name, scopes: uniqueScopes, key_prefix: keyPrefix }
+        });
+
+        res.status(201).json({
+            ...apiMessage('API_KEY_CREATED'),
+            apiKey: { id, name, scopes: uniqueScopes, keyPrefix, key }
+        });
+    } catch (error) {
+        console.error("Error al crear la clave de API:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 3. REVOCAR CLAVE (DELETE /api/api-keys/:keyId). Se conserva para el historial.
+router.delete('/:keyId', ...guards, async (req: AuthRequest<{ keyId: string }>, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { keyId } = req.params;
+
+    try {
+        const [result] = await pool.execute<ResultSetHeader>(
+            'UPDATE tenant_api_keys SET revoked_at = NOW() WHERE id = ? AND tenant_id = ? AND revoked_at IS NULL',
+            [keyId, tenantDbId]
+        );
+
+        if (result.affectedRows === 0) {
+            return res.status(404).json(apiMessage('API_KEY_NOT_FOUND'));
+        }
+
+        await recordAudit(req, { action: 'api_key.revoke', entityType: 'api_key', entityId: keyId });
+        res.status(200).json(apiMessage('API_KEY_REVOKED'));
+    } catch (error) {
+        console.error("Error al revocar la clave de API:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+export default router;
@@ -1,134 +1,424 @@
 // src/routes/appointmentRoutes.ts (Modificado para usar Auth y Tenant Check)
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Response, NextFunction } from 'express';
 import pool from '../db';
 import { RowDataPacket, OkPacket } from 'mysql2';
-import { ParamsDictionary } from 'express-serve-static-core';
-
-// Interfaces adaptadas para la autenticación
-interface AppointmentRequest extends Request {
-    user?: {
-        id: number;
-        tenant_id: string; // Slug (e.g., 'chavez') del usuario autenticado
-        role: 'admin' | 'doctor' | 'receptionist' | 'client';
-    };
-    // tenantId inyectado por resolveTenant middleware (Slug del subdominio/header)
-    tenantId?: string;
-}
+import { AuthRequest, verifyToken, requireVerifiedClient, requirePermission, ensureTenantAccess, hasPermission, getAuthenticatedTenantSlug, getTenantInfoBySlug } from '../middleware/authMiddleware';
+import { recordAudit } from '../utils/auditLog';
+import { checkPlanLimit } from '../utils/planLimits';
+import { WEEKDAYS, checkOpenAt, isIsoDate, isTime } from '../utils/businessHours';
+import { getTenantSettings, checkBookingLeadTime, getLocalNow, addDays } from '../utils/tenantSettings';
+import { resolveBookingBranch } from '../utils/branches';
+import { ApiMessage, apiMessage } from '../utils/i18n';
+
+// 🔐 Autenticación: capa compartida (authMiddleware), req.user lleva el ID real.
+type AppointmentRequest = AuthRequest;
 
 // -----------------------------------------------------------------------------
-// 🔐 MIDDLEWARE DE AUTENTICACIÓN
-const verifyToken = (req: AppointmentRequest, res: Response, next: NextFunction) => {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
+// 🛡️ MIDDLEWARE DE AUTORIZACIÓN PARA CITAS (Asegura que el usuario solo reserve en su propio inquilino)
+const ensureSameTenant = (req: AppointmentRequest, res: Response, next: NextFunction) => {
+    const { tenantId: requestedTenantSlug, clientId } = req.body;
+    // Usuario o clave de API del inquilino
+    const authenticatedTenantSlug = getAuthenticatedTenantSlug(req);
+    const userRole = req.user?.role;
 
-    if (!token) {
-        return res.status(401).json({ message: 'No autenticado. Token no proporcionado.' });
+    if (!authenticatedTenantSlug) {
+        return res.status(401).json(apiMessage('TENANT_UNVERIFIED'));
     }
 
-    // SIMULACIÓN DINÁMICA: Asumimos que el token es un string con el formato "slug:role"
-    try {
-        const [tenant_slug, role] = token.split(':');
+    // El tenant solicitado en el cuerpo debe coincidir con el tenant autenticado
+    if (requestedTenantSlug !== authenticatedTenantSlug) {
+        return res.status(403).json(apiMessage('TENANT_ACCESS_DENIED'));
+    }
 
-        if (!tenant_slug || !['admin', 'doctor', 'receptionist', 'client'].includes(role)) {
-            return res.status(401).json({ message: 'Token de simulación no válido.' });
-        }
+    // Lógica para Clientes: Un cliente sólo puede reservar para sí mismo.
+    // El `clientId` del cuerpo debe ser el ID real del cliente autenticado (viene en el token).
+    if (userRole === 'client' && Number(clientId) !== req.user?.id) {
+        return res.status(403).json(apiMessage('CLIENT_BOOKING_SELF_ONLY'));
+    }
 
-        (req as any).user = {
-            id: 1, // Mock ID
-            tenant_id: tenant_slug, // El tenant_id (slug) del usuario autenticado
-            role: role as any,
-        };
+    next();
+};
 
-    } catch (e) {
-        return res.status(401).json({ message: 'Token inválido o expirado.' });
+
+// Estados posibles de una cita
+const APPOINTMENT_STATUSES = ['scheduled', 'confirmed', 'completed', 'cancelled', 'no_show'] as const;
+type AppointmentStatus = typeof APPOINTMENT_STATUSES[number];
+
+const CALENDAR_VIEWS = ['day', 'week'];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// -----------------------------------------------------------------------------
+// 👀 Citas visibles para quien consulta:
+//   - 'appointments.view_all' (administración, recepción, claves de API): todas las del inquilino
+//   - 'appointments.view_own' (profesionales): solo las que tiene asignadas
+// Devuelve null si no tiene ninguno de los dos permisos.
+// -----------------------------------------------------------------------------
+const getViewScope = async (req: AppointmentRequest): Promise<{ staffId: number | null } | null> => {
+    if (await hasPermission(req, 'appointments.view_all')) return { staffId: null };
+    if (req.user && req.user.role !== 'client' && await hasPermission(req, 'appointments.view_own')) {
+        return { staffId: req.user.id };
     }
+    return null;
+};
 
+const requireAppointmentView = async (req: AppointmentRequest, res: Response, next: NextFunction) => {
+    try {
+        if (!(await getViewScope(req))) {
+            return res.status(403).json({
+                ...apiMessage(req.apiKey ? 'API_KEY_PERMISSION_DENIED' : 'PERMISSION_DENIED'),
+                requiredPermission: 'appointments.view_all'
+            });
+        }
+    } catch (error) {
+        console.error("Error al verificar permisos:", error);
+        return res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
     next();
 };
 
-// 🛡️ MIDDLEWARE DE AUTORIZACIÓN PARA CITAS (Asegura que el usuario solo reserve en su propio inquilino)
-const ensureSameTenant = (req: AppointmentRequest, res: Response, next: NextFunction) => {
-    const { tenantId: requestedTenantSlug, clientId } = req.body;
-    const authenticatedTenantSlug = req.user?.tenant_id;
-    const userRole = req.user?.role;
+// -----------------------------------------------------------------------------
+// 🔎 Filtros comunes al listado y al calendario (alias 'a' = appointments).
+// Un profesional solo ve su agenda: 'staffId' solo se respeta con 'appointments.view_all'.
+// -----------------------------------------------------------------------------
+const parseAppointmentFilters = (
+    filters: Record<string, unknown>,
+    scope: { staffId: number | null }
+): { sql?: string; params?: (string | number)[]; error?: ApiMessage } => {
+    const { from, to, status, clientId, petName, branchId, staffId } = filters;
+    let sql = '';
+    const params: (string | number)[] = [];
 
-    if (!authenticatedTenantSlug) {
-        return res.status(401).json({ message: 'No se pudo verificar el inquilino del usuario autenticado.' });
+    for (const [value, operator] of [[from, '>='], [to, '<=']] as const) {
+        if (!value) continue;
+        if (!isIsoDate(value)) {
+            return { error: apiMessage('INVALID_DATE', { value: String(value) }) };
+        }
+        sql += ` AND a.appointment_date ${operator} ?`;
+        params.push(value);
     }
-
-    // El tenant solicitado en el cuerpo debe coincidir con el tenant autenticado
-    if (requestedTenantSlug !== authenticatedTenantSlug) {
-        return res.status(403).json({ message: 'Acceso denegado. No puede crear citas para otro inquilino.' });
+    if (status) {
+        if (!APPOINTMENT_STATUSES.includes(status as AppointmentStatus)) {
+            return { error: apiMessage('INVALID_STATUS', { allowed: APPOINTMENT_STATUSES.join(', ') }) };
+        }
+        sql += ' AND a.status = ?';
+        params.push(status as string);
+    }
+    if (clientId) {
+        sql += ' AND a.client_id = ?';
+        params.push(Number(clientId) || 0);
+    }
+    if (petName) {
+        sql += ' AND a.pet_name LIKE ?';
+        params.push(`%${petName}%`);
+    }
+    if (branchId) {
+        sql += ' AND a.branch_id = ?';
+        params.push(Number(branchId) || 0);
     }
 
-    // Lógica para Clientes: Un cliente sólo puede reservar para sí mismo.
-    // Esto asume que el `clientId` en el cuerpo es el ID numérico del cliente autenticado.
-    if (userRole === 'client' && clientId !== req.user?.id) {
-        return res.status(403).json({ message: 'Acceso denegado. Un cliente solo puede reservar para sí mismo.' });
+    const assignedTo = scope.staffId ?? (staffId ? Number(staffId) || 0 : null);
+    if (assignedTo !== null) {
+        sql += ' AND a.staff_id = ?';
+        params.push(assignedTo);
     }
+    return { sql, params };
+};
 
-    next();
+// Fecha y hora como texto: los DATE de mysql2 llegan como Date en la zona del servidor
+const APPOINTMENT_SELECT = `
+    SELECT a.id, DATE_FORMAT(a.appointment_date, '%Y-%m-%d') AS date, TIME_FORMAT(a.appointment_time, '%H:%i') AS time,
+           a.status, a.pet_name, a.pet_type, a.service, a.notes,
+           a.client_id, c.name AS client_name, c.email AS client_email, c.phone AS client_phone,
+           a.branch_id, b.name AS branch_name, a.staff_id, s.name AS staff_name
+    FROM appointments a
+    LEFT JOIN clients c ON a.client_id = c.id
+    LEFT JOIN branches b ON a.branch_id = b.id
+    LEFT JOIN staff s ON a.staff_id = s.id
+`;
+
+const formatAppointment = (row: RowDataPacket) => ({
+    id: row.id,
+    date: row.date,
+    time: row.time,
+    status: row.status,
+    pet: { name: row.pet_name, type: row.pet_type },
+    service: row.service,
+    notes: row.notes,
+    client: { id: row.client_id, name: row.client_name, email: row.client_email, phone: row.client_phone },
+    branch: row.branch_id ? { id: row.branch_id, name: row.branch_name } : null,
+    staff: row.staff_id ? { id: row.staff_id, name: row.staff_name } : null,
+});
+
+// ¿Hay otra cita activa a la misma fecha y hora en la misma sucursal (o con el mismo profesional)?
+const hasSlotConflict = async (appointmentId: number, staffId?: number) => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT other.id FROM appointments other
+         JOIN appointments target ON target.id = ?
+         WHERE other.tenant_id = target.tenant_id AND other.id <> target.id AND other.status <> 'cancelled'
+           AND other.appointment_date = target.appointment_date AND other.appointment_time = target.appointment_time
+           AND ${staffId ? 'other.staff_id = ?' : 'other.branch_id <=> target.branch_id'}`,
+        staffId ? [appointmentId, staffId] : [appointmentId]
+    );
+    return rows.length > 0;
 };
 
 
 const router = Router();
 
 // Ruta para agendar una nueva cita
-// Aplicamos verifyToken y ensureSameTenant
-router.post('/appointments', verifyToken, ensureSameTenant, async (req: AppointmentRequest, res: Response) => {
-    const { clientId, tenantId, petName, petType, service, appointmentDate, appointmentTime, notes } = req.body;
+// Aplicamos verifyToken, ensureTenantAccess (token = inquilino del host), ensureSameTenant (cuerpo = token),
+// el permiso 'appointments.create' y exigimos email verificado a los clientes
+router.post('/appointments', verifyToken, ensureTenantAccess, ensureSameTenant, requirePermission('appointments.create'), requireVerifiedClient, async (req: AppointmentRequest, res: Response) => {
+    const { clientId, tenantId, petName, petType, service, appointmentDate, appointmentTime, notes, branchId: requestedBranchId } = req.body;
 
     // El chequeo de tenant y el cliente ya se hizo en `ensureSameTenant`
     if (!clientId || !tenantId || !petName || !petType || !service || !appointmentDate || !appointmentTime) {
-        return res.status(400).json({ message: 'Faltan campos obligatorios para la cita.' });
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'clientId, tenantId, petName, petType, service, appointmentDate, appointmentTime' }));
     }
 
+    // El inquilino del cuerpo ya coincide con el autenticado (ensureSameTenant): se resuelve desde la caché
+    let tenantNumericId: number;
+
     // Paso adicional: Verificar que el cliente existe en la tabla `clients`
     try {
+        const tenant = await getTenantInfoBySlug(tenantId);
+        if (!tenant) return res.status(404).json(apiMessage('TENANT_NOT_FOUND'));
+        tenantNumericId = tenant.id;
+
         const [clientCheck] = await pool.execute<RowDataPacket[]>(
-            // Buscamos por el ID del cliente y que pertenezca al tenant por slug
-            'SELECT id FROM clients WHERE id = ? AND tenant_id = (SELECT id FROM tenants WHERE tenant_id = ?)',
-            [clientId, tenantId]
+            // Buscamos por el ID del cliente y que pertenezca al tenant
+            'SELECT id FROM clients WHERE id = ? AND tenant_id = ?',
+            [clientId, tenantNumericId]
         );
         if (clientCheck.length === 0) {
-            return res.status(404).json({ message: 'Client ID not found for this tenant.' });
+            return res.status(404).json(apiMessage('CLIENT_NOT_FOUND'));
         }
     } catch (error) {
         console.error("Error validando cliente:", error);
-        return res.status(500).json({ message: 'Error del servidor al validar el cliente.' });
+        return res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 
     // Lógica para validar la disponibilidad del horario
     try {
-        // Obtenemos el ID numérico del tenant para la tabla appointments
-        const [tenantRows] = await pool.execute<RowDataPacket[]>(
-            'SELECT id FROM tenants WHERE tenant_id = ?',
-            [tenantId]
-        );
-        // Si ya pasó ensureSameTenant, tenantRows no debería ser 0, pero por seguridad
-        if (tenantRows.length === 0) return res.status(404).json({ message: 'Inquilino no encontrado para la cita.' });
+        // La clínica debe atender en esa fecha y hora (horario semanal y días de cierre)
+        if (!isIsoDate(appointmentDate)) {
+            return res.status(400).json(apiMessage('INVALID_APPOINTMENT_DATE'));
+        }
+        if (!isTime(String(appointmentTime))) {
+            return res.status(400).json(apiMessage('INVALID_APPOINTMENT_TIME'));
+        }
+
+        // Anticipación mínima configurada por la clínica (en su zona horaria)
+        const leadTimeError = checkBookingLeadTime(await getTenantSettings(tenantNumericId), appointmentDate, String(appointmentTime));
+        if (leadTimeError) {
+            return res.status(400).json(leadTimeError);
+        }
 
-        const tenantNumericId = tenantRows[0].id;
+        // Sucursal de la cita (obligatoria si la clínica tiene sucursales): su horario y su agenda
+        const { branchId, error: branchError } = await resolveBookingBranch(tenantNumericId, requestedBranchId);
+        if (branchError) {
+            return res.status(400).json(branchError);
+        }
+
+        const closedError = await checkOpenAt(tenantNumericId, appointmentDate, String(appointmentTime), branchId);
+        if (closedError) {
+            return res.status(400).json(closedError);
+        }
 
         const [existingAppointments] = await pool.execute<RowDataPacket[]>(
-            'SELECT * FROM appointments WHERE tenant_id = ? AND appointment_date = ? AND appointment_time = ?',
-            [tenantNumericId, appointmentDate, appointmentTime]
+            `SELECT id FROM appointments
+             WHERE tenant_id = ? AND branch_id <=> ? AND appointment_date = ? AND appointment_time = ? AND status <> 'cancelled'`,
+            [tenantNumericId, branchId, appointmentDate, appointmentTime]
         );
 
         if (existingAppointments.length > 0) {
-            return res.status(409).json({ message: 'Este horario ya está reservado.' });
+            return res.status(409).json(apiMessage('SLOT_TAKEN'));
+        }
+
+        // Límite de citas del plan: se cuenta el mes de la fecha de la cita
+        const limitError = await checkPlanLimit(tenantNumericId, 'monthly_appointments', { referenceDate: appointmentDate });
+        if (limitError) {
+            return res.status(403).json(limitError);
         }
 
         // Si el horario está disponible, agendamos la cita
         const [result] = await pool.execute<OkPacket>(
-            'INSERT INTO appointments (client_id, tenant_id, pet_name, pet_type, service, appointment_date, appointment_time, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-            [clientId, tenantNumericId, petName, petType, service, appointmentDate, appointmentTime, notes]
+            'INSERT INTO appointments (client_id, tenant_id, branch_id, pet_name, pet_type, service, appointment_date, appointment_time, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            [clientId, tenantNumericId, branchId, petName, petType, service, appointmentDate, appointmentTime, notes]
         );
 
-        res.status(201).json({ message: 'Cita agendada con éxito', id: result.insertId });
+        res.status(201).json({ ...apiMessage('APPOINTMENT_CREATED'), id: result.insertId, branchId });
     } catch (error) {
         console.error(error);
-        res.status(500).json({ message: 'Error del servidor' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// -----------------------------------------------------------------------------
+// 📋 CITAS DE LA CLÍNICA (personal o clave de API)
+// GET /api/appointments?from=YYYY-MM-DD&to=YYYY-MM-DD&status=scheduled&clientId=1&petName=Firu&branchId=1&staffId=2&page=1&limit=50
+// Con 'appointments.view_own' (profesionales) solo se listan las citas asignadas.
+// -----------------------------------------------------------------------------
+router.get('/', verifyToken, ensureTenantAccess, requireAppointmentView, async (req: AppointmentRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    try {
+        const { sql, params, error } = parseAppointmentFilters(req.query, (await getViewScope(req))!);
+        if (error) {
+            return res.status(400).json(error);
+        }
+
+        const [countRows] = await pool.execute<RowDataPacket[]>(
+            `SELECT COUNT(*) AS total FROM appointments a WHERE a.tenant_id = ?${sql}`,
+            [tenantDbId, ...params!]
+        );
+
+        // LIMIT/OFFSET ya validados como enteros (mysql2 no acepta placeholders ahí con execute)
+        const [rows] = await pool.execute<RowDataPacket[]>(
+            `${APPOINTMENT_SELECT}
+             WHERE a.tenant_id = ?${sql}
+             ORDER BY a.appointment_date ASC, a.appointment_time ASC, a.id ASC
+             LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+            [tenantDbId, ...params!]
+        );
+
+        res.status(200).json({
+            appointments: rows.map(formatAppointment),
+            pagination: { page, limit, total: Number(countRows[0].total) }
+        });
+    } catch (error) {
+        console.error("Error al obtener las citas de la clínica:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// -----------------------------------------------------------------------------
+// 📅 CALENDARIO del día o de la semana, agrupado por horario
+// GET /api/appointments/calendar?view=day|week&date=YYYY-MM-DD&branchId=1&staffId=2&status=confirmed
+// Sin 'date' se usa el día de hoy de la clínica (en su zona horaria); la semana va de lunes a domingo.
+// Sin 'status' se omiten las citas canceladas.
+// -----------------------------------------------------------------------------
+router.get('/calendar', verifyToken, ensureTenantAccess, requireAppointmentView, async (req: AppointmentRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { view = 'day', date: requestedDate, status, branchId, staffId } = req.query;
+
+    if (!CALENDAR_VIEWS.includes(view as string)) {
+        return res.status(400).json(apiMessage('INVALID_CALENDAR_VIEW', { allowed: CALENDAR_VIEWS.join(', ') }));
+    }
+    if (requestedDate !== undefined && !isIsoDate(requestedDate)) {
+        return res.status(400).json(apiMessage('INVALID_DATE', { value: String(requestedDate) }));
+    }
+
+    try {
+        const settings = await getTenantSettings(tenantDbId);
+        const date = requestedDate ?? getLocalNow(settings.timezone).date;
+        const weekday = new Date(date + 'T00:00:00').getDay();
+        const from = view === 'week' ? addDays(date, -((weekday + 6) % 7)) : date;
+        const to = view === 'week' ? addDays(from, 6) : date;
+
+        const { sql, params, error } = parseAppointmentFilters({ from, to, status, branchId, staffId }, (await getViewScope(req))!);
+        if (error) {
+            return res.status(400).json(error);
+        }
+
+        const [rows] = await pool.execute<RowDataPacket[]>(
+            `${APPOINTMENT_SELECT}
+             WHERE a.tenant_id = ?${sql}${status ? '' : " AND a.status <> 'cancelled'"}
+             ORDER BY a.appointment_date ASC, a.appointment_time ASC, a.id ASC`,
+            [tenantDbId, ...params!]
+        );
+
+        const days = [];
+        for (let day = from; day <= to; day = addDays(day, 1)) {
+            const slots: { time: string; appointments: ReturnType<typeof formatAppointment>[] }[] = [];
+            for (const row of rows.filter(row => row.date === day)) {
+                const last = slots[slots.length - 1];
+                if (last && last.time === row.time) {
+                    last.appointments.push(formatAppointment(row));
+                } else {
+                    slots.push({ time: row.time, appointments: [formatAppointment(row)] });
+                }
+            }
+            days.push({ date: day, weekday: WEEKDAYS[new Date(day + 'T00:00:00').getDay()], slots });
+        }
+
+        res.status(200).json({ view, from, to, timezone: settings.timezone, days });
+    } catch (error) {
+        console.error("Error al obtener el calendario de citas:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// -----------------------------------------------------------------------------
+// ✏️ ACTUALIZAR una cita ('appointments.manage')
+// PUT /api/appointments/:appointmentId  { status?, staffId? }  (staffId: null quita el profesional)
+// Un profesional no puede tener dos citas a la misma hora, y reactivar una cita
+// cancelada exige que su horario siga libre.
+// -----------------------------------------------------------------------------
+router.put('/:appointmentId', verifyToken, ensureTenantAccess, requirePermission('appointments.manage'), async (req: AuthRequest<{ appointmentId: string }>, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { status, staffId } = req.body;
+
+    if (status === undefined && staffId === undefined) {
+        return res.status(400).json(apiMessage('NO_FIELDS_TO_UPDATE', { fields: 'status, staffId' }));
+    }
+    if (status !== undefined && !APPOINTMENT_STATUSES.includes(status)) {
+        return res.status(400).json(apiMessage('INVALID_STATUS', { allowed: APPOINTMENT_STATUSES.join(', ') }));
+    }
+
+    try {
+        const [rows] = await pool.execute<RowDataPacket[]>(
+            'SELECT id, status, staff_id FROM appointments WHERE id = ? AND tenant_id = ?',
+            [Number(req.params.appointmentId) || 0, tenantDbId]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json(apiMessage('APPOINTMENT_NOT_FOUND'));
+        }
+        const appointment = rows[0];
+
+        let nextStaffId: number | null = staffId === undefined ? appointment.staff_id : null;
+        if (staffId !== undefined && staffId !== null) {
+            const [staffRows] = await pool.execute<RowDataPacket[]>(
+                "SELECT id FROM staff WHERE id = ? AND tenant_id = ? AND status = 'active'",
+                [Number(staffId) || 0, tenantDbId]
+            );
+            if (staffRows.length === 0) {
+                return res.status(400).json(apiMessage('INVALID_STAFF_ASSIGNMENT'));
+            }
+            nextStaffId = staffRows[0].id;
+        }
+        const nextStatus: AppointmentStatus = status ?? appointment.status;
+
+        // Los conflictos solo importan si la cita queda activa
+        const reactivated = appointment.status === 'cancelled' && nextStatus !== 'cancelled';
+        if (reactivated && await hasSlotConflict(appointment.id)) {
+            return res.status(409).json(apiMessage('SLOT_TAKEN'));
+        }
+        if (nextStatus !== 'cancelled' && nextStaffId && (reactivated || nextStaffId !== appointment.staff_id)
+            && await hasSlotConflict(appointment.id, nextStaffId)) {
+            return res.status(409).json(apiMessage('STAFF_SLOT_TAKEN'));
+        }
+
+        await pool.execute(
+            'UPDATE appointments SET status = ?, staff_id = ? WHERE id = ? AND tenant_id = ?',
+            [nextStatus, nextStaffId, appointment.id, tenantDbId]
+        );
+
+        await recordAudit(req, {
+            action: 'appointment.update', entityType: 'appointment', entityId: appointment.id,
+            before: { status: appointment.status, staffId: appointment.staff_id },
+            after: { status: nextStatus, staffId: nextStaffId }
+        });
+
+        res.status(200).json({ ...apiMessage('APPOINTMENT_UPDATED'), id: appointment.id, status: nextStatus, staffId: nextStaffId });
+    } catch (error) {
+        console.error("Error al actualizar la cita:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
@@ -0,0 +1,99 @@
+// src/routes/auditLogRoutes.ts
+// Consulta de la bitácora de cambios administrativos del inquilino (solo lectura).
+import { Router, Response } from 'express';
+import pool from '../db';
+import { RowDataPacket } from 'mysql2';
+import { AuthRequest, verifyToken, requireStaff, ensureTenantAccess, requirePermission } from '../middleware/authMiddleware';
+import { apiMessage } from '../utils/i18n';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+interface AuditLogRow extends RowDataPacket {
+    id: number;
+    actor_type: string;
+    actor_id: number | null;
+    actor_role: string | null;
+    actor_name: string | null;
+    actor_email: string | null;
+    action: string;
+    entity_type: string;
+    entity_id: string | null;
+    changes: string | Record<string, unknown> | null; // JSON: según el driver llega como texto u objeto
+    ip_address: string | null;
+    user_agent: string | null;
+    created_at: Date;
+}
+
+// 1. LISTAR ENTRADAS con filtros (GET /api/audit-logs)
+// Filtros: actorId, action, entityType, entityId, from, to (fechas ISO), page, limit
+router.get('/', verifyToken, requireStaff, ensureTenantAccess, requirePermission('audit.view'), async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { actorId, action, entityType, entityId, from, to } = req.query;
+
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    let where = 'WHERE a.tenant_id = ?';
+    const params: (string | number)[] = [tenantDbId];
+
+    if (actorId) {
+        where += ' AND a.actor_id = ?';
+        params.push(parseInt(actorId as string, 10));
+    }
+    if (action) {
+        where += ' AND a.action = ?';
+        params.push(action as string);
+    }
+    if (entityType) {
+        where += ' AND a.entity_type = ?';
+        params.push(entityType as string);
+    }
+    if (entityId) {
+        where += ' AND a.entity_id = ?';
+        params.push(entityId as string);
+    }
+    for (const [value, operator] of [[from, '>='], [to, '<=']] as const) {
+        if (!value) continue;
+        const date = new Date(value as string);
+        if (isNaN(date.getTime())) {
+            return res.status(400).json(apiMessage('INVALID_DATE', { value: String(value) }));
+        }
+        where += ` AND a.created_at ${operator} ?`;
+        params.push(date.toISOString().slice(0, 19).replace('T', ' '));
+    }
+
+    try {
+        const [countRows] = await pool.execute<RowDataPacket[]>(
+            `SELECT COUNT(*) AS total FROM audit_log a ${where}`,
+            params
+        );
+
+        // LIMIT/OFFSET ya validados como enteros (mysql2 no acepta placeholders ahí con execute)
+        const [rows] = await pool.execute<AuditLogRow[]>(
+            `SELECT a.id, a.actor_type, a.actor_id, a.actor_role, s.name AS actor_name, s.email AS actor_email,
+                    a.action, a.entity_type, a.entity_id, a.changes, a.ip_address, a.user_agent, a.created_at
+             FROM audit_log a
+             LEFT JOIN staff s ON a.actor_type = 'staff' AND a.actor_id = s.id
+             ${where}
+             ORDER BY a.created_at DESC, a.id DESC
+             LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+            params
+        );
+
+        res.status(200).json({
+            entries: rows.map(row => ({
+                ...row,
+                changes: typeof row.changes === 'string' ? JSON.parse(row.changes) : row.changes
+            })),
+            pagination: { page, limit, total: Number(countRows[0].total) }
+        });
+    } catch (error) {
+        console.error("Error al obtener la bitácora de auditoría:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+export default router;
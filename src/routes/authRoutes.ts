@@ -3,6 +3,15 @@ import { Router, Request, Response } from 'express';
 import pool from '../db';
 import { RowDataPacket } from 'mysql2';
 import bcrypt from 'bcryptjs';
+import { signAccessToken, signChallengeToken, verifyChallengeToken } from '../utils/jwt';
+import { getDeviceInfo, issueRefreshToken, rotateRefreshToken, revokeRefreshToken } from '../utils/sessions';
+import { AuthRequest, ResolvedTenant, resolveTenantInfo } from '../middleware/authMiddleware';
+import { requestPasswordReset, resetPasswordWithToken } from '../utils/passwordReset';
+import { findActiveInvitation, acceptStaffInvitation } from '../utils/staffInvitations';
+import { getFrontendBaseUrl } from '../utils/links';
+import { LoginContext, getClientIp, getLoginBlock, respondLoginBlocked, registerFailedLogin, clearFailedLogins } from '../utils/loginThrottle';
+import { getStaffTwoFactor, isTwoFactorMandatory, verifySecondFactor } from '../utils/twoFactor';
+import { apiMessage } from '../utils/i18n';
 
 // Interfaz para definir la estructura de los datos del PERSONAL
 interface Staff extends RowDataPacket {
@@ -13,6 +22,7 @@ interface Staff extends RowDataPacket {
     name: string;
     is_admin: boolean;
     role: 'admin' | 'doctor' | 'receptionist';
+    totp_enabled: number;
 }
 
 // Interfaz para la tabla de CLIENTES
@@ -24,10 +34,12 @@ interface Client extends RowDataPacket {
     name: string;
     phone: string;
     address: string;
+    email_verified_at: Date | null;
 }
 
 interface LoginRequest extends Request {
     tenantId?: string; // Slug inyectado por resolveTenant (el subdominio)
+    resolvedTenant?: ResolvedTenant;
     params: {
         tenantId: string;
         [key: string]: any;
@@ -36,6 +48,25 @@ interface LoginRequest extends Request {
 
 const router = Router();
 
+// 🔑 Emite la sesión completa del personal (access token + refresh token del dispositivo)
+const sendStaffSession = async (req: Request, res: Response, staffUser: Staff, tenantSlug: string) => {
+    const { password: userPassword, totp_enabled, ...userData } = staffUser;
+
+    // Sesión del dispositivo: refresh token rotativo guardado en el servidor
+    const refreshToken = await issueRefreshToken(
+        { tenantDbId: staffUser.tenant_id, userType: 'staff', userId: staffUser.id },
+        getDeviceInfo(req)
+    );
+
+    // JWT firmado con el ID real, el slug del inquilino y el rol
+    res.status(200).json({
+        ...apiMessage('LOGIN_SUCCESS', { role: staffUser.role }),
+        token: signAccessToken({ id: staffUser.id, tenant_id: tenantSlug, role: staffUser.role }),
+        refreshToken,
+        user: { ...userData, tenantId: tenantSlug, twoFactorEnabled: Boolean(totp_enabled) }
+    });
+};
+
 // =================================================================
 // 🎯 1. RUTA DE LOGIN PARA PERSONAL ADMINISTRATIVO (Busca en la tabla `staff`)
 // =================================================================
@@ -45,52 +76,128 @@ router.post('/admin/login', async (req: LoginRequest, res: Response) => {
     const tenantSlug = req.tenantId;
 
     if (!tenantSlug || !email || !password) {
-        return res.status(400).json({ message: 'Credenciales incompletas.' });
+        return res.status(400).json(apiMessage('MISSING_CREDENTIALS'));
     }
 
     try {
-        // 1. Obtener el ID numérico del tenant a partir del SLUG
-        const [tenantRows] = await pool.execute<RowDataPacket[]>(
-            'SELECT id FROM tenants WHERE tenant_id = ?',
-            [tenantSlug]
-        );
+        // 1. El ID numérico del tenant ya viene resuelto (desde la caché) por resolveTenant
+        const tenantIdNumeric = req.resolvedTenant!.id;
 
-        if (tenantRows.length === 0) {
-            return res.status(401).json({ message: 'Credenciales inválidas' });
+        // 🚦 Protección contra fuerza bruta (por cuenta y por IP)
+        const loginContext: LoginContext = { tenantDbId: tenantIdNumeric, userType: 'staff', email, ip: getClientIp(req) };
+        const block = await getLoginBlock(loginContext);
+        if (block) {
+            return respondLoginBlocked(res, block);
         }
 
-        const tenantIdNumeric = tenantRows[0].id;
-
         // 2. Busca en la tabla `staff`
         const [rows] = await pool.execute<Staff[]>(
-            `SELECT id, tenant_id, email, password, name, is_admin, role 
+            `SELECT id, tenant_id, email, password, name, is_admin, role, totp_enabled 
              FROM staff 
-             WHERE email = ? AND tenant_id = ?`,
+             WHERE email = ? AND tenant_id = ? AND status = 'active'`,
             [email, tenantIdNumeric]
         );
 
         if (rows.length === 0) {
-            return res.status(401).json({ message: 'Credenciales inválidas' });
+            await registerFailedLogin(loginContext);
+            return res.status(401).json(apiMessage('INVALID_CREDENTIALS'));
         }
 
         const staffUser = rows[0];
         const isMatch = await bcrypt.compare(password, staffUser.password);
 
         if (isMatch) {
-            const { password: userPassword, ...userData } = staffUser;
+            const challengePayload = { id: staffUser.id, tenant_id: tenantSlug, role: staffUser.role };
 
-            // 🔑 Generar Token: Utilizamos el formato "slug:role" para que el middleware lo lea
-            res.status(200).json({
-                message: `Inicio de sesión exitoso como ${staffUser.role}`,
-                token: `${tenantSlug}:${staffUser.role}`,
-                user: { ...userData, tenantId: tenantSlug }
-            });
+            // 🔐 2FA activado: el login pasa a ser de dos pasos (POST /admin/login/2fa)
+            // Los intentos fallidos no se limpian aquí sino tras el segundo factor: si no,
+            // repetir la contraseña reiniciaría el contador de códigos TOTP erróneos.
+            if (staffUser.totp_enabled) {
+                return res.status(200).json({
+                    ...apiMessage('TWO_FACTOR_CODE_REQUIRED'),
+                    twoFactorRequired: true,
+                    challengeToken: signChallengeToken(challengePayload, '2fa_login')
+                });
+            }
+
+            await clearFailedLogins(loginContext);
+
+            // 🔐 2FA obligatorio para su rol pero aún no configurado: solo puede enrolarse
+            if (await isTwoFactorMandatory(tenantIdNumeric, staffUser.role)) {
+                return res.status(200).json({
+                    ...apiMessage('TWO_FACTOR_SETUP_REQUIRED'),
+                    twoFactorSetupRequired: true,
+                    challengeToken: signChallengeToken(challengePayload, '2fa_setup')
+                });
+            }
+
+            await sendStaffSession(req, res, staffUser, tenantSlug);
         } else {
-            return res.status(401).json({ message: 'Credenciales inválidas' });
+            await registerFailedLogin(loginContext);
+            return res.status(401).json(apiMessage('INVALID_CREDENTIALS'));
         }
     } catch (error) {
         console.error("Error en /admin/login:", error);
-        res.status(500).json({ message: 'Error del servidor. Consulte los logs para más detalles.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// =================================================================
+// 🔐 1.1 SEGUNDO PASO DEL LOGIN DEL PERSONAL (código TOTP o de recuperación)
+// =================================================================
+router.post('/admin/login/2fa', resolveTenantInfo, async (req: AuthRequest, res: Response) => {
+    const { challengeToken, code, recoveryCode } = req.body;
+    const { id: tenantDbId, slug: tenantSlug } = req.resolvedTenant!;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+        return res.status(400).json(apiMessage('CHALLENGE_FIELDS_REQUIRED'));
+    }
+
+    let challenge;
+    try {
+        challenge = verifyChallengeToken(challengeToken, '2fa_login');
+    } catch (e) {
+        return res.status(401).json(apiMessage('CHALLENGE_EXPIRED'));
+    }
+
+    if (challenge.tenant_id !== tenantSlug) {
+        return res.status(403).json(apiMessage('TENANT_ACCESS_DENIED'));
+    }
+
+    try {
+        const twoFactor = await getStaffTwoFactor(tenantDbId, challenge.id);
+        if (!twoFactor || !twoFactor.totp_enabled) {
+            return res.status(401).json(apiMessage('INVALID_CREDENTIALS'));
+        }
+
+        // Los códigos erróneos cuentan como intentos fallidos de la cuenta
+        const loginContext: LoginContext = { tenantDbId, userType: 'staff', email: twoFactor.email, ip: getClientIp(req) };
+        const block = await getLoginBlock(loginContext);
+        if (block) {
+            return respondLoginBlocked(res, block);
+        }
+
+        const isValid = await verifySecondFactor(twoFactor, { code, recoveryCode });
+        if (!isValid) {
+            await registerFailedLogin(loginContext);
+            return res.status(401).json(apiMessage('INVALID_VERIFICATION_CODE'));
+        }
+        await clearFailedLogins(loginContext);
+
+        // La cuenta pudo desactivarse o eliminarse después de emitir el desafío
+        const [rows] = await pool.execute<Staff[]>(
+            `SELECT id, tenant_id, email, password, name, is_admin, role, totp_enabled 
+             FROM staff 
+             WHERE id = ? AND tenant_id = ? AND status = 'active'`,
+            [challenge.id, tenantDbId]
+        );
+        if (rows.length === 0) {
+            return res.status(401).json(apiMessage('INVALID_CREDENTIALS'));
+        }
+        await sendStaffSession(req, res, rows[0], tenantSlug);
+    } catch (error) {
+        console.error("Error en /admin/login/2fa:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
@@ -103,59 +210,226 @@ router.post('/client/login', async (req: LoginRequest, res: Response) => {
     const tenantSlug = req.tenantId;
 
     if (!tenantSlug || !email || !password) {
-        return res.status(400).json({ message: 'Credenciales incompletas.' });
+        return res.status(400).json(apiMessage('MISSING_CREDENTIALS'));
     }
 
     try {
-        // 1. Obtener el ID numérico del tenant a partir del SLUG
-        const [tenantRows] = await pool.execute<RowDataPacket[]>(
-            'SELECT id FROM tenants WHERE tenant_id = ?',
-            [tenantSlug]
-        );
+        // 1. El ID numérico del tenant ya viene resuelto (desde la caché) por resolveTenant
+        const tenantIdNumeric = req.resolvedTenant!.id;
 
-        if (tenantRows.length === 0) {
-            return res.status(401).json({ message: 'Credenciales inválidas' });
+        // 🚦 Protección contra fuerza bruta (por cuenta y por IP)
+        const loginContext: LoginContext = { tenantDbId: tenantIdNumeric, userType: 'client', email, ip: getClientIp(req) };
+        const block = await getLoginBlock(loginContext);
+        if (block) {
+            return respondLoginBlocked(res, block);
         }
 
-        const tenantIdNumeric = tenantRows[0].id;
-
         // 2. Busca en la tabla `clients`
         const [rows] = await pool.execute<Client[]>(
-            `SELECT id, tenant_id, email, password, name, phone, address 
+            `SELECT id, tenant_id, email, password, name, phone, address, email_verified_at 
              FROM clients 
              WHERE email = ? AND tenant_id = ?`,
             [email, tenantIdNumeric]
         );
 
         if (rows.length === 0) {
-            return res.status(401).json({ message: 'Credenciales inválidas' });
+            await registerFailedLogin(loginContext);
+            return res.status(401).json(apiMessage('INVALID_CREDENTIALS'));
         }
 
         const clientUser = rows[0];
         const isMatch = await bcrypt.compare(password, clientUser.password);
 
         if (isMatch) {
-            const { password: userPassword, ...clientData } = clientUser;
-            const clientRole = 'client';
+            await clearFailedLogins(loginContext);
+            const { password: userPassword, email_verified_at, ...clientData } = clientUser;
+            const clientRole = 'client' as const;
 
-            // 🔑 Generar Token: Utilizamos el formato "slug:role" para que el middleware lo lea
+            const refreshToken = await issueRefreshToken(
+                { tenantDbId: tenantIdNumeric, userType: 'client', userId: clientUser.id },
+                getDeviceInfo(req)
+            );
+
+            // 🔑 Generar Token: JWT firmado con el ID real, el slug del inquilino y el rol
             res.status(200).json({
-                message: 'Inicio de sesión de cliente exitoso',
-                token: `${tenantSlug}:${clientRole}`,
-                user: { ...clientData, role: clientRole, tenantId: tenantSlug } // Rol 'client' inyectado
+                ...apiMessage('LOGIN_SUCCESS'),
+                token: signAccessToken({ id: clientUser.id, tenant_id: tenantSlug, role: clientRole }),
+                refreshToken,
+                user: { ...clientData, role: clientRole, tenantId: tenantSlug, emailVerified: email_verified_at !== null } // Rol 'client' inyectado
             });
         } else {
-            return res.status(401).json({ message: 'Credenciales inválidas' });
+            await registerFailedLogin(loginContext);
+            return res.status(401).json(apiMessage('INVALID_CREDENTIALS'));
         }
     } catch (error) {
         console.error('Error en /client/login:', error);
-        res.status(500).json({ message: 'Error del servidor. Consulte los logs para más detalles.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// =================================================================
+// 🔄 3. RENOVAR SESIÓN (Personal y Clientes): rota el refresh token
+// =================================================================
+router.post('/refresh', resolveTenantInfo, async (req: AuthRequest, res: Response) => {
+    const { refreshToken } = req.body;
+    const { id: tenantDbId, slug: tenantSlug } = req.resolvedTenant!;
+
+    if (!refreshToken) {
+        return res.status(400).json(apiMessage('REFRESH_TOKEN_REQUIRED'));
+    }
+
+    try {
+        const rotated = await rotateRefreshToken(refreshToken, tenantDbId, getDeviceInfo(req));
+        if (!rotated) {
+            return res.status(401).json(apiMessage('SESSION_INVALID'));
+        }
+
+        // Releemos el usuario para firmar el token con su rol ACTUAL
+        let role: Staff['role'] | 'client' = 'client';
+        if (rotated.userType === 'staff') {
+            const [rows] = await pool.execute<Staff[]>(
+                `SELECT id, role FROM staff WHERE id = ? AND tenant_id = ? AND status = 'active'`,
+                [rotated.userId, tenantDbId]
+            );
+            if (rows.length === 0) {
+                await revokeRefreshToken(rotated.refreshToken, tenantDbId);
+                return res.status(401).json(apiMessage('SESSION_INVALID'));
+            }
+            role = rows[0].role;
+        } else {
+            const [rows] = await pool.execute<Client[]>(
+                'SELECT id FROM clients WHERE id = ? AND tenant_id = ?',
+                [rotated.userId, tenantDbId]
+            );
+            if (rows.length === 0) {
+                await revokeRefreshToken(rotated.refreshToken, tenantDbId);
+                return res.status(401).json(apiMessage('SESSION_INVALID'));
+            }
+        }
+
+        res.status(200).json({
+            ...apiMessage('SESSION_REFRESHED'),
+            token: signAccessToken({ id: rotated.userId, tenant_id: tenantSlug, role }),
+            refreshToken: rotated.refreshToken
+        });
+    } catch (error) {
+        console.error('Error en /refresh:', error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// =================================================================
+// 🚪 4. CERRAR SESIÓN: invalida el refresh token del dispositivo
+// =================================================================
+const logout = async (req: AuthRequest, res: Response) => {
+    const { refreshToken } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    if (!refreshToken) {
+        return res.status(400).json(apiMessage('REFRESH_TOKEN_REQUIRED'));
+    }
+
+    try {
+        await revokeRefreshToken(refreshToken, tenantDbId);
+        res.status(200).json(apiMessage('LOGGED_OUT'));
+    } catch (error) {
+        console.error('Error en /logout:', error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+};
+
+router.post('/logout', resolveTenantInfo, logout);
+router.post('/admin/logout', resolveTenantInfo, logout);
+
+// =================================================================
+// 🔑 5. RECUPERAR CONTRASEÑA DEL PERSONAL
+// =================================================================
+router.post('/admin/forgot-password', resolveTenantInfo, async (req: AuthRequest, res: Response) => {
+    const { email } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    if (!email) {
+        return res.status(400).json(apiMessage('EMAIL_REQUIRED'));
+    }
+
+    try {
+        const frontendUrl = await getFrontendBaseUrl(req.resolvedTenant!);
+        await requestPasswordReset(tenantDbId, 'staff', email,
+            (token) => `${frontendUrl}/admin/reset-password?token=${token}`);
+
+        // Respuesta genérica: no revelamos si el email está registrado
+        res.status(200).json(apiMessage('PASSWORD_RESET_REQUESTED'));
+    } catch (error) {
+        console.error('Error en /admin/forgot-password:', error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+router.post('/admin/reset-password', resolveTenantInfo, async (req: AuthRequest, res: Response) => {
+    const { token, password } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    if (!token || !password) {
+        return res.status(400).json(apiMessage('TOKEN_AND_PASSWORD_REQUIRED'));
+    }
+
+    try {
+        const wasReset = await resetPasswordWithToken(tenantDbId, 'staff', token, password);
+        if (!wasReset) {
+            return res.status(400).json(apiMessage('PASSWORD_RESET_LINK_INVALID'));
+        }
+        res.status(200).json(apiMessage('PASSWORD_RESET_SIGN_IN'));
+    } catch (error) {
+        console.error('Error en /admin/reset-password:', error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// =================================================================
+// ✉️ INVITACIONES DEL PERSONAL (públicas: el invitado aún no tiene contraseña)
+// =================================================================
+
+// Datos de la invitación para mostrar en el formulario (GET /admin/accept-invite?token=...)
+router.get('/admin/accept-invite', resolveTenantInfo, async (req: AuthRequest, res: Response) => {
+    const { token } = req.query;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    if (!token) {
+        return res.status(400).json(apiMessage('INVITATION_TOKEN_REQUIRED'));
+    }
+
+    try {
+        const invitation = await findActiveInvitation(tenantDbId, token as string);
+        if (!invitation) {
+            return res.status(404).json(apiMessage('INVITATION_INVALID'));
+        }
+        const { email, name, role } = invitation;
+        res.status(200).json({ invitation: { email, name, role } });
+    } catch (error) {
+        console.error('Error en GET /admin/accept-invite:', error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
-router.post('/admin/logout', (req: Request, res: Response) => {
-    // Simulación de cierre de sesión
-    res.status(200).json({ message: 'Sesión de personal cerrada exitosamente en el backend.' });
+// El invitado define su contraseña y la cuenta queda activa (POST /admin/accept-invite)
+router.post('/admin/accept-invite', resolveTenantInfo, async (req: AuthRequest, res: Response) => {
+    const { token, password } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    if (!token || !password) {
+        return res.status(400).json(apiMessage('TOKEN_AND_PASSWORD_REQUIRED'));
+    }
+
+    try {
+        const accepted = await acceptStaffInvitation(tenantDbId, token, password);
+        if (!accepted) {
+            return res.status(400).json(apiMessage('INVITATION_INVALID'));
+        }
+        res.status(200).json(apiMessage('ACCOUNT_ACTIVATED'));
+    } catch (error) {
+        console.error('Error en POST /admin/accept-invite:', error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
 });
 
 export default router;
\ No newline at end of file
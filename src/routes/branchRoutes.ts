@@ -0,0 +1,280 @@
+// src/routes/branchRoutes.ts
+// Gestión de las sucursales de la clínica: datos, horario y stock por sucursal.
+// El listado público está en storeRoutes (GET /api/store/branches) y la asignación
+// del personal en staffRoutes (PUT /api/staff/:staffId/branches).
+import { Router, Response } from 'express';
+import pool from '../db';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { AuthRequest, verifyToken, requireStaff, ensureTenantAccess, requirePermission } from '../middleware/authMiddleware';
+import { recordAudit } from '../utils/auditLog';
+import { getBranchHours, parseWeeklyHours, saveBranchHours, formatSchedule } from '../utils/businessHours';
+import { BranchInput, parseBranchInput, formatBranch, listBranches, findBranch, syncProductStock } from '../utils/branches';
+import { apiMessage } from '../utils/i18n';
+
+const router = Router();
+
+type BranchRequest = AuthRequest<{ branchId: string }>;
+
+// Columnas de la tabla para cada campo de la API
+const BRANCH_COLUMNS: Record<keyof BranchInput, string> = {
+    name: 'name',
+    address: 'address',
+    phone: 'phone',
+    email: 'email',
+    isActive: 'is_active',
+};
+
+const isNameTaken = async (tenantDbId: number, name: string, exceptBranchId?: number) => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT id FROM branches WHERE tenant_id = ? AND name = ? AND id <> ?',
+        [tenantDbId, name, exceptBranchId || 0]
+    );
+    return rows.length > 0;
+};
+
+// 1. LISTAR sucursales, incluidas las inactivas (GET /api/branches)
+router.get('/', verifyToken, requireStaff, ensureTenantAccess, async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const branches = await listBranches(tenantDbId, { onlyActive: false });
+        const [assignments] = await pool.execute<RowDataPacket[]>(
+            `SELECT sb.branch_id, s.id, s.name, s.role FROM staff_branches sb
+             JOIN staff s ON sb.staff_id = s.id
+             WHERE s.tenant_id = ?
+             ORDER BY s.name ASC`,
+            [tenantDbId]
+        );
+
+        res.status(200).json({
+            branches: branches.map(branch => ({
+                ...branch,
+                staff: assignments
+                    .filter(row => row.branch_id === branch.id)
+                    .map(row => ({ id: row.id, name: row.name, role: row.role }))
+            }))
+        });
+    } catch (error) {
+        console.error("Error al obtener las sucursales:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 2. CREAR sucursal (POST /api/branches)  { name, address, phone?, email?, weekly? }
+// Sin 'weekly', la sucursal usa el horario de la clínica.
+router.post('/', verifyToken, requireStaff, ensureTenantAccess, requirePermission('branches.manage'), async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    const { input, error } = parseBranchInput(req.body, true);
+    if (error) {
+        return res.status(400).json(error);
+    }
+    const { weekly, error: weeklyError } = req.body.weekly !== undefined ? parseWeeklyHours(req.body.weekly) : {};
+    if (weeklyError) {
+        return res.status(400).json(weeklyError);
+    }
+
+    try {
+        if (await isNameTaken(tenantDbId, input!.name!)) {
+            return res.status(409).json(apiMessage('BRANCH_NAME_TAKEN', { name: input!.name! }));
+        }
+
+        const [result] = await pool.execute<ResultSetHeader>(
+            'INSERT INTO branches (tenant_id, name, address, phone, email, is_active) VALUES (?, ?, ?, ?, ?, ?)',
+            [tenantDbId, input!.name!, input!.address!, input!.phone ?? null, input!.email ?? null, input!.isActive ?? true]
+        );
+        if (weekly) await saveBranchHours(result.insertId, weekly);
+
+        await recordAudit(req, {
+            action: 'branch.create', entityType: 'branch', entityId: result.insertId,
+            after: { ...input, ...(weekly ? { weekly } : {}) }
+        });
+
+        res.status(201).json({ ...apiMessage('BRANCH_CREATED'), id: result.insertId });
+    } catch (error) {
+        console.error("Error al crear la sucursal:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 3. ACTUALIZAR sucursal (PUT /api/branches/:branchId)  { name?, address?, phone?, email?, isActive? }
+// Las sucursales no se eliminan: se desactivan (isActive: false) y dejan de ofrecerse en la tienda.
+router.put('/:branchId', verifyToken, requireStaff, ensureTenantAccess, requirePermission('branches.manage'), async (req: BranchRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    const { input, error } = parseBranchInput(req.body, false);
+    if (error) {
+        return res.status(400).json(error);
+    }
+
+    try {
+        const branch = await findBranch(tenantDbId, req.params.branchId);
+        if (!branch) {
+            return res.status(404).json(apiMessage('BRANCH_NOT_FOUND'));
+        }
+        if (input!.name && await isNameTaken(tenantDbId, input!.name, branch.id)) {
+            return res.status(409).json(apiMessage('BRANCH_NAME_TAKEN', { name: input!.name! }));
+        }
+
+        const fields = Object.keys(input!) as (keyof BranchInput)[];
+        await pool.execute(
+            `UPDATE branches SET ${fields.map(field => `${BRANCH_COLUMNS[field]} = ?`).join(', ')} WHERE id = ? AND tenant_id = ?`,
+            [...fields.map(field => input![field] ?? null), branch.id, tenantDbId]
+        );
+
+        const before = formatBranch(branch) as Record<string, unknown>;
+        await recordAudit(req, {
+            action: 'branch.update', entityType: 'branch', entityId: branch.id,
+            before: fields.reduce((values, field) => ({ ...values, [field]: before[field] }), {}),
+            after: { ...input }
+        });
+
+        res.status(200).json({ ...apiMessage('BRANCH_UPDATED'), branch: { ...formatBranch(branch), ...input } });
+    } catch (error) {
+        console.error("Error al actualizar la sucursal:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 4. HORARIO de la sucursal (PUT /api/branches/:branchId/hours)
+// { weekly: { monday: [{ opens: '09:00', closes: '13:00' }], ... } } o { weekly: null } para volver al horario de la clínica.
+// Los días de cierre (feriados) son los de la clínica.
+router.put('/:branchId/hours', verifyToken, requireStaff, ensureTenantAccess, requirePermission('branches.manage'), async (req: BranchRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { weekly: rawWeekly } = req.body;
+
+    if (rawWeekly === undefined) {
+        return res.status(400).json(apiMessage('BRANCH_HOURS_REQUIRED'));
+    }
+    const { weekly, error: weeklyError } = rawWeekly !== null ? parseWeeklyHours(rawWeekly) : { weekly: null };
+    if (weeklyError) {
+        return res.status(400).json(weeklyError);
+    }
+
+    try {
+        const branch = await findBranch(tenantDbId, req.params.branchId);
+        if (!branch) {
+            return res.status(404).json(apiMessage('BRANCH_NOT_FOUND'));
+        }
+
+        const before = await getBranchHours(branch.id);
+        await saveBranchHours(branch.id, weekly ?? null);
+        const after = await getBranchHours(branch.id);
+
+        await recordAudit(req, {
+            action: 'branch.hours_update', entityType: 'branch', entityId: branch.id,
+            before: { weekly: before.configured ? before.weekly : null },
+            after: { weekly: after.configured ? after.weekly : null }
+        });
+
+        res.status(200).json({
+            ...apiMessage('BRANCH_HOURS_UPDATED'),
+            businessHours: after.configured ? after.weekly : null,
+            schedule: after.configured ? formatSchedule(after.weekly) : null
+        });
+    } catch (error) {
+        console.error("Error al actualizar el horario de la sucursal:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 5. STOCK de la sucursal (GET /api/branches/:branchId/stock)
+// 'tracked' indica si el producto lleva stock por sucursal (si no, se vende del stock general).
+router.get('/:branchId/stock', verifyToken, ensureTenantAccess, requirePermission('products.view'), async (req: BranchRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const branch = await findBranch(tenantDbId, req.params.branchId);
+        if (!branch) {
+            return res.status(404).json(apiMessage('BRANCH_NOT_FOUND'));
+        }
+
+        const [rows] = await pool.execute<RowDataPacket[]>(
+            `SELECT p.id, p.name, p.stock AS total_stock, bs.stock AS branch_stock,
+                    EXISTS (SELECT 1 FROM branch_stock t WHERE t.product_id = p.id) AS tracked
+             FROM products p
+             LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = ?
+             WHERE p.tenant_id = ?
+             ORDER BY p.name ASC`,
+            [branch.id, tenantDbId]
+        );
+
+        res.status(200).json({
+            branch: formatBranch(branch),
+            products: rows.map(row => ({
+                productId: row.id,
+                name: row.name,
+                tracked: Boolean(row.tracked),
+                stock: Number(row.branch_stock ?? 0),
+                totalStock: Number(row.total_stock),
+            }))
+        });
+    } catch (error) {
+        console.error("Error al obtener el stock de la sucursal:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 6. AJUSTAR el stock de la sucursal (PUT /api/branches/:branchId/stock)  { items: [{ productId, stock }] }
+// A partir del primer ajuste, el stock del producto pasa a llevarse por sucursal y
+// products.stock se recalcula como la suma de todas las sucursales.
+router.put('/:branchId/stock', verifyToken, ensureTenantAccess, requirePermission('products.write'), async (req: BranchRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { items }: { items: { productId: number; stock: number }[] } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json(apiMessage('STOCK_ITEMS_REQUIRED'));
+    }
+    if (items.some(item => !item || !Number.isInteger(item.stock) || item.stock < 0)) {
+        return res.status(400).json(apiMessage('INVALID_STOCK'));
+    }
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const branch = await findBranch(tenantDbId, req.params.branchId);
+        if (!branch) {
+            await connection.rollback();
+            return res.status(404).json(apiMessage('BRANCH_NOT_FOUND'));
+        }
+
+        const before: Record<string, unknown> = {};
+        for (const item of items) {
+            const [productRows] = await connection.execute<RowDataPacket[]>(
+                `SELECT p.id, bs.stock FROM products p
+                 LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = ?
+                 WHERE p.id = ? AND p.tenant_id = ? FOR UPDATE`,
+                [branch.id, item.productId, tenantDbId]
+            );
+            if (productRows.length === 0) {
+                await connection.rollback();
+                return res.status(404).json(apiMessage('PRODUCT_NOT_FOUND', { productId: item.productId }));
+            }
+            before[item.productId] = productRows[0].stock ?? null;
+
+            await connection.execute(
+                `INSERT INTO branch_stock (branch_id, product_id, stock) VALUES (?, ?, ?)
+                 ON DUPLICATE KEY UPDATE stock = VALUES(stock)`,
+                [branch.id, item.productId, item.stock]
+            );
+            await syncProductStock(connection, item.productId);
+        }
+
+        await connection.commit();
+
+        const after: Record<string, unknown> = {};
+        items.forEach(item => { after[item.productId] = item.stock; });
+        await recordAudit(req, { action: 'branch.stock_update', entityType: 'branch', entityId: branch.id, before, after });
+
+        res.status(200).json(apiMessage('BRANCH_STOCK_UPDATED'));
+    } catch (error) {
+        await connection.rollback();
+        console.error("Error al actualizar el stock de la sucursal:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    } finally {
+        connection.release();
+    }
+});
+
+export default router;
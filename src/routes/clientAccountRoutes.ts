@@ -0,0 +1,272 @@
+// src/routes/clientAccountRoutes.ts
+// Autogestión de la cuenta del cliente: perfil, contraseña, exportación de datos y baja.
+import { Router, Response } from 'express';
+import pool from '../db';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { AuthRequest, verifyToken, requireClient, ensureTenantAccess } from '../middleware/authMiddleware';
+import { revokeAllSessions } from '../utils/sessions';
+import { recordAudit } from '../utils/auditLog';
+import { apiMessage } from '../utils/i18n';
+import { restoreOrderStock } from '../utils/branches';
+
+const router = Router();
+
+interface ClientProfileRow extends RowDataPacket {
+    id: number;
+    name: string;
+    email: string;
+    phone: string | null;
+    address: string | null;
+    email_verified_at: Date | null;
+}
+
+// Solo el propio cliente, en su inquilino
+const guards = [verifyToken, requireClient, ensureTenantAccess];
+
+const getClientProfile = async (tenantDbId: number, clientId: number): Promise<ClientProfileRow | null> => {
+    const [rows] = await pool.execute<ClientProfileRow[]>(
+        `SELECT id, name, email, phone, address, email_verified_at
+         FROM clients WHERE id = ? AND tenant_id = ? AND deleted_at IS NULL`,
+        [clientId, tenantDbId]
+    );
+    return rows[0] ?? null;
+};
+
+// 1. VER PERFIL (GET /api/client/me)
+router.get('/', ...guards, async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const client = await getClientProfile(tenantDbId, req.user!.id);
+        if (!client) {
+            return res.status(404).json(apiMessage('CLIENT_NOT_FOUND'));
+        }
+
+        const { email_verified_at, ...profile } = client;
+        res.status(200).json({ client: { ...profile, emailVerified: email_verified_at !== null } });
+    } catch (error) {
+        console.error("Error al obtener el perfil del cliente:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 2. ACTUALIZAR PERFIL (PUT /api/client/me). El email no se cambia desde aquí.
+router.put('/', ...guards, async (req: AuthRequest, res: Response) => {
+    const { name, phone, address } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    if (!name) {
+        return res.status(400).json(apiMessage('NAME_REQUIRED'));
+    }
+
+    try {
+        const [result] = await pool.execute<ResultSetHeader>(
+            'UPDATE clients SET name = ?, phone = ?, address = ? WHERE id = ? AND tenant_id = ? AND deleted_at IS NULL',
+            [name, phone || null, address || null, req.user!.id, tenantDbId]
+        );
+
+        if (result.affectedRows === 0) {
+            return res.status(404).json(apiMessage('CLIENT_NOT_FOUND'));
+        }
+
+        res.status(200).json({
+            ...apiMessage('PROFILE_UPDATED'),
+            client: { name, phone: phone || null, address: address || null }
+        });
+    } catch (error) {
+        console.error("Error al actualizar el perfil del cliente:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 3. CAMBIAR CONTRASEÑA con la actual (PUT /api/client/me/password)
+// Cierra todas las sesiones: el cliente debe volver a iniciar sesión.
+router.put('/password', ...guards, async (req: AuthRequest, res: Response) => {
+    const { currentPassword, newPassword } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const clientId = req.user!.id;
+
+    if (!currentPassword || !newPassword) {
+        return res.status(400).json(apiMessage('PASSWORDS_REQUIRED'));
+    }
+
+    try {
+        const [rows] = await pool.execute<RowDataPacket[]>(
+            'SELECT password FROM clients WHERE id = ? AND tenant_id = ? AND deleted_at IS NULL',
+            [clientId, tenantDbId]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json(apiMessage('CLIENT_NOT_FOUND'));
+        }
+
+        const isMatch = await bcrypt.compare(currentPassword, rows[0].password);
+        if (!isMatch) {
+            return res.status(401).json(apiMessage('INCORRECT_CURRENT_PASSWORD'));
+        }
+
+        const saltRounds = process.env.SALT_ROUNDS ? parseInt(process.env.SALT_ROUNDS) : 10;
+        const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
+
+        await pool.execute(
+            'UPDATE clients SET password = ? WHERE id = ? AND tenant_id = ?',
+            [hashedPassword, clientId, tenantDbId]
+        );
+        await revokeAllSessions({ tenantDbId, userType: 'client', userId: clientId });
+
+        res.status(200).json(apiMessage('PASSWORD_CHANGED'));
+    } catch (error) {
+        console.error("Error al cambiar la contraseña del cliente:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 4. EXPORTAR MIS DATOS en JSON (GET /api/client/me/export)
+// Las mascotas no tienen tabla propia: se derivan de las citas.
+router.get('/export', ...guards, async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId, slug: tenantSlug } = req.resolvedTenant!;
+    const clientId = req.user!.id;
+
+    try {
+        const client = await getClientProfile(tenantDbId, clientId);
+        if (!client) {
+            return res.status(404).json(apiMessage('CLIENT_NOT_FOUND'));
+        }
+
+        const [orders] = await pool.execute<RowDataPacket[]>(
+            `SELECT id, total_amount, status, pickup_date, expiration_date, created_at
+             FROM orders WHERE client_id = ? AND tenant_id = ? ORDER BY created_at DESC`,
+            [clientId, tenantDbId]
+        );
+
+        const [items] = await pool.execute<RowDataPacket[]>(
+            `SELECT oi.order_id, oi.product_id, oi.quantity, oi.unit_price, p.name AS product_name
+             FROM order_items oi
+             JOIN orders o ON oi.order_id = o.id
+             LEFT JOIN products p ON oi.product_id = p.id
+             WHERE o.client_id = ? AND o.tenant_id = ?`,
+            [clientId, tenantDbId]
+        );
+
+        const [appointments] = await pool.execute<RowDataPacket[]>(
+            `SELECT id, pet_name, pet_type, service, appointment_date, appointment_time, status, notes
+             FROM appointments WHERE client_id = ? AND tenant_id = ?
+             ORDER BY appointment_date DESC, appointment_time DESC`,
+            [clientId, tenantDbId]
+        );
+
+        const pets = new Map<string, { name: string; type: string }>();
+        appointments.forEach((appointment) => {
+            pets.set(`${appointment.pet_name}|${appointment.pet_type}`, { name: appointment.pet_name, type: appointment.pet_type });
+        });
+
+        res.setHeader('Content-Disposition', `attachment; filename="mis-datos-${tenantSlug}.json"`);
+        res.status(200).json({
+            exportedAt: new Date().toISOString(),
+            tenant: tenantSlug,
+            profile: client,
+            orders: orders.map((order) => ({
+                ...order,
+                total_amount: parseFloat(order.total_amount),
+                items: items
+                    .filter((item) => item.order_id === order.id)
+                    .map(({ order_id, unit_price, ...item }) => ({ ...item, unit_price: parseFloat(unit_price) }))
+            })),
+            appointments,
+            pets: Array.from(pets.values())
+        });
+    } catch (error) {
+        console.error("Error al exportar los datos del cliente:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 5. ELIMINAR MI CUENTA (DELETE /api/client/me), confirmando con la contraseña.
+// Se anonimizan los datos personales; los pedidos y las citas se conservan para la clínica
+// (los pendientes quedan cancelados).
+router.delete('/', ...guards, async (req: AuthRequest, res: Response) => {
+    const { password } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const clientId = req.user!.id;
+
+    if (!password) {
+        return res.status(400).json(apiMessage('PASSWORD_CONFIRMATION_REQUIRED'));
+    }
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [rows] = await connection.execute<RowDataPacket[]>(
+            'SELECT password FROM clients WHERE id = ? AND tenant_id = ? AND deleted_at IS NULL FOR UPDATE',
+            [clientId, tenantDbId]
+        );
+        if (rows.length === 0) {
+            await connection.rollback();
+            return res.status(404).json(apiMessage('CLIENT_NOT_FOUND'));
+        }
+
+        const isMatch = await bcrypt.compare(password, rows[0].password);
+        if (!isMatch) {
+            await connection.rollback();
+            return res.status(401).json(apiMessage('INCORRECT_PASSWORD'));
+        }
+
+        // Contraseña aleatoria imposible de adivinar: la cuenta queda inutilizable
+        const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+
+        await connection.execute(
+            `UPDATE clients
+             SET name = 'Cliente eliminado', email = ?, password = ?, phone = NULL, address = NULL,
+                 email_verified_at = NULL, deleted_at = NOW()
+             WHERE id = ? AND tenant_id = ?`,
+            [`eliminado-${clientId}@anonimo.invalid`, unusablePassword, clientId, tenantDbId]
+        );
+
+        // Las citas pendientes se cancelan (la clínica conserva el historial); todas quedan sin notas personales
+        await connection.execute(
+            `UPDATE appointments SET status = 'cancelled'
+             WHERE client_id = ? AND tenant_id = ? AND appointment_date >= CURDATE() AND status IN ('scheduled', 'confirmed')`,
+            [clientId, tenantDbId]
+        );
+        await connection.execute(
+            'UPDATE appointments SET notes = NULL WHERE client_id = ? AND tenant_id = ?',
+            [clientId, tenantDbId]
+        );
+
+        // Los pedidos por recoger se cancelan y devuelven el stock reservado (como PUT /api/orders/:orderId/status)
+        const [pendingOrders] = await connection.execute<RowDataPacket[]>(
+            `SELECT id, branch_id FROM orders WHERE client_id = ? AND tenant_id = ? AND status = 'pending_pickup' FOR UPDATE`,
+            [clientId, tenantDbId]
+        );
+        for (const order of pendingOrders) {
+            await restoreOrderStock(connection, tenantDbId, { id: order.id, branch_id: order.branch_id });
+            await connection.execute(`UPDATE orders SET status = 'cancelled' WHERE id = ?`, [order.id]);
+        }
+
+        await connection.execute(
+            'DELETE FROM email_verification_tokens WHERE client_id = ? AND tenant_id = ?',
+            [clientId, tenantDbId]
+        );
+        await connection.execute(
+            `DELETE FROM password_reset_tokens WHERE user_type = 'client' AND user_id = ? AND tenant_id = ?`,
+            [clientId, tenantDbId]
+        );
+
+        await connection.commit();
+
+        await revokeAllSessions({ tenantDbId, userType: 'client', userId: clientId });
+        await recordAudit(req, { action: 'client.delete', entityType: 'client', entityId: clientId });
+
+        res.status(200).json(apiMessage('ACCOUNT_DELETED'));
+    } catch (error) {
+        await connection.rollback();
+        console.error("Error al eliminar la cuenta del cliente:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    } finally {
+        connection.release();
+    }
+});
+
+export default router;
@@ -1,16 +1,23 @@
 // src/routes/clientAuthRoutes.ts
-import { Router, Request, Response } from 'express';
+import { Router, Response } from 'express';
 import pool from '../db';
 import bcrypt from 'bcryptjs';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import { ParamsDictionary } from 'express-serve-static-core';
+import { signAccessToken } from '../utils/jwt';
+import { getDeviceInfo, issueRefreshToken } from '../utils/sessions';
+import { AuthRequest, resolveTenantInfo } from '../middleware/authMiddleware';
+import { requestPasswordReset, resetPasswordWithToken } from '../utils/passwordReset';
+import { getFrontendBaseUrl } from '../utils/links';
+import { sendVerificationEmail, confirmEmailWithToken } from '../utils/emailVerification';
+import { findEmailOwnerInTenant } from '../utils/emailUniqueness';
+import { LoginContext, getClientIp, getLoginBlock, respondLoginBlocked, registerFailedLogin, clearFailedLogins } from '../utils/loginThrottle';
+import { apiMessage } from '../utils/i18n';
 
 const router = Router();
 
 // --- Interfaces y Helpers ---
-interface ClientAuthRequest extends Request<ParamsDictionary> {
-    tenantId?: string; // Inyectado por resolveTenant
-}
+type ClientAuthRequest = AuthRequest<ParamsDictionary>;
 
 interface ClientRow extends RowDataPacket {
     id: number;
@@ -20,50 +27,34 @@ interface ClientRow extends RowDataPacket {
     name: string;
     phone: string;
     address: string;
+    email_verified_at: Date | null;
 }
 
-const getTenantNumericId = async (tenantSlug: string): Promise<number | null> => {
-    const [tenantRows] = await pool.execute<RowDataPacket[]>(
-        'SELECT id FROM tenants WHERE tenant_id = ?',
-        [tenantSlug]
-    );
-    return tenantRows.length > 0 ? tenantRows[0].id : null;
+const buildVerifyLink = async (req: ClientAuthRequest) => {
+    const frontendUrl = await getFrontendBaseUrl(req.resolvedTenant!);
+    return (token: string) => `${frontendUrl}/verify-email?token=${token}`;
 };
 
 // -----------------------------------------------------------------------------
 // 1. REGISTRO DE CLIENTE (POST /api/client/auth/register)
 // -----------------------------------------------------------------------------
-router.post('/register', async (req: ClientAuthRequest, res: Response) => {
+router.post('/register', resolveTenantInfo, async (req: ClientAuthRequest, res: Response) => {
     const { name, email, password, phone, address } = req.body;
-    const tenantSlug = req.tenantId;
+    const { id: tenantNumericId } = req.resolvedTenant!;
 
     if (!name || !email || !password) {
-        return res.status(400).json({ message: 'Nombre, email y contraseña son obligatorios.' });
-    }
-    if (!tenantSlug) {
-        return res.status(400).json({ message: 'Inquilino no identificado.' });
+        return res.status(400).json(apiMessage('REGISTRATION_FIELDS_REQUIRED'));
     }
 
     const connection = await pool.getConnection();
     try {
-        const tenantNumericId = await getTenantNumericId(tenantSlug);
-        if (tenantNumericId === null) {
-            return res.status(404).json({ message: `Inquilino ${tenantSlug} no encontrado.` });
-        }
-
         await connection.beginTransaction();
 
-        // Verificar que el email no exista en 'clients' O 'staff'
-        const [existingClient] = await connection.execute<RowDataPacket[]>(
-            'SELECT id FROM clients WHERE email = ?', [email]
-        );
-        const [existingStaff] = await connection.execute<RowDataPacket[]>(
-            'SELECT id FROM staff WHERE email = ?', [email]
-        );
-
-        if (existingClient.length > 0 || existingStaff.length > 0) {
+        // Verificar que el email no exista en 'clients' O 'staff' de esta clínica
+        // (el mismo email puede registrarse como cliente en otras clínicas)
+        if (await findEmailOwnerInTenant(tenantNumericId, email, connection)) {
             await connection.rollback();
-            return res.status(409).json({ message: 'El correo electrónico ya está en uso.' });
+            return res.status(409).json(apiMessage('EMAIL_IN_USE'));
         }
 
         // Hashear contraseña
@@ -78,15 +69,23 @@ router.post('/register', async (req: ClientAuthRequest, res: Response) => {
 
         await connection.commit();
 
+        // ✉️ Enviamos el enlace de verificación (la cuenta queda pendiente hasta confirmarlo)
+        try {
+            await sendVerificationEmail(tenantNumericId, { id: result.insertId, name, email }, await buildVerifyLink(req));
+        } catch (mailError) {
+            console.error("Error al enviar el email de verificación:", mailError);
+        }
+
         res.status(201).json({
-            message: 'Usuario registrado exitosamente.',
-            clientId: result.insertId
+            ...apiMessage('CLIENT_REGISTERED'),
+            clientId: result.insertId,
+            emailVerified: false
         });
 
     } catch (error) {
         await connection.rollback();
         console.error("Error en registro de cliente:", error);
-        res.status(500).json({ message: 'Error del servidor al registrar el cliente.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     } finally {
         connection.release();
     }
@@ -95,21 +94,20 @@ router.post('/register', async (req: ClientAuthRequest, res: Response) => {
 // -----------------------------------------------------------------------------
 // 2. LOGIN DE CLIENTE (POST /api/client/auth/login)
 // -----------------------------------------------------------------------------
-router.post('/login', async (req: ClientAuthRequest, res: Response) => {
+router.post('/login', resolveTenantInfo, async (req: ClientAuthRequest, res: Response) => {
     const { email, password } = req.body;
-    const tenantSlug = req.tenantId;
+    const { id: tenantNumericId, slug: tenantSlug } = req.resolvedTenant!;
 
     if (!email || !password) {
-        return res.status(400).json({ message: 'Email y contraseña son obligatorios.' });
-    }
-    if (!tenantSlug) {
-        return res.status(400).json({ message: 'Inquilino no identificado.' });
+        return res.status(400).json(apiMessage('MISSING_CREDENTIALS'));
     }
 
     try {
-        const tenantNumericId = await getTenantNumericId(tenantSlug);
-        if (tenantNumericId === null) {
-            return res.status(404).json({ message: `Inquilino ${tenantSlug} no encontrado.` });
+        // 🚦 Protección contra fuerza bruta (por cuenta y por IP)
+        const loginContext: LoginContext = { tenantDbId: tenantNumericId, userType: 'client', email, ip: getClientIp(req) };
+        const block = await getLoginBlock(loginContext);
+        if (block) {
+            return respondLoginBlocked(res, block);
         }
 
         // Buscar al cliente por email Y tenant_id
@@ -119,7 +117,8 @@ router.post('/login', async (req: ClientAuthRequest, res: Response) => {
         );
 
         if (rows.length === 0) {
-            return res.status(401).json({ message: 'Credenciales inválidas.' });
+            await registerFailedLogin(loginContext);
+            return res.status(401).json(apiMessage('INVALID_CREDENTIALS'));
         }
 
         const client = rows[0];
@@ -127,28 +126,135 @@ router.post('/login', async (req: ClientAuthRequest, res: Response) => {
         // Comparar contraseña
         const isMatch = await bcrypt.compare(password, client.password);
         if (!isMatch) {
-            return res.status(401).json({ message: 'Credenciales inválidas.' });
+            await registerFailedLogin(loginContext);
+            return res.status(401).json(apiMessage('INVALID_CREDENTIALS'));
         }
+        await clearFailedLogins(loginContext);
 
-        // --- Generar Token de Simulación (igual que en admin) ---
-        // En un futuro, aquí generarías un JWT real.
-        // Formato: "tenant_slug:role:client_id"
-        const token = `${tenantSlug}:client:${client.id}`;
+        // --- Generar JWT firmado (igual que en admin) ---
+        const token = signAccessToken({ id: client.id, tenant_id: tenantSlug, role: 'client' });
+        // Refresh token rotativo (se renueva en POST /api/auth/refresh)
+        const refreshToken = await issueRefreshToken(
+            { tenantDbId: tenantNumericId, userType: 'client', userId: client.id },
+            getDeviceInfo(req)
+        );
 
         res.status(200).json({
-            message: 'Inicio de sesión exitoso.',
+            ...apiMessage('LOGIN_SUCCESS'),
             token,
+            refreshToken,
             user: {
                 id: client.id,
                 name: client.name,
                 email: client.email,
-                role: 'client' // Rol fijo
+                role: 'client', // Rol fijo
+                emailVerified: client.email_verified_at !== null
             }
         });
 
     } catch (error) {
         console.error("Error en login de cliente:", error);
-        res.status(500).json({ message: 'Error del servidor al iniciar sesión.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// -----------------------------------------------------------------------------
+// 3. VERIFICAR EMAIL (POST /api/client/auth/verify-email)
+// -----------------------------------------------------------------------------
+router.post('/verify-email', resolveTenantInfo, async (req: ClientAuthRequest, res: Response) => {
+    const { token } = req.body;
+    const { id: tenantNumericId } = req.resolvedTenant!;
+
+    if (!token) {
+        return res.status(400).json(apiMessage('VERIFICATION_TOKEN_REQUIRED'));
+    }
+
+    try {
+        const verified = await confirmEmailWithToken(tenantNumericId, token);
+        if (!verified) {
+            return res.status(400).json(apiMessage('VERIFICATION_LINK_INVALID'));
+        }
+        res.status(200).json(apiMessage('EMAIL_VERIFIED'));
+    } catch (error) {
+        console.error("Error al verificar email de cliente:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// -----------------------------------------------------------------------------
+// 4. REENVIAR VERIFICACIÓN (POST /api/client/auth/resend-verification)
+// -----------------------------------------------------------------------------
+router.post('/resend-verification', resolveTenantInfo, async (req: ClientAuthRequest, res: Response) => {
+    const { email } = req.body;
+    const { id: tenantNumericId } = req.resolvedTenant!;
+
+    if (!email) {
+        return res.status(400).json(apiMessage('EMAIL_REQUIRED'));
+    }
+
+    try {
+        const [rows] = await pool.execute<ClientRow[]>(
+            'SELECT id, name, email, email_verified_at FROM clients WHERE email = ? AND tenant_id = ?',
+            [email, tenantNumericId]
+        );
+
+        // Solo reenviamos si la cuenta existe y sigue pendiente
+        if (rows.length > 0 && rows[0].email_verified_at === null) {
+            await sendVerificationEmail(tenantNumericId, rows[0], await buildVerifyLink(req));
+        }
+
+        // Respuesta genérica: no revelamos si el email está registrado
+        res.status(200).json(apiMessage('VERIFICATION_RESENT'));
+    } catch (error) {
+        console.error("Error al reenviar verificación:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// -----------------------------------------------------------------------------
+// 5. OLVIDÉ MI CONTRASEÑA (POST /api/client/auth/forgot-password)
+// -----------------------------------------------------------------------------
+router.post('/forgot-password', resolveTenantInfo, async (req: ClientAuthRequest, res: Response) => {
+    const { email } = req.body;
+    const { id: tenantNumericId } = req.resolvedTenant!;
+
+    if (!email) {
+        return res.status(400).json(apiMessage('EMAIL_REQUIRED'));
+    }
+
+    try {
+        const frontendUrl = await getFrontendBaseUrl(req.resolvedTenant!);
+        await requestPasswordReset(tenantNumericId, 'client', email,
+            (token) => `${frontendUrl}/reset-password?token=${token}`);
+
+        // Respuesta genérica: no revelamos si el email está registrado
+        res.status(200).json(apiMessage('PASSWORD_RESET_REQUESTED'));
+    } catch (error) {
+        console.error("Error al solicitar restablecimiento de contraseña:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// -----------------------------------------------------------------------------
+// 6. RESTABLECER CONTRASEÑA (POST /api/client/auth/reset-password)
+// -----------------------------------------------------------------------------
+router.post('/reset-password', resolveTenantInfo, async (req: ClientAuthRequest, res: Response) => {
+    const { token, password } = req.body;
+    const { id: tenantNumericId } = req.resolvedTenant!;
+
+    if (!token || !password) {
+        return res.status(400).json(apiMessage('TOKEN_AND_PASSWORD_REQUIRED'));
+    }
+
+    try {
+        const wasReset = await resetPasswordWithToken(tenantNumericId, 'client', token, password);
+        if (!wasReset) {
+            return res.status(400).json(apiMessage('PASSWORD_RESET_LINK_INVALID'));
+        }
+        res.status(200).json(apiMessage('PASSWORD_RESET'));
+    } catch (error) {
+        console.error("Error al restablecer contraseña de cliente:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
@@ -2,10 +2,32 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import pool from '../db';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import multer from 'multer';
+import { TenantStatus, getTenantInfoBySlug } from '../middleware/authMiddleware';
+import {
+    PLATFORM_DOMAIN_BASE, normalizeDomain, isPlatformDomain, getVerificationInstructions,
+    listTenantDomains, findTenantDomain, attachTenantDomain, verifyTenantDomain, detachTenantDomain
+} from '../utils/tenantDomains';
+import { TENANT_STATUSES, changeTenantStatus, purgeClosedTenants } from '../utils/tenantLifecycle';
+import { invalidateTenant, invalidateDomain } from '../utils/tenantCache';
+import { buildTenantArchive } from '../utils/tenantExport';
+import { TENANT_SLUG_REGEX, parseTenantArchive, importTenantArchive } from '../utils/tenantImport';
+import { recordOperatorAction } from '../utils/operatorLog';
+import { revokeAllSessions } from '../utils/sessions';
+import { NEW_TENANT_DEFAULTS } from '../utils/tenantSettings';
+import { PLAN_RESOURCES, PLAN_LIMIT_COLUMNS, PlanResource, toPlanLimits, parsePlanLimits, getTenantUsage } from '../utils/planLimits';
+import { apiMessage } from '../utils/i18n';
 
 const router = Router();
 
+// Los respaldos se procesan en memoria (no se guardan en /uploads)
+const archiveUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: (process.env.TENANT_IMPORT_MAX_MB ? parseInt(process.env.TENANT_IMPORT_MAX_MB) : 100) * 1024 * 1024 }
+});
+
 // Interfaces para mayor claridad
 interface RegisterTenantRequest extends Request {
     body: {
@@ -23,11 +45,11 @@ const authenticateExternalApi = (req: Request, res: Response, next: NextFunction
 
     if (!expectedToken) {
         console.error("Error: EXTERNAL_API_TOKEN no está configurado en .env");
-        return res.status(500).json({ message: 'Error de configuración del servidor.' });
+        return res.status(500).json(apiMessage('SERVER_MISCONFIGURED'));
     }
 
     if (externalToken !== expectedToken) {
-        return res.status(401).json({ message: 'Token de autenticación inválido o faltante.' });
+        return res.status(401).json(apiMessage('INVALID_TOKEN'));
     }
 
     next();
@@ -40,10 +62,9 @@ router.post('/register-tenant', authenticateExternalApi, async (req: RegisterTen
 
     // 1. Validación de campos obligatorios
     if (!tenant_id || !name || !email || !password) {
-        return res.status(400).json({ message: 'Faltan campos obligatorios: tenant_id, name, email, password.' });
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'tenant_id, name, email, password' }));
     }
 
-    const PROD_DOMAIN_BASE = 'veterinaria.techinnovats.com';
     const LOCAL_DOMAIN_HOST = 'localhost:5173';
 
     const connection = await pool.getConnection();
@@ -57,37 +78,25 @@ router.post('/register-tenant', authenticateExternalApi, async (req: RegisterTen
         );
         if (existingTenant.length > 0) {
             await connection.rollback();
-            return res.status(409).json({ message: `El ID de inquilino '${tenant_id}' ya está en uso.` });
+            return res.status(409).json(apiMessage('TENANT_SLUG_TAKEN', { slug: tenant_id }));
         }
 
-        // 3. Verificar si el email ya existe en la tabla `staff` o `clients`
-        const [existingStaff] = await connection.execute<RowDataPacket[]>(
-            'SELECT id FROM staff WHERE email = ?',
-            [email]
-        );
-        const [existingClient] = await connection.execute<RowDataPacket[]>(
-            'SELECT id FROM clients WHERE email = ?',
-            [email]
-        );
-
-        if (existingStaff.length > 0 || existingClient.length > 0) {
-            await connection.rollback();
-            return res.status(409).json({ message: `El email de usuario '${email}' ya está registrado.` });
-        }
+        // 3. El email del administrador no se valida contra otras clínicas:
+        // la unicidad es por inquilino y este inquilino es nuevo (ver utils/emailUniqueness).
 
         // 4. Cifrar la contraseña
         const saltRounds = process.env.SALT_ROUNDS ? parseInt(process.env.SALT_ROUNDS) : 10;
         const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-        // 5. Datos por defecto / aleatorios
+        // 5. Datos por defecto (ver utils/tenantSettings)
         const defaultLogoUrl = process.env.DEFAULT_LOGO_URL || '/uploads/icono.png';
         const defaultData = {
-            phone: 'N/A',
-            address: 'Dirección por definir',
-            schedule: 'Lun-Vie: 9am - 5pm',
+            phone: NEW_TENANT_DEFAULTS.phone,
+            address: NEW_TENANT_DEFAULTS.address,
+            schedule: NEW_TENANT_DEFAULTS.schedule,
             logo_url: defaultLogoUrl,
-            primary_color: '#007bff',
-            secondary_color: '#6c757d',
+            primary_color: NEW_TENANT_DEFAULTS.primaryColor,
+            secondary_color: NEW_TENANT_DEFAULTS.secondaryColor,
         };
 
         // 6. Insertar el nuevo inquilino
@@ -124,11 +133,17 @@ router.post('/register-tenant', authenticateExternalApi, async (req: RegisterTen
 
         // 8. Commit de la transacción
         await connection.commit();
-        const productionUrl = `${tenant_id}.${PROD_DOMAIN_BASE}`;
+        // Un intento previo con este slug pudo dejar cacheado un "no encontrado"
+        invalidateTenant(tenant_id);
+        await recordOperatorAction(req, {
+            action: 'tenant.register', tenant: { id: tenantId, slug: tenant_id },
+            entityType: 'tenant', entityId: tenantId, after: { name, email }
+        });
+        const productionUrl = `${tenant_id}.${PLATFORM_DOMAIN_BASE}`;
         const localUrl = `http://${tenant_id}.${LOCAL_DOMAIN_HOST}/`;
 
         res.status(201).json({
-            message: 'Empresa y usuario administrador creados exitosamente!',
+            ...apiMessage('TENANT_REGISTERED'),
             tenant: {
                 id: tenantId,
                 tenant_id: tenant_id,
@@ -152,10 +167,733 @@ router.post('/register-tenant', authenticateExternalApi, async (req: RegisterTen
     } catch (error) {
         await connection.rollback();
         console.error("Error al registrar el inquilino/usuario:", error);
-        res.status(500).json({ message: 'Error interno del servidor al completar el registro.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     } finally {
         connection.release();
     }
 });
 
+// =================================================================
+// 🌐 DOMINIOS PROPIOS DE LOS INQUILINOS
+// =================================================================
+
+const formatDomain = (row: { domain: string; verification_token: string; verified_at: Date | null; created_at: Date }) => ({
+    domain: row.domain,
+    verified: row.verified_at !== null,
+    verifiedAt: row.verified_at,
+    createdAt: row.created_at,
+    verification: row.verified_at ? undefined : getVerificationInstructions(row),
+});
+
+// 🎯 RUTA GET para listar los dominios de un inquilino
+// Endpoint: GET /api/external/tenants/:tenantSlug/domains
+router.get('/tenants/:tenantSlug/domains', authenticateExternalApi, async (req: Request<{ tenantSlug: string }>, res: Response) => {
+    try {
+        const tenant = await getTenantInfoBySlug(req.params.tenantSlug);
+        if (!tenant) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: req.params.tenantSlug }));
+        }
+
+        const domains = await listTenantDomains(tenant.id);
+        res.status(200).json({ tenant: tenant.slug, domains: domains.map(formatDomain) });
+    } catch (error) {
+        console.error("Error al listar los dominios del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA POST para asociar un dominio propio (queda pendiente hasta verificarlo por DNS)
+// Endpoint: POST /api/external/tenants/:tenantSlug/domains  { domain: 'vetchavez.pe' }
+router.post('/tenants/:tenantSlug/domains', authenticateExternalApi, async (req: Request<{ tenantSlug: string }>, res: Response) => {
+    const domain = normalizeDomain(req.body.domain);
+
+    if (!domain) {
+        return res.status(400).json(apiMessage('INVALID_DOMAIN'));
+    }
+    if (isPlatformDomain(domain)) {
+        return res.status(400).json(apiMessage('PLATFORM_SUBDOMAIN_RESERVED', { base: PLATFORM_DOMAIN_BASE }));
+    }
+
+    try {
+        const tenant = await getTenantInfoBySlug(req.params.tenantSlug);
+        if (!tenant) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: req.params.tenantSlug }));
+        }
+
+        const row = await attachTenantDomain(tenant.id, domain);
+        if (!row) {
+            return res.status(409).json(apiMessage('DOMAIN_IN_USE', { domain }));
+        }
+
+        await recordOperatorAction(req, { action: 'tenant.domain_attach', tenant, entityType: 'tenant_domain', entityId: domain });
+
+        res.status(201).json({
+            ...apiMessage(row.verified_at ? 'DOMAIN_ALREADY_LINKED' : 'DOMAIN_ATTACHED'),
+            domain: formatDomain(row)
+        });
+    } catch (error) {
+        console.error("Error al asociar el dominio:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA POST para verificar un dominio (consulta el registro TXT)
+// Endpoint: POST /api/external/tenants/:tenantSlug/domains/:domain/verify
+router.post('/tenants/:tenantSlug/domains/:domain/verify', authenticateExternalApi, async (req: Request<{ tenantSlug: string; domain: string }>, res: Response) => {
+    const domain = normalizeDomain(req.params.domain);
+    if (!domain) {
+        return res.status(400).json(apiMessage('INVALID_DOMAIN'));
+    }
+
+    try {
+        const tenant = await getTenantInfoBySlug(req.params.tenantSlug);
+        const row = tenant ? await findTenantDomain(tenant.id, domain) : null;
+        if (!row) {
+            return res.status(404).json(apiMessage('DOMAIN_NOT_LINKED', { domain }));
+        }
+        if (row.verified_at) {
+            return res.status(200).json({ ...apiMessage('DOMAIN_ALREADY_VERIFIED'), domain: formatDomain(row) });
+        }
+
+        const verified = await verifyTenantDomain(row);
+        if (!verified) {
+            return res.status(422).json({
+                ...apiMessage('DOMAIN_TXT_NOT_FOUND'),
+                verification: getVerificationInstructions(row)
+            });
+        }
+        invalidateDomain(domain);
+        await recordOperatorAction(req, { action: 'tenant.domain_verify', tenant, entityType: 'tenant_domain', entityId: domain });
+
+        res.status(200).json({
+            ...apiMessage('DOMAIN_VERIFIED', { domain }),
+            domain: formatDomain({ ...row, verified_at: new Date() })
+        });
+    } catch (error) {
+        console.error("Error al verificar el dominio:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA DELETE para desasociar un dominio
+// Endpoint: DELETE /api/external/tenants/:tenantSlug/domains/:domain
+router.delete('/tenants/:tenantSlug/domains/:domain', authenticateExternalApi, async (req: Request<{ tenantSlug: string; domain: string }>, res: Response) => {
+    const domain = normalizeDomain(req.params.domain);
+    if (!domain) {
+        return res.status(400).json(apiMessage('INVALID_DOMAIN'));
+    }
+
+    try {
+        const tenant = await getTenantInfoBySlug(req.params.tenantSlug);
+        if (!tenant || !(await detachTenantDomain(tenant.id, domain))) {
+            return res.status(404).json(apiMessage('DOMAIN_NOT_LINKED', { domain }));
+        }
+        invalidateDomain(domain);
+        await recordOperatorAction(req, { action: 'tenant.domain_detach', tenant, entityType: 'tenant_domain', entityId: domain });
+        res.status(200).json(apiMessage('DOMAIN_REMOVED', { domain }));
+    } catch (error) {
+        console.error("Error al desasociar el dominio:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// =================================================================
+// 🔄 CICLO DE VIDA DE LOS INQUILINOS
+// =================================================================
+
+// 🎯 RUTA PUT para cambiar el estado de un inquilino (activar, suspender o cerrar)
+// Endpoint: PUT /api/external/tenants/:tenantSlug/status  { status, reason? }
+router.put('/tenants/:tenantSlug/status', authenticateExternalApi, async (req: Request<{ tenantSlug: string }>, res: Response) => {
+    const { status, reason } = req.body as { status: TenantStatus; reason?: string };
+
+    if (!TENANT_STATUSES.includes(status)) {
+        return res.status(400).json(apiMessage('INVALID_STATUS', { allowed: TENANT_STATUSES.join(', ') }));
+    }
+
+    try {
+        const tenant = await getTenantInfoBySlug(req.params.tenantSlug);
+        if (!tenant) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: req.params.tenantSlug }));
+        }
+        if (tenant.status === status) {
+            return res.status(200).json({ ...apiMessage('TENANT_STATUS_UNCHANGED', { status }), tenant: tenant.slug, status });
+        }
+
+        const { purgeAfter, sessionsRevoked } = await changeTenantStatus(tenant.id, status, reason || null);
+        invalidateTenant(tenant.slug);
+        await recordOperatorAction(req, {
+            action: 'tenant.status_change', tenant, entityType: 'tenant', entityId: tenant.id,
+            before: { status: tenant.status }, after: { status, reason: reason || null }
+        });
+
+        res.status(200).json({
+            ...(status === 'closed'
+                ? apiMessage('TENANT_CLOSED_PENDING_PURGE', { purgeAfter: purgeAfter!.toISOString() })
+                : apiMessage('TENANT_STATUS_UPDATED', { status })),
+            tenant: tenant.slug,
+            previousStatus: tenant.status,
+            status,
+            purgeAfter,
+            sessionsRevoked
+        });
+    } catch (error) {
+        console.error("Error al cambiar el estado del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA POST para ejecutar la purga de clínicas cerradas ya vencidas (también corre periódicamente)
+// Endpoint: POST /api/external/maintenance/purge-closed-tenants
+router.post('/maintenance/purge-closed-tenants', authenticateExternalApi, async (req: Request, res: Response) => {
+    try {
+        const purged = await purgeClosedTenants();
+        await recordOperatorAction(req, { action: 'maintenance.purge_closed_tenants', after: { purged } });
+        res.status(200).json({ ...apiMessage('TENANTS_PURGED', { count: purged.length }), purged });
+    } catch (error) {
+        console.error("Error al purgar clínicas cerradas:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// =================================================================
+// 💳 PLANES DE SUSCRIPCIÓN
+// =================================================================
+
+const formatPlan = (row: RowDataPacket) => ({
+    code: row.code,
+    name: row.name,
+    limits: toPlanLimits(row),
+    tenants: row.tenants !== undefined ? Number(row.tenants) : undefined,
+});
+
+// 🎯 RUTA GET para listar los planes (con la cantidad de clínicas asignadas)
+// Endpoint: GET /api/external/plans
+router.get('/plans', authenticateExternalApi, async (req: Request, res: Response) => {
+    try {
+        const [plans] = await pool.execute<RowDataPacket[]>(
+            `SELECT p.*, COUNT(t.id) AS tenants
+             FROM plans p
+             LEFT JOIN tenants t ON t.plan_id = p.id
+             GROUP BY p.id
+             ORDER BY p.id ASC`
+        );
+        res.status(200).json({ plans: plans.map(formatPlan), resources: PLAN_RESOURCES });
+    } catch (error) {
+        console.error("Error al listar los planes:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA POST para crear un plan. Los recursos omitidos quedan sin límite.
+// Endpoint: POST /api/external/plans  { code, name, limits: { staff, products, services, monthly_appointments, storage_mb } }
+router.post('/plans', authenticateExternalApi, async (req: Request, res: Response) => {
+    const { code, name, limits: rawLimits } = req.body;
+
+    if (!code || !name) {
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'code, name' }));
+    }
+    const { limits, error } = parsePlanLimits(rawLimits ?? {});
+    if (error) {
+        return res.status(400).json(error);
+    }
+
+    try {
+        const [existing] = await pool.execute<RowDataPacket[]>('SELECT id FROM plans WHERE code = ?', [code]);
+        if (existing.length > 0) {
+            return res.status(409).json(apiMessage('PLAN_EXISTS', { code }));
+        }
+
+        const columns = PLAN_RESOURCES.map(resource => PLAN_LIMIT_COLUMNS[resource]);
+        await pool.execute<ResultSetHeader>(
+            `INSERT INTO plans (code, name, ${columns.join(', ')}) VALUES (?, ?, ${columns.map(() => '?').join(', ')})`,
+            [code, name, ...PLAN_RESOURCES.map(resource => limits![resource] ?? null)]
+        );
+
+        const [rows] = await pool.execute<RowDataPacket[]>('SELECT * FROM plans WHERE code = ?', [code]);
+        await recordOperatorAction(req, { action: 'plan.create', entityType: 'plan', entityId: code, after: { name, ...limits } });
+        res.status(201).json({ ...apiMessage('PLAN_CREATED'), plan: formatPlan(rows[0]) });
+    } catch (error) {
+        console.error("Error al crear el plan:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA PUT para modificar el nombre o los límites de un plan (solo los recursos enviados)
+// Endpoint: PUT /api/external/plans/:planCode  { name?, limits? }
+router.put('/plans/:planCode', authenticateExternalApi, async (req: Request<{ planCode: string }>, res: Response) => {
+    const { name, limits: rawLimits } = req.body;
+
+    const { limits, error } = parsePlanLimits(rawLimits ?? {});
+    if (error) {
+        return res.status(400).json(error);
+    }
+
+    const updates: string[] = [];
+    const params: (string | number | null)[] = [];
+    if (name) {
+        updates.push('name = ?');
+        params.push(name);
+    }
+    for (const [resource, limit] of Object.entries(limits!)) {
+        updates.push(`${PLAN_LIMIT_COLUMNS[resource as PlanResource]} = ?`);
+        params.push(limit);
+    }
+    if (updates.length === 0) {
+        return res.status(400).json(apiMessage('NO_FIELDS_TO_UPDATE'));
+    }
+
+    try {
+        const [previousRows] = await pool.execute<RowDataPacket[]>('SELECT * FROM plans WHERE code = ?', [req.params.planCode]);
+        if (previousRows.length === 0) {
+            return res.status(404).json(apiMessage('PLAN_NOT_FOUND', { code: req.params.planCode }));
+        }
+
+        await pool.execute<ResultSetHeader>(
+            `UPDATE plans SET ${updates.join(', ')} WHERE code = ?`,
+            [...params, req.params.planCode]
+        );
+
+        const [rows] = await pool.execute<RowDataPacket[]>('SELECT * FROM plans WHERE code = ?', [req.params.planCode]);
+        await recordOperatorAction(req, {
+            action: 'plan.update', entityType: 'plan', entityId: req.params.planCode,
+            before: { name: previousRows[0].name, ...toPlanLimits(previousRows[0]) },
+            after: { name: rows[0].name, ...toPlanLimits(rows[0]) }
+        });
+        res.status(200).json({ ...apiMessage('PLAN_UPDATED'), plan: formatPlan(rows[0]) });
+    } catch (error) {
+        console.error("Error al actualizar el plan:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA PUT para asignar un plan a un inquilino (planCode null = sin límites)
+// Endpoint: PUT /api/external/tenants/:tenantSlug/plan  { planCode }
+// Bajar de plan no borra nada: solo impide crear más elementos por encima del nuevo límite.
+router.put('/tenants/:tenantSlug/plan', authenticateExternalApi, async (req: Request<{ tenantSlug: string }>, res: Response) => {
+    const { planCode } = req.body;
+
+    if (planCode === undefined) {
+        return res.status(400).json(apiMessage('PLAN_CODE_REQUIRED'));
+    }
+
+    try {
+        const tenant = await getTenantInfoBySlug(req.params.tenantSlug);
+        if (!tenant) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: req.params.tenantSlug }));
+        }
+
+        let planId: number | null = null;
+        if (planCode !== null) {
+            const [plans] = await pool.execute<RowDataPacket[]>('SELECT id FROM plans WHERE code = ?', [planCode]);
+            if (plans.length === 0) {
+                return res.status(404).json(apiMessage('PLAN_NOT_FOUND', { code: planCode }));
+            }
+            planId = plans[0].id;
+        }
+
+        const [previousRows] = await pool.execute<RowDataPacket[]>(
+            'SELECT p.code FROM tenants t LEFT JOIN plans p ON t.plan_id = p.id WHERE t.id = ?',
+            [tenant.id]
+        );
+        await pool.execute('UPDATE tenants SET plan_id = ? WHERE id = ?', [planId, tenant.id]);
+        await recordOperatorAction(req, {
+            action: 'tenant.plan_change', tenant, entityType: 'tenant', entityId: tenant.id,
+            before: { plan: previousRows[0]?.code ?? null }, after: { plan: planCode }
+        });
+
+        res.status(200).json({
+            ...(planId ? apiMessage('PLAN_ASSIGNED', { plan: planCode, slug: tenant.slug }) : apiMessage('PLAN_REMOVED', { slug: tenant.slug })),
+            ...(await getTenantUsage(tenant.id))
+        });
+    } catch (error) {
+        console.error("Error al asignar el plan:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA GET para consultar el uso de un inquilino frente a su plan
+// Endpoint: GET /api/external/tenants/:tenantSlug/usage
+router.get('/tenants/:tenantSlug/usage', authenticateExternalApi, async (req: Request<{ tenantSlug: string }>, res: Response) => {
+    try {
+        const tenant = await getTenantInfoBySlug(req.params.tenantSlug);
+        if (!tenant) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: req.params.tenantSlug }));
+        }
+
+        res.status(200).json({ tenant: tenant.slug, ...(await getTenantUsage(tenant.id)) });
+    } catch (error) {
+        console.error("Error al obtener el uso del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// =================================================================
+// 📦 RESPALDOS: EXPORTAR E IMPORTAR CLÍNICAS COMPLETAS
+// =================================================================
+
+// 🎯 RUTA GET para descargar el respaldo completo de un inquilino (.json.gz con imágenes)
+// Endpoint: GET /api/external/tenants/:tenantSlug/archive?includePasswordHashes=true
+router.get('/tenants/:tenantSlug/archive', authenticateExternalApi, async (req: Request<{ tenantSlug: string }>, res: Response) => {
+    const includePasswordHashes = req.query.includePasswordHashes === 'true';
+
+    try {
+        const tenant = await getTenantInfoBySlug(req.params.tenantSlug);
+        if (!tenant) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: req.params.tenantSlug }));
+        }
+
+        const archive = await buildTenantArchive(tenant.id, includePasswordHashes);
+        await recordOperatorAction(req, {
+            action: 'tenant.export_archive', tenant, entityType: 'tenant', entityId: tenant.id,
+            after: { includePasswordHashes }
+        });
+
+        res.setHeader('Content-Type', 'application/gzip');
+        res.setHeader('Content-Disposition', `attachment; filename="${tenant.slug}-respaldo.json.gz"`);
+        res.status(200).send(archive);
+    } catch (error) {
+        console.error("Error al generar el respaldo del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA POST para importar un respaldo como una clínica nueva (todos los IDs se reasignan)
+// Endpoint: POST /api/external/tenants/import  (multipart: archive=<archivo .json.gz>, newSlug)
+router.post('/tenants/import', authenticateExternalApi, archiveUpload.single('archive'), async (req: Request, res: Response) => {
+    const { newSlug } = req.body;
+
+    if (!req.file || !newSlug) {
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'archive, newSlug' }));
+    }
+    if (!TENANT_SLUG_REGEX.test(newSlug)) {
+        return res.status(400).json(apiMessage('INVALID_SLUG'));
+    }
+
+    const { archive, error } = await parseTenantArchive(req.file.buffer);
+    if (error) {
+        return res.status(400).json(error);
+    }
+
+    try {
+        const [existingTenant] = await pool.execute<RowDataPacket[]>('SELECT id FROM tenants WHERE tenant_id = ?', [newSlug]);
+        if (existingTenant.length > 0) {
+            return res.status(409).json(apiMessage('TENANT_SLUG_TAKEN', { slug: newSlug }));
+        }
+
+        const result = await importTenantArchive(archive!, newSlug);
+        await recordOperatorAction(req, {
+            action: 'tenant.import', tenant: { id: result.tenantDbId, slug: result.slug },
+            entityType: 'tenant', entityId: result.tenantDbId,
+            after: { sourceTenant: archive!.sourceTenant, exportedAt: archive!.exportedAt, ...result.counts }
+        });
+
+        res.status(201).json({
+            ...apiMessage('TENANT_IMPORTED', { source: archive!.sourceTenant, slug: newSlug }),
+            tenant: { id: result.tenantDbId, tenantId: result.slug },
+            imported: result.counts,
+            // Sin hashes en el respaldo, el personal debe recibir una nueva invitación
+            pendingStaffInvitations: result.invitedStaff,
+            access: {
+                productionUrl: `${newSlug}.${PLATFORM_DOMAIN_BASE}`,
+                localUrl: `http://${newSlug}.localhost:5173/`
+            }
+        });
+    } catch (error) {
+        console.error("Error al importar el respaldo del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// =================================================================
+// 🛠️ ADMINISTRACIÓN DE INQUILINOS (OPERADORES DE LA PLATAFORMA)
+// =================================================================
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const TENANT_CONTACT_FIELDS = ['name', 'phone', 'email', 'address'] as const;
+
+// Conteos por inquilino (los clientes dados de baja no cuentan)
+const TENANT_COUNTS_SQL = `
+    (SELECT COUNT(*) FROM staff s WHERE s.tenant_id = t.id) AS staff_count,
+    (SELECT COUNT(*) FROM clients c WHERE c.tenant_id = t.id AND c.deleted_at IS NULL) AS client_count,
+    (SELECT COUNT(*) FROM products pr WHERE pr.tenant_id = t.id) AS product_count,
+    (SELECT COUNT(*) FROM orders o WHERE o.tenant_id = t.id) AS order_count`;
+
+const formatTenantCounts = (row: RowDataPacket) => ({
+    staff: Number(row.staff_count),
+    clients: Number(row.client_count),
+    products: Number(row.product_count),
+    orders: Number(row.order_count),
+});
+
+// 🎯 RUTA GET para listar inquilinos con conteos (paginado)
+// Endpoint: GET /api/external/tenants?search=&status=&plan=&page=&limit=
+router.get('/tenants', authenticateExternalApi, async (req: Request, res: Response) => {
+    const { search, status, plan } = req.query;
+
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    let where = 'WHERE 1 = 1';
+    const params: string[] = [];
+
+    if (search) {
+        where += ' AND (t.tenant_id LIKE ? OR t.name LIKE ? OR t.email LIKE ?)';
+        params.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    }
+    if (status) {
+        if (!TENANT_STATUSES.includes(status as TenantStatus)) {
+            return res.status(400).json(apiMessage('INVALID_STATUS', { allowed: TENANT_STATUSES.join(', ') }));
+        }
+        where += ' AND t.status = ?';
+        params.push(status as string);
+    }
+    if (plan) {
+        where += ' AND p.code = ?';
+        params.push(plan as string);
+    }
+
+    try {
+        const [countRows] = await pool.execute<RowDataPacket[]>(
+            `SELECT COUNT(*) AS total FROM tenants t LEFT JOIN plans p ON t.plan_id = p.id ${where}`,
+            params
+        );
+
+        // LIMIT/OFFSET ya validados como enteros (mysql2 no acepta placeholders ahí con execute)
+        const [rows] = await pool.execute<RowDataPacket[]>(
+            `SELECT t.id, t.tenant_id, t.name, t.email, t.phone, t.status, p.code AS plan_code, ${TENANT_COUNTS_SQL}
+             FROM tenants t
+             LEFT JOIN plans p ON t.plan_id = p.id
+             ${where}
+             ORDER BY t.id DESC
+             LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+            params
+        );
+
+        res.status(200).json({
+            tenants: rows.map(row => ({
+                id: row.id,
+                tenantId: row.tenant_id,
+                name: row.name,
+                email: row.email,
+                phone: row.phone,
+                status: row.status,
+                plan: row.plan_code,
+                counts: formatTenantCounts(row),
+            })),
+            pagination: { page, limit, total: Number(countRows[0].total) }
+        });
+    } catch (error) {
+        console.error("Error al listar los inquilinos:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA GET para el detalle de un inquilino (contacto, estado, plan, administradores y dominios)
+// Endpoint: GET /api/external/tenants/:tenantSlug
+router.get('/tenants/:tenantSlug', authenticateExternalApi, async (req: Request<{ tenantSlug: string }>, res: Response) => {
+    try {
+        const [rows] = await pool.execute<RowDataPacket[]>(
+            `SELECT t.id, t.tenant_id, t.name, t.email, t.phone, t.address, t.status, t.status_reason,
+                    t.status_changed_at, t.purge_after, t.require_admin_2fa, ${TENANT_COUNTS_SQL}
+             FROM tenants t
+             WHERE t.tenant_id = ?`,
+            [req.params.tenantSlug]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: req.params.tenantSlug }));
+        }
+        const tenant = rows[0];
+
+        const [admins] = await pool.execute<RowDataPacket[]>(
+            `SELECT id, name, email, status, totp_enabled FROM staff WHERE tenant_id = ? AND role = 'admin' ORDER BY id ASC`,
+            [tenant.id]
+        );
+        const domains = await listTenantDomains(tenant.id);
+
+        res.status(200).json({
+            tenant: {
+                id: tenant.id,
+                tenantId: tenant.tenant_id,
+                name: tenant.name,
+                email: tenant.email,
+                phone: tenant.phone,
+                address: tenant.address,
+                status: tenant.status,
+                statusReason: tenant.status_reason,
+                statusChangedAt: tenant.status_changed_at,
+                purgeAfter: tenant.purge_after,
+                requireAdmin2fa: Boolean(tenant.require_admin_2fa),
+                counts: formatTenantCounts(tenant),
+            },
+            admins: admins.map(admin => ({
+                id: admin.id,
+                name: admin.name,
+                email: admin.email,
+                status: admin.status,
+                twoFactorEnabled: Boolean(admin.totp_enabled),
+            })),
+            domains: domains.map(formatDomain),
+            ...(await getTenantUsage(tenant.id))
+        });
+    } catch (error) {
+        console.error("Error al obtener el detalle del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA PUT para actualizar los datos de contacto de un inquilino (solo los campos enviados)
+// Endpoint: PUT /api/external/tenants/:tenantSlug  { name?, phone?, email?, address? }
+// El plan se cambia con PUT /tenants/:tenantSlug/plan y el estado con PUT /tenants/:tenantSlug/status.
+router.put('/tenants/:tenantSlug', authenticateExternalApi, async (req: Request<{ tenantSlug: string }>, res: Response) => {
+    const updates: Partial<Record<typeof TENANT_CONTACT_FIELDS[number], string>> = {};
+    for (const field of TENANT_CONTACT_FIELDS) {
+        const value = req.body[field];
+        if (value === undefined) continue;
+        if (typeof value !== 'string' || !value.trim()) {
+            return res.status(400).json(apiMessage('FIELD_EMPTY', { field }));
+        }
+        updates[field] = value.trim();
+    }
+
+    const fields = Object.keys(updates) as (keyof typeof updates)[];
+    if (fields.length === 0) {
+        return res.status(400).json(apiMessage('NO_FIELDS_TO_UPDATE', { fields: TENANT_CONTACT_FIELDS.join(', ') }));
+    }
+
+    try {
+        const [previousRows] = await pool.execute<RowDataPacket[]>(
+            'SELECT id, tenant_id, name, phone, email, address FROM tenants WHERE tenant_id = ?',
+            [req.params.tenantSlug]
+        );
+        if (previousRows.length === 0) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: req.params.tenantSlug }));
+        }
+        const previous = previousRows[0];
+
+        await pool.execute(
+            `UPDATE tenants SET ${fields.map(field => `${field} = ?`).join(', ')} WHERE id = ?`,
+            [...fields.map(field => updates[field]!), previous.id]
+        );
+        invalidateTenant(previous.tenant_id);
+
+        const before: Record<string, unknown> = {};
+        fields.forEach(field => { before[field] = previous[field]; });
+        await recordOperatorAction(req, {
+            action: 'tenant.update', tenant: { id: previous.id, slug: previous.tenant_id },
+            entityType: 'tenant', entityId: previous.id, before, after: updates
+        });
+
+        res.status(200).json({ ...apiMessage('TENANT_UPDATED'), updatedFields: updates });
+    } catch (error) {
+        console.error("Error al actualizar el inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA POST para restablecer la contraseña de un administrador del inquilino
+// Endpoint: POST /api/external/tenants/:tenantSlug/admins/:staffId/reset-password  { password? }
+// Sin 'password' se genera una temporal que se devuelve una sola vez. La cuenta queda activa
+// (anula invitaciones pendientes) y se cierran todas sus sesiones.
+router.post('/tenants/:tenantSlug/admins/:staffId/reset-password', authenticateExternalApi, async (req: Request<{ tenantSlug: string; staffId: string }>, res: Response) => {
+    const { password } = req.body;
+
+    if (password !== undefined && (typeof password !== 'string' || password.length < 8)) {
+        return res.status(400).json(apiMessage('PASSWORD_TOO_SHORT'));
+    }
+
+    try {
+        const tenant = await getTenantInfoBySlug(req.params.tenantSlug);
+        if (!tenant) {
+            return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: req.params.tenantSlug }));
+        }
+
+        const [staffRows] = await pool.execute<RowDataPacket[]>(
+            `SELECT id, email, status FROM staff WHERE id = ? AND tenant_id = ? AND role = 'admin'`,
+            [req.params.staffId, tenant.id]
+        );
+        if (staffRows.length === 0) {
+            return res.status(404).json(apiMessage('ADMIN_NOT_FOUND'));
+        }
+        const admin = staffRows[0];
+
+        const temporaryPassword = password ? null : crypto.randomBytes(9).toString('base64').replace(/[+/]/g, 'x');
+        const saltRounds = process.env.SALT_ROUNDS ? parseInt(process.env.SALT_ROUNDS) : 10;
+        const hashedPassword = await bcrypt.hash(password || temporaryPassword!, saltRounds);
+
+        await pool.execute(
+            `UPDATE staff SET password = ?, status = 'active' WHERE id = ? AND tenant_id = ?`,
+            [hashedPassword, admin.id, tenant.id]
+        );
+        await pool.execute(
+            `UPDATE staff_invitations SET revoked_at = NOW()
+             WHERE tenant_id = ? AND staff_id = ? AND accepted_at IS NULL AND revoked_at IS NULL`,
+            [tenant.id, admin.id]
+        );
+        const sessionsRevoked = await revokeAllSessions({ tenantDbId: tenant.id, userType: 'staff', userId: admin.id });
+
+        // Nunca se registra la contraseña, solo el hecho
+        await recordOperatorAction(req, {
+            action: 'tenant.admin_password_reset', tenant, entityType: 'staff', entityId: admin.id,
+            before: { status: admin.status }, after: { status: 'active', generated: !password }
+        });
+
+        res.status(200).json({
+            ...apiMessage('ADMIN_PASSWORD_RESET', { email: admin.email, sessions: sessionsRevoked }),
+            ...(temporaryPassword ? { temporaryPassword } : {})
+        });
+    } catch (error) {
+        console.error("Error al restablecer la contraseña del administrador:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA GET para consultar la bitácora de los operadores
+// Endpoint: GET /api/external/operator-log?tenant=&action=&operator=&page=&limit=
+router.get('/operator-log', authenticateExternalApi, async (req: Request, res: Response) => {
+    const { tenant, action, operator } = req.query;
+
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    let where = 'WHERE 1 = 1';
+    const params: string[] = [];
+    if (tenant) {
+        where += ' AND tenant_slug = ?';
+        params.push(tenant as string);
+    }
+    if (action) {
+        where += ' AND action = ?';
+        params.push(action as string);
+    }
+    if (operator) {
+        where += ' AND operator = ?';
+        params.push(operator as string);
+    }
+
+    try {
+        const [countRows] = await pool.execute<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM operator_action_log ${where}`, params);
+        const [rows] = await pool.execute<RowDataPacket[]>(
+            `SELECT id, operator, action, tenant_id, tenant_slug, entity_type, entity_id, changes, ip_address, user_agent, created_at
+             FROM operator_action_log
+             ${where}
+             ORDER BY created_at DESC, id DESC
+             LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+            params
+        );
+
+        res.status(200).json({
+            entries: rows.map(row => ({
+                ...row,
+                changes: typeof row.changes === 'string' ? JSON.parse(row.changes) : row.changes
+            })),
+            pagination: { page, limit, total: Number(countRows[0].total) }
+        });
+    } catch (error) {
+        console.error("Error al obtener la bitácora de operadores:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
 export default router;
\ No newline at end of file
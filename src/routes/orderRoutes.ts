@@ -1,74 +1,27 @@
 // src/routes/orderRoutes.ts
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Response } from 'express';
 import pool from '../db';
 import { RowDataPacket, ResultSetHeader, OkPacket } from 'mysql2';
 import { ParamsDictionary } from 'express-serve-static-core';
+import { AuthRequest, verifyToken, requireClient, ensureTenantAccess, requireVerifiedClient, requirePermission } from '../middleware/authMiddleware';
+import { recordAudit } from '../utils/auditLog';
+import { checkOpenAt, isIsoDate } from '../utils/businessHours';
+import { TenantSettings, getTenantSettings, checkPickupWindow, addDays } from '../utils/tenantSettings';
+import { resolveBookingBranch, restoreOrderStock } from '../utils/branches';
+import { apiMessage } from '../utils/i18n';
 
 const router = Router();
 
-// --- Interfaces y Middlewares (Sin cambios) ---
-interface OrderRequest<P extends ParamsDictionary> extends Request<P> {
-    user?: {
-        id: number;
-        tenant_id: string;
-        role: 'client';
-    };
-    tenantId?: string;
-    resolvedTenant?: {
-        id: number;
-        slug: string;
-    }
-}
-
-const getTenantInfoBySlug = async (tenantSlug: string): Promise<{ id: number; slug: string } | null> => {
-    const [tenantRows] = await pool.execute<RowDataPacket[]>(
-        'SELECT id, tenant_id FROM tenants WHERE tenant_id = ?',
-        [tenantSlug]
-    );
-    if (tenantRows.length === 0) return null;
-    return { id: tenantRows[0].id, slug: tenantRows[0].tenant_id };
-};
-
-const verifyClientToken = (req: OrderRequest<any>, res: Response, next: NextFunction) => {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-    if (!token) {
-        return res.status(401).json({ message: 'No autenticado.' });
-    }
-    try {
-        const [tenant_slug, role, client_id] = token.split(':');
-        if (!tenant_slug || role !== 'client' || !client_id) {
-            return res.status(401).json({ message: 'Token de cliente no válido.' });
-        }
-        req.user = {
-            id: parseInt(client_id, 10),
-            tenant_id: tenant_slug,
-            role: 'client'
-        };
-    } catch (e) {
-        return res.status(401).json({ message: 'Token inválido.' });
-    }
-    next();
-};
-
-const ensureTenantAccess = async (req: OrderRequest<any>, res: Response, next: NextFunction) => {
-    const requestedTenantSlug = req.tenantId;
-    const authenticatedTenantSlug = req.user?.tenant_id;
-    if (!requestedTenantSlug) {
-        return res.status(400).json({ message: 'Slug de inquilino no encontrado.' });
-    }
-    const tenantInfo = await getTenantInfoBySlug(requestedTenantSlug);
-    if (tenantInfo === null) {
-        return res.status(404).json({ message: `Inquilino ${requestedTenantSlug} no encontrado.` });
-    }
-    req.resolvedTenant = tenantInfo;
-    if (!req.user || authenticatedTenantSlug !== requestedTenantSlug) {
-        return res.status(403).json({ message: 'Acceso denegado.' });
-    }
-    next();
-};
+// --- Interfaces ---
+// Autenticación y control de inquilino: capa compartida (authMiddleware).
+// Las reservas y "mis pedidos" son de clientes; la gestión de la clínica va por permisos.
+type OrderRequest<P extends ParamsDictionary> = AuthRequest<P>;
 
 // Helper para construir URL de imagen
+// Estados posibles de un pedido
+const ORDER_STATUSES = ['pending_pickup', 'completed', 'cancelled'] as const;
+type OrderStatus = typeof ORDER_STATUSES[number];
+
 const getDisplayImageUrl = (path: string, hostname: string) => {
     if (!path) return null;
     const host = hostname.split(':')[0]; // Quita puerto (ej. 5173)
@@ -77,39 +30,52 @@ const getDisplayImageUrl = (path: string, hostname: string) => {
 
 
 // -----------------------------------------------------------------------------
-// 1. CREAR NUEVO PEDIDO (RESERVA) (ACTUALIZADO con validación de 10 días)
+// 1. CREAR NUEVO PEDIDO (RESERVA) (ventana de recojo y vencimiento según la configuración)
 // POST /api/orders
 // -----------------------------------------------------------------------------
-router.post('/', verifyClientToken, ensureTenantAccess, async (req: OrderRequest<any>, res: Response) => {
-    const { items, pickupDate }: {
+router.post('/', verifyToken, requireClient, ensureTenantAccess, requireVerifiedClient, async (req: OrderRequest<any>, res: Response) => {
+    const { items, pickupDate, branchId: requestedBranchId }: {
         items: { productId: number, quantity: number }[],
-        pickupDate: string // Formato 'YYYY-MM-DD'
+        pickupDate: string, // Formato 'YYYY-MM-DD'
+        branchId?: number // Sucursal de recojo (obligatoria si la clínica tiene sucursales)
     } = req.body;
 
     const { id: tenantDbId } = req.resolvedTenant!;
     const clientId = req.user!.id;
 
     if (!items || items.length === 0 || !pickupDate) {
-        return res.status(400).json({ message: 'Faltan productos o fecha de recojo.' });
+        return res.status(400).json(apiMessage('ORDER_FIELDS_REQUIRED'));
     }
 
-    // --- 🔽 NUEVA VALIDACIÓN DE FECHA (LADO SERVIDOR) 🔽 ---
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    if (!isIsoDate(pickupDate)) {
+        return res.status(400).json(apiMessage('INVALID_PICKUP_DATE'));
+    }
 
-    const selectedDate = new Date(pickupDate + 'T00:00:00');
+    // Ventana de recojo según la configuración de la clínica (en su zona horaria) y
+    // la sucursal de recojo debe atender ese día (horario semanal y días de cierre)
+    let settings: TenantSettings;
+    let branchId: number | null;
+    try {
+        settings = await getTenantSettings(tenantDbId);
+        const windowError = checkPickupWindow(settings, pickupDate);
+        if (windowError) {
+            return res.status(400).json(windowError);
+        }
 
-    const maxDate = new Date(today);
-    maxDate.setDate(today.getDate() + 10); // Hoy + 10 días
+        const branchResult = await resolveBookingBranch(tenantDbId, requestedBranchId);
+        if (branchResult.error) {
+            return res.status(400).json(branchResult.error);
+        }
+        branchId = branchResult.branchId!;
 
-    // Comparamos los timestamps
-    if (selectedDate.getTime() <= today.getTime()) {
-        return res.status(400).json({ message: 'La fecha de recojo debe ser en el futuro.' });
-    }
-    if (selectedDate.getTime() > maxDate.getTime()) {
-        return res.status(400).json({ message: 'La fecha de recojo no puede superar los 10 días.' });
+        const closedError = await checkOpenAt(tenantDbId, pickupDate, undefined, branchId);
+        if (closedError) {
+            return res.status(400).json(closedError);
+        }
+    } catch (error) {
+        console.error("Error al verificar el horario de la clínica:", error);
+        return res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
-    // --- 🔼 FIN DE VALIDACIÓN 🔼 ---
 
     const connection = await pool.getConnection();
     try {
@@ -117,16 +83,35 @@ router.post('/', verifyClientToken, ensureTenantAccess, async (req: OrderRequest
 
         let totalAmount = 0;
         const productPrices: { [key: number]: number } = {};
+        const branchTracked: { [key: number]: boolean } = {};
 
         // 1. Verificar stock y calcular total
+        // Con stock por sucursal, cuenta el de la sucursal de recojo; si no, el stock general
         for (const item of items) {
             const [rows] = await connection.execute<RowDataPacket[]>(
                 'SELECT price, stock FROM products WHERE id = ? AND tenant_id = ? AND is_available = TRUE FOR UPDATE',
                 [item.productId, tenantDbId]
             );
-            if (rows.length === 0) throw new Error(`El producto ID ${item.productId} no está disponible.`);
+            if (rows.length === 0) {
+                await connection.rollback();
+                return res.status(409).json(apiMessage('PRODUCT_UNAVAILABLE', { productId: item.productId }));
+            }
             const product = rows[0];
-            if (product.stock < item.quantity) throw new Error(`Stock insuficiente para el producto ID ${item.productId}.`);
+
+            let available = product.stock;
+            if (branchId) {
+                const [branchRows] = await connection.execute<RowDataPacket[]>(
+                    `SELECT COUNT(*) AS tracked, COALESCE(SUM(CASE WHEN branch_id = ? THEN stock ELSE 0 END), 0) AS branch_stock
+                     FROM branch_stock WHERE product_id = ? FOR UPDATE`,
+                    [branchId, item.productId]
+                );
+                branchTracked[item.productId] = Number(branchRows[0].tracked) > 0;
+                if (branchTracked[item.productId]) available = Number(branchRows[0].branch_stock);
+            }
+            if (available < item.quantity) {
+                await connection.rollback();
+                return res.status(409).json(apiMessage('INSUFFICIENT_STOCK', { productId: item.productId }));
+            }
 
             const price = parseFloat(product.price);
             productPrices[item.productId] = price;
@@ -134,13 +119,12 @@ router.post('/', verifyClientToken, ensureTenantAccess, async (req: OrderRequest
         }
 
         // 2. Crear la orden
-        const expirationDate = new Date(pickupDate + 'T00:00:00');
-        expirationDate.setDate(expirationDate.getDate() + 2); // Expira 2 días después
+        const expirationDate = addDays(pickupDate, settings.orderExpiryDays);
 
         const [orderResult] = await connection.execute<OkPacket>(
-            `INSERT INTO orders (tenant_id, client_id, total_amount, status, pickup_date, expiration_date) 
-             VALUES (?, ?, ?, 'pending_pickup', ?, ?)`,
-            [tenantDbId, clientId, totalAmount, pickupDate, expirationDate]
+            `INSERT INTO orders (tenant_id, client_id, branch_id, total_amount, status, pickup_date, expiration_date) 
+             VALUES (?, ?, ?, ?, 'pending_pickup', ?, ?)`,
+            [tenantDbId, clientId, branchId, totalAmount, pickupDate, expirationDate]
         );
         const orderId = orderResult.insertId;
 
@@ -154,20 +138,28 @@ router.post('/', verifyClientToken, ensureTenantAccess, async (req: OrderRequest
                 'UPDATE products SET stock = stock - ? WHERE id = ?',
                 [item.quantity, item.productId]
             );
+            if (branchTracked[item.productId]) {
+                await connection.execute(
+                    'UPDATE branch_stock SET stock = stock - ? WHERE branch_id = ? AND product_id = ?',
+                    [item.quantity, branchId, item.productId]
+                );
+            }
         }
 
         await connection.commit();
         res.status(201).json({
-            message: 'Reserva creada exitosamente.',
+            ...apiMessage('ORDER_CREATED'),
             orderId: orderId,
-            total: totalAmount
+            total: totalAmount,
+            currency: settings.currency,
+            branchId,
+            expirationDate
         });
 
     } catch (error) {
         await connection.rollback();
         console.error("Error al crear la orden:", error);
-        const errorMessage = error instanceof Error ? error.message : 'Error del servidor.';
-        res.status(500).json({ message: errorMessage });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     } finally {
         connection.release();
     }
@@ -178,17 +170,19 @@ router.post('/', verifyClientToken, ensureTenantAccess, async (req: OrderRequest
 // 2. ⭐️ OBTENER "MIS PEDIDOS" (Historial del cliente) ⭐️
 // GET /api/orders/my-orders
 // -----------------------------------------------------------------------------
-router.get('/my-orders', verifyClientToken, ensureTenantAccess, async (req: OrderRequest<any>, res: Response) => {
+router.get('/my-orders', verifyToken, requireClient, ensureTenantAccess, async (req: OrderRequest<any>, res: Response) => {
     const { id: tenantDbId } = req.resolvedTenant!;
     const clientId = req.user!.id;
 
     try {
         // 1. Obtener todas las órdenes del cliente
         const [orders] = await pool.execute<RowDataPacket[]>(
-            `SELECT id, total_amount, status, pickup_date, created_at 
-             FROM orders 
-             WHERE client_id = ? AND tenant_id = ? 
-             ORDER BY created_at DESC`,
+            `SELECT o.id, o.total_amount, o.status, o.pickup_date, o.created_at,
+                    b.id AS branch_id, b.name AS branch_name, b.address AS branch_address
+             FROM orders o
+             LEFT JOIN branches b ON o.branch_id = b.id
+             WHERE o.client_id = ? AND o.tenant_id = ? 
+             ORDER BY o.created_at DESC`,
             [clientId, tenantDbId]
         );
 
@@ -196,9 +190,10 @@ router.get('/my-orders', verifyClientToken, ensureTenantAccess, async (req: Orde
             return res.status(200).json({ orders: [] });
         }
 
-        const orderIds = orders.map(o => o.id);
+        const orderIds: number[] = orders.map(o => o.id);
 
         // 2. Obtener todos los items para esas órdenes en una sola consulta
+        // (un placeholder por id: execute no expande arrays)
         const [items] = await pool.execute<RowDataPacket[]>(
             `SELECT 
                 oi.order_id, oi.product_id, oi.quantity, oi.unit_price,
@@ -208,8 +203,8 @@ router.get('/my-orders', verifyClientToken, ensureTenantAccess, async (req: Orde
              JOIN products p ON oi.product_id = p.id
              LEFT JOIN product_images pi ON p.id = pi.product_id AND pi.is_primary = TRUE
              LEFT JOIN images i ON pi.image_id = i.id
-             WHERE oi.order_id IN (?)`,
-            [orderIds] // pool.execute maneja la expansión del array [1, 2, 3] a (1, 2, 3)
+             WHERE oi.order_id IN (${orderIds.map(() => '?').join(', ')})`,
+            orderIds
         );
 
         // 3. Mapear los items a sus órdenes
@@ -230,6 +225,7 @@ router.get('/my-orders', verifyClientToken, ensureTenantAccess, async (req: Orde
                 status: order.status,
                 pickup_date: order.pickup_date,
                 created_at: order.created_at,
+                branch: order.branch_id ? { id: order.branch_id, name: order.branch_name, address: order.branch_address } : null,
                 items: orderItems
             };
         });
@@ -238,7 +234,140 @@ router.get('/my-orders', verifyClientToken, ensureTenantAccess, async (req: Orde
 
     } catch (error) {
         console.error("Error al obtener 'mis pedidos':", error);
-        res.status(500).json({ message: 'Error del servidor al obtener el historial de pedidos.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+
+// -----------------------------------------------------------------------------
+// 3. PEDIDOS DE LA CLÍNICA (personal o clave de API con 'orders.view')
+// GET /api/orders?status=pending_pickup&from=YYYY-MM-DD&to=YYYY-MM-DD&branchId=1
+// -----------------------------------------------------------------------------
+router.get('/', verifyToken, ensureTenantAccess, requirePermission('orders.view'), async (req: OrderRequest<any>, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { status, from, to, branchId } = req.query;
+
+    let query = `
+        SELECT o.id, o.client_id, c.name AS client_name, c.email AS client_email,
+               o.total_amount, o.status, o.pickup_date, o.expiration_date, o.created_at,
+               o.branch_id, b.name AS branch_name
+        FROM orders o
+        LEFT JOIN clients c ON o.client_id = c.id
+        LEFT JOIN branches b ON o.branch_id = b.id
+        WHERE o.tenant_id = ?
+    `;
+    const queryParams: (string | number)[] = [tenantDbId];
+
+    if (status) {
+        query += ' AND o.status = ?';
+        queryParams.push(status as string);
+    }
+    if (from) {
+        query += ' AND o.pickup_date >= ?';
+        queryParams.push(from as string);
+    }
+    if (to) {
+        query += ' AND o.pickup_date <= ?';
+        queryParams.push(to as string);
+    }
+    if (branchId) {
+        query += ' AND o.branch_id = ?';
+        queryParams.push(Number(branchId));
+    }
+    query += ' ORDER BY o.pickup_date ASC, o.id ASC';
+
+    try {
+        const [orders] = await pool.execute<RowDataPacket[]>(query, queryParams);
+
+        if (orders.length === 0) {
+            return res.status(200).json({ orders: [] });
+        }
+
+        // Solo los items de los pedidos devueltos (un placeholder por id: execute no expande arrays)
+        const orderIds: number[] = orders.map(order => order.id);
+        const [items] = await pool.execute<RowDataPacket[]>(
+            `SELECT oi.order_id, oi.product_id, oi.quantity, oi.unit_price, p.name AS product_name
+             FROM order_items oi
+             LEFT JOIN products p ON oi.product_id = p.id
+             WHERE oi.order_id IN (${orderIds.map(() => '?').join(', ')})`,
+            orderIds
+        );
+
+        res.status(200).json({
+            orders: orders.map(order => ({
+                ...order,
+                total_amount: parseFloat(order.total_amount),
+                items: items
+                    .filter(item => item.order_id === order.id)
+                    .map(item => ({
+                        product_id: item.product_id,
+                        product_name: item.product_name,
+                        quantity: item.quantity,
+                        unit_price: parseFloat(item.unit_price)
+                    }))
+            }))
+        });
+    } catch (error) {
+        console.error("Error al obtener los pedidos de la clínica:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// -----------------------------------------------------------------------------
+// 4. CAMBIAR EL ESTADO DE UN PEDIDO ('orders.manage')
+// PUT /api/orders/:orderId/status  { status: 'completed' | 'cancelled' | 'pending_pickup' }
+// Al cancelar se devuelve el stock reservado.
+// -----------------------------------------------------------------------------
+router.put('/:orderId/status', verifyToken, ensureTenantAccess, requirePermission('orders.manage'), async (req: OrderRequest<{ orderId: string }>, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { orderId } = req.params;
+    const status = req.body.status as OrderStatus;
+
+    if (!ORDER_STATUSES.includes(status)) {
+        return res.status(400).json(apiMessage('INVALID_STATUS', { allowed: ORDER_STATUSES.join(', ') }));
+    }
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [rows] = await connection.execute<RowDataPacket[]>(
+            'SELECT id, status, branch_id FROM orders WHERE id = ? AND tenant_id = ? FOR UPDATE',
+            [orderId, tenantDbId]
+        );
+        if (rows.length === 0) {
+            await connection.rollback();
+            return res.status(404).json(apiMessage('ORDER_NOT_FOUND'));
+        }
+
+        const previousStatus = rows[0].status as OrderStatus;
+        if (previousStatus === 'cancelled' && status !== 'cancelled') {
+            await connection.rollback();
+            return res.status(409).json(apiMessage('ORDER_CANCELLED_FINAL'));
+        }
+
+        if (status === 'cancelled' && previousStatus !== 'cancelled') {
+            await restoreOrderStock(connection, tenantDbId, { id: rows[0].id, branch_id: rows[0].branch_id });
+        }
+
+        await connection.execute<ResultSetHeader>(
+            'UPDATE orders SET status = ? WHERE id = ? AND tenant_id = ?',
+            [status, orderId, tenantDbId]
+        );
+
+        await connection.commit();
+        await recordAudit(req, {
+            action: 'order.status_update', entityType: 'order', entityId: orderId,
+            before: { status: previousStatus }, after: { status }
+        });
+
+        res.status(200).json({ ...apiMessage('ORDER_STATUS_UPDATED'), orderId: Number(orderId), status });
+    } catch (error) {
+        await connection.rollback();
+        console.error("Error al actualizar el estado del pedido:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    } finally {
+        connection.release();
     }
 });
 
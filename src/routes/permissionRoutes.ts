@@ -0,0 +1,118 @@
+// src/routes/permissionRoutes.ts
+// Configuración de permisos por rol para cada inquilino.
+import { Router, Response } from 'express';
+import pool from '../db';
+import { AuthRequest, verifyToken, requireStaff, ensureTenantAccess, requirePermission, loadPermissions } from '../middleware/authMiddleware';
+import {
+    PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, ConfigurableRole,
+    getRolePermissions, normalizeRolePermissions, isPermission
+} from '../utils/permissions';
+import { recordAudit } from '../utils/auditLog';
+import { apiMessage } from '../utils/i18n';
+
+const router = Router();
+
+const CONFIGURABLE_ROLES: ConfigurableRole[] = ['admin', 'doctor', 'receptionist'];
+
+// 1. PERMISOS DEL USUARIO AUTENTICADO (GET /api/permissions/me)
+// Útil para que el frontend muestre u oculte acciones.
+router.get('/me', verifyToken, requireStaff, ensureTenantAccess, async (req: AuthRequest, res: Response) => {
+    try {
+        const permissions = await loadPermissions(req);
+        res.status(200).json({ role: req.user!.role, permissions });
+    } catch (error) {
+        console.error("Error al obtener permisos del usuario:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 2. CATÁLOGO Y MAPEO EFECTIVO POR ROL (GET /api/permissions)
+router.get('/', verifyToken, requireStaff, ensureTenantAccess, requirePermission('permissions.manage'), async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const roles: Record<string, string[]> = {};
+        for (const role of CONFIGURABLE_ROLES) {
+            roles[role] = await getRolePermissions(tenantDbId, role);
+        }
+
+        res.status(200).json({
+            catalog: PERMISSIONS,
+            defaults: DEFAULT_ROLE_PERMISSIONS,
+            roles
+        });
+    } catch (error) {
+        console.error("Error al obtener permisos:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 3. PERSONALIZAR LOS PERMISOS DE UN ROL (PUT /api/permissions/:role)
+router.put('/:role', verifyToken, requireStaff, ensureTenantAccess, requirePermission('permissions.manage'), async (req: AuthRequest<{ role: string }>, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const role = req.params.role as ConfigurableRole;
+    const { permissions } = req.body;
+
+    if (!CONFIGURABLE_ROLES.includes(role)) {
+        return res.status(400).json(apiMessage('INVALID_STAFF_ROLE'));
+    }
+    if (!Array.isArray(permissions)) {
+        return res.status(400).json(apiMessage('INVALID_LIST_FIELD', { field: 'permissions' }));
+    }
+
+    const unknown = permissions.filter((permission: unknown) => !isPermission(permission));
+    if (unknown.length > 0) {
+        return res.status(400).json(apiMessage('UNKNOWN_PERMISSIONS', { permissions: unknown.join(', ') }));
+    }
+
+    const normalized = normalizeRolePermissions(role, permissions);
+
+    try {
+        const previous = await getRolePermissions(tenantDbId, role);
+        await pool.execute(
+            `INSERT INTO tenant_role_permissions (tenant_id, role, permissions) VALUES (?, ?, ?)
+             ON DUPLICATE KEY UPDATE permissions = VALUES(permissions)`,
+            [tenantDbId, role, JSON.stringify(normalized)]
+        );
+        await recordAudit(req, {
+            action: 'permissions.update', entityType: 'role_permissions', entityId: role,
+            before: { permissions: previous }, after: { permissions: normalized }
+        });
+        res.status(200).json({ ...apiMessage('ROLE_PERMISSIONS_UPDATED', { role }), role, permissions: normalized });
+    } catch (error) {
+        console.error("Error al actualizar permisos:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 4. RESTABLECER EL MAPEO POR DEFECTO DE UN ROL (DELETE /api/permissions/:role)
+router.delete('/:role', verifyToken, requireStaff, ensureTenantAccess, requirePermission('permissions.manage'), async (req: AuthRequest<{ role: string }>, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const role = req.params.role as ConfigurableRole;
+
+    if (!CONFIGURABLE_ROLES.includes(role)) {
+        return res.status(400).json(apiMessage('INVALID_STAFF_ROLE'));
+    }
+
+    try {
+        const previous = await getRolePermissions(tenantDbId, role);
+        await pool.execute(
+            'DELETE FROM tenant_role_permissions WHERE tenant_id = ? AND role = ?',
+            [tenantDbId, role]
+        );
+        await recordAudit(req, {
+            action: 'permissions.reset', entityType: 'role_permissions', entityId: role,
+            before: { permissions: previous }, after: { permissions: DEFAULT_ROLE_PERMISSIONS[role] }
+        });
+        res.status(200).json({
+            ...apiMessage('ROLE_PERMISSIONS_RESET', { role }),
+            role,
+            permissions: DEFAULT_ROLE_PERMISSIONS[role]
+        });
+    } catch (error) {
+        console.error("Error al restablecer permisos:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+export default router;
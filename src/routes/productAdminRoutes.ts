@@ -1,91 +1,28 @@
 // src/routes/productAdminRoutes.ts
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Response } from 'express';
 import pool from '../db';
 import { RowDataPacket, ResultSetHeader, OkPacket } from 'mysql2';
 
 import { ParamsDictionary } from 'express-serve-static-core';
+import { AuthRequest, verifyToken, ensureTenantAccess, requirePermission } from '../middleware/authMiddleware';
 import upload from '../middleware/uploadMiddleware'; // Reutilizamos el middleware de subida
+import { enforcePlanLimit, enforceStorageLimit } from '../middleware/planLimits';
 import fs from 'fs';
 import path from 'path';
+import { recordAudit } from '../utils/auditLog';
+import { syncProductStock } from '../utils/branches';
+import { apiMessage } from '../utils/i18n';
 
 const router = Router();
 
-// --- Copiamos las Interfaces y Middlewares de staffRoutes.ts ---
-
-interface AdminRequest<P extends ParamsDictionary> extends Request<P> {
-    file?: Express.Multer.File; // Para Multer
-    user?: {
-        id: number;
-        tenant_id: string; // Slug (e.g., 'chavez')
-        role: 'admin' | 'doctor' | 'receptionist' | 'client';
-    };
-    tenantId?: string; // Slug inyectado por resolveTenant
-    resolvedTenant?: {
-        id: number; // El ID numérico del tenant
-        slug: string; // El slug del tenant
-    }
-}
+// Autenticación y control de inquilino: capa compartida (authMiddleware). Cada ruta declara su permiso.
+type AdminRequest<P extends ParamsDictionary> = AuthRequest<P>;
 
 interface ImageRow extends RowDataPacket {
     id: number;
     storage_key: string;
 }
 
-// Helper para obtener ID numérico
-const getTenantInfoBySlug = async (tenantSlug: string): Promise<{ id: number; slug: string } | null> => {
-    const [tenantRows] = await pool.execute<RowDataPacket[]>(
-        'SELECT id, tenant_id FROM tenants WHERE tenant_id = ?',
-        [tenantSlug]
-    );
-    if (tenantRows.length === 0) return null;
-    return { id: tenantRows[0].id, slug: tenantRows[0].tenant_id };
-};
-
-// Middleware de Token (idéntico a staffRoutes)
-const verifyToken = (req: AdminRequest<any>, res: Response, next: NextFunction) => {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-    if (!token) {
-        return res.status(401).json({ message: 'No autenticado. Token no proporcionado.' });
-    }
-    try {
-        const [tenant_slug, role] = token.split(':');
-        if (!tenant_slug || !['admin', 'doctor', 'receptionist'].includes(role)) {
-            return res.status(401).json({ message: 'Token de simulación no válido.' });
-        }
-        req.user = { id: 1, tenant_id: tenant_slug, role: role as any };
-        if (req.user.role !== 'admin') {
-            return res.status(403).json({ message: 'Acceso denegado. Solo administradores.' });
-        }
-    } catch (e) {
-        return res.status(401).json({ message: 'Token inválido.' });
-    }
-    next();
-};
-
-// Middleware de Acceso (idéntico a staffRoutes)
-const ensureTenantAccess = async (req: AdminRequest<any>, res: Response, next: NextFunction) => {
-    const requestedTenantSlug = req.tenantId;
-    const authenticatedTenantSlug = req.user?.tenant_id;
-
-    if (!requestedTenantSlug) {
-        return res.status(400).json({ message: 'Slug de inquilino no encontrado.' });
-    }
-
-    const tenantInfo = await getTenantInfoBySlug(requestedTenantSlug);
-    if (tenantInfo === null) {
-        return res.status(404).json({ message: `Inquilino ${requestedTenantSlug} no encontrado.` });
-    }
-    req.resolvedTenant = tenantInfo;
-
-    if (!req.user || authenticatedTenantSlug !== requestedTenantSlug) {
-        return res.status(403).json({
-            message: 'Acceso denegado. No tiene permisos para este inquilino.'
-        });
-    }
-    next();
-};
-
 // Helper para borrar archivos
 const deleteFile = (filePath: string) => {
     const absolutePath = path.join(__dirname, '..', '..', filePath);
@@ -107,7 +44,7 @@ const getDisplayImageUrl = (path: string, hostname: string) => {
 // --- RUTAS DEL CRUD DE PRODUCTOS ---
 
 // 1. OBTENER TODOS los productos (para el admin)
-router.get('/', verifyToken, ensureTenantAccess, async (req: AdminRequest<any>, res: Response) => {
+router.get('/', verifyToken, ensureTenantAccess, requirePermission('products.view'), async (req: AdminRequest<any>, res: Response) => {
     const { id: tenantDbId } = req.resolvedTenant!;
     const { status, search, category } = req.query;
 
@@ -160,19 +97,19 @@ router.get('/', verifyToken, ensureTenantAccess, async (req: AdminRequest<any>,
 
     } catch (error) {
         console.error("Error al obtener productos (admin):", error);
-        res.status(500).json({ message: 'Error del servidor.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
-// 2. CREAR nuevo producto
-router.post('/', verifyToken, ensureTenantAccess, upload.single('image'), async (req: AdminRequest<any>, res: Response) => {
+// 2. CREAR nuevo producto (respetando los límites del plan)
+router.post('/', verifyToken, ensureTenantAccess, requirePermission('products.write'), upload.single('image'), enforcePlanLimit('products'), async (req: AdminRequest<any>, res: Response) => {
     const { id: tenantDbId } = req.resolvedTenant!;
     const { name, description, price, stock, category_id } = req.body;
     const file = req.file;
 
     if (!name || !price || !stock || !category_id || !file) {
         if (file) deleteFile(file.path); // Borrar imagen si faltan datos
-        return res.status(400).json({ message: 'Faltan campos obligatorios (nombre, precio, stock, categoría e imagen).' });
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'name, price, stock, category_id, image' }));
     }
 
     const connection = await pool.getConnection();
@@ -203,20 +140,24 @@ router.post('/', verifyToken, ensureTenantAccess, upload.single('image'), async
         );
 
         await connection.commit();
-        res.status(201).json({ message: 'Producto creado exitosamente.' });
+        await recordAudit(req, {
+            action: 'product.create', entityType: 'product', entityId: productId,
+            after: { name, description, price, stock, category_id, image: imageUrl }
+        });
+        res.status(201).json(apiMessage('PRODUCT_CREATED'));
 
     } catch (error) {
         await connection.rollback();
         if (file) deleteFile(file.path); // Borrar imagen en caso de error de DB
         console.error("Error al crear producto:", error);
-        res.status(500).json({ message: 'Error del servidor al crear el producto.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     } finally {
         connection.release();
     }
 });
 
 // 3. ACTUALIZAR producto
-router.put('/:productId', verifyToken, ensureTenantAccess, upload.single('image'), async (req: AdminRequest<{ productId: string }>, res: Response) => {
+router.put('/:productId', verifyToken, ensureTenantAccess, requirePermission('products.write'), upload.single('image'), enforceStorageLimit, async (req: AdminRequest<{ productId: string }>, res: Response) => {
     const { id: tenantDbId } = req.resolvedTenant!;
     const { productId } = req.params;
     const { name, description, price, stock, category_id } = req.body;
@@ -224,18 +165,26 @@ router.put('/:productId', verifyToken, ensureTenantAccess, upload.single('image'
 
     if (!name || !price || !stock || !category_id) {
         if (file) deleteFile(file.path);
-        return res.status(400).json({ message: 'Faltan campos obligatorios (nombre, precio, stock, categoría).' });
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'name, price, stock, category_id' }));
     }
 
     const connection = await pool.getConnection();
     try {
         await connection.beginTransaction();
 
+        // Estado previo para la auditoría
+        const [previousRows] = await connection.execute<RowDataPacket[]>(
+            'SELECT name, description, price, stock, category_id FROM products WHERE id = ? AND tenant_id = ?',
+            [productId, tenantDbId]
+        );
+
         // 1. Actualizar datos del producto
         await connection.execute(
             'UPDATE products SET name = ?, description = ?, price = ?, stock = ?, category_id = ? WHERE id = ? AND tenant_id = ?',
             [name, description, price, stock, category_id, productId, tenantDbId]
         );
+        // Si el producto lleva stock por sucursal, el total sigue siendo la suma de las sucursales
+        await syncProductStock(connection, Number(productId));
 
         // 2. Si se subió una imagen nueva, reemplazar la anterior
         if (file) {
@@ -277,13 +226,20 @@ router.put('/:productId', verifyToken, ensureTenantAccess, upload.single('image'
         }
 
         await connection.commit();
-        res.status(200).json({ message: 'Producto actualizado exitosamente.' });
+        if (previousRows.length > 0) {
+            await recordAudit(req, {
+                action: 'product.update', entityType: 'product', entityId: productId,
+                before: previousRows[0],
+                after: { name, description, price, stock, category_id, ...(file ? { image: `/uploads/${file.filename}` } : {}) }
+            });
+        }
+        res.status(200).json(apiMessage('PRODUCT_UPDATED'));
 
     } catch (error) {
         await connection.rollback();
         if (file) deleteFile(file.path); // Borrar imagen nueva si falla la tx
         console.error("Error al actualizar producto:", error);
-        res.status(500).json({ message: 'Error del servidor al actualizar el producto.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     } finally {
         connection.release();
     }
@@ -291,7 +247,7 @@ router.put('/:productId', verifyToken, ensureTenantAccess, upload.single('image'
 
 
 // 4. ACTIVAR producto
-router.put('/:productId/activate', verifyToken, ensureTenantAccess, async (req: AdminRequest<{ productId: string }>, res: Response) => {
+router.put('/:productId/activate', verifyToken, ensureTenantAccess, requirePermission('products.write'), async (req: AdminRequest<{ productId: string }>, res: Response) => {
     const { id: tenantDbId } = req.resolvedTenant!;
     const { productId } = req.params;
 
@@ -300,15 +256,19 @@ router.put('/:productId/activate', verifyToken, ensureTenantAccess, async (req:
             'UPDATE products SET is_available = TRUE WHERE id = ? AND tenant_id = ?',
             [productId, tenantDbId]
         );
-        if (result.affectedRows === 0) return res.status(404).json({ message: 'Producto no encontrado.' });
-        res.status(200).json({ message: 'Producto activado.' });
+        if (result.affectedRows === 0) return res.status(404).json(apiMessage('PRODUCT_NOT_FOUND'));
+        await recordAudit(req, {
+            action: 'product.activate', entityType: 'product', entityId: productId,
+            before: { is_available: false }, after: { is_available: true }
+        });
+        res.status(200).json(apiMessage('PRODUCT_ACTIVATED'));
     } catch (error) {
-        res.status(500).json({ message: 'Error del servidor.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
 // 5. DESACTIVAR producto
-router.put('/:productId/deactivate', verifyToken, ensureTenantAccess, async (req: AdminRequest<{ productId: string }>, res: Response) => {
+router.put('/:productId/deactivate', verifyToken, ensureTenantAccess, requirePermission('products.write'), async (req: AdminRequest<{ productId: string }>, res: Response) => {
     const { id: tenantDbId } = req.resolvedTenant!;
     const { productId } = req.params;
 
@@ -317,10 +277,14 @@ router.put('/:productId/deactivate', verifyToken, ensureTenantAccess, async (req
             'UPDATE products SET is_available = FALSE WHERE id = ? AND tenant_id = ?',
             [productId, tenantDbId]
         );
-        if (result.affectedRows === 0) return res.status(404).json({ message: 'Producto no encontrado.' });
-        res.status(200).json({ message: 'Producto desactivado.' });
+        if (result.affectedRows === 0) return res.status(404).json(apiMessage('PRODUCT_NOT_FOUND'));
+        await recordAudit(req, {
+            action: 'product.deactivate', entityType: 'product', entityId: productId,
+            before: { is_available: true }, after: { is_available: false }
+        });
+        res.status(200).json(apiMessage('PRODUCT_DEACTIVATED'));
     } catch (error) {
-        res.status(500).json({ message: 'Error del servidor.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
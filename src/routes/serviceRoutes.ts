@@ -1,11 +1,15 @@
 // src/routes/serviceRoutes.ts (Corregido)
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Response } from 'express';
 import pool from '../db';
 import { RowDataPacket, OkPacket } from 'mysql2';
 import multer from 'multer';
 import fs from 'fs';
 import path from 'path';
 import { ParamsDictionary } from 'express-serve-static-core';
+import { AuthRequest, optionalToken, verifyToken, resolveTenantInfo, ensureTenantAccess, requirePermission, hasPermission } from '../middleware/authMiddleware';
+import { recordAudit } from '../utils/auditLog';
+import { enforcePlanLimit, enforceStorageLimit } from '../middleware/planLimits';
+import { apiMessage } from '../utils/i18n';
 
 const router = Router({ mergeParams: true });
 
@@ -14,16 +18,6 @@ interface ServiceItemParams extends ParamsDictionary {
     serviceId: string;
 }
 
-interface ServiceRequest<P extends ParamsDictionary> extends Request<P> {
-    file?: Express.Multer.File;
-    user?: {
-        id: number;
-        tenant_id: string;
-        role: 'admin' | 'doctor' | 'receptionist' | 'client';
-    };
-    tenantId?: string;
-}
-
 interface ImageRow extends RowDataPacket {
     id: number;
     tenant_id: number;
@@ -43,109 +37,25 @@ const storage = multer.diskStorage({
 });
 const upload = multer({ storage: storage });
 
-const getTenantNumericId = async (tenantSlug: string): Promise<number | null> => {
-    const [tenantRows] = await pool.execute<RowDataPacket[]>(
-        'SELECT id FROM tenants WHERE tenant_id = ?',
-        [tenantSlug]
-    );
-    return tenantRows.length > 0 ? tenantRows[0].id : null;
-};
-
 const getDisplayImageUrl = (path: string, hostname: string) => {
     if (!path) return null;
     return path.startsWith('http') ? path : `http://${hostname}:4000${path}`;
 };
 
 
-// --- MIDDLEWARES (Sin cambios) ---
-// Este middleware está diseñado para procesar el token SI existe,
-// pero permitir la solicitud si NO existe (para visitantes públicos).
-const verifyToken = (req: ServiceRequest<any>, res: Response, next: NextFunction) => {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-
-    if (!token) {
-        // Si no hay token en un GET a la raíz, es un visitante.
-        if (req.method === 'GET' && req.route.path === '/') {
-            return next();
-        }
-        // Si no hay token en OTRA ruta (POST/PUT), es un error.
-        return res.status(401).json({ message: 'No autenticado. Token no proporcionado.' });
-    }
-
-    // Si SÍ hay token, lo procesamos (esto es lo que hará el Admin)
-    try {
-        const [tenant_slug, role] = token.split(':');
-
-        if (!tenant_slug || !['admin', 'doctor', 'receptionist', 'client'].includes(role)) {
-            return res.status(401).json({ message: 'Token de simulación no válido.' });
-        }
-
-        (req as any).user = {
-            id: 1, // Mock ID
-            tenant_id: tenant_slug,
-            role: role as any,
-        };
-
-    } catch (e) {
-        return res.status(401).json({ message: 'Token inválido o expirado.' });
-    }
-
-    next();
-};
-
-const ensureTenantAccess = async (req: ServiceRequest<any>, res: Response, next: NextFunction) => {
-    const requestedTenantSlug = req.tenantId;
-
-    if (!requestedTenantSlug) {
-        return res.status(400).json({ message: 'El ID de inquilino (slug) no se encontró en la solicitud.' });
-    }
-
-    // Esta lógica de omisión está bien, porque 'verifyToken' ya
-    // habrá (o no) poblado req.user.
-    if (req.method === 'GET' && req.route.path === '/') {
-        return next();
-    }
-
-    // Para el resto de rutas (POST, PUT), req.user es obligatorio.
-    if (!req.user) {
-        return res.status(401).json({ message: 'Se requiere autenticación para esta acción.' });
-    }
-
-    const authenticatedTenantSlug = req.user.tenant_id;
-
-    if (authenticatedTenantSlug !== requestedTenantSlug) {
-        return res.status(403).json({
-            message: 'Acceso denegado. No tiene permisos para acceder a los recursos de este inquilino.'
-        });
-    }
-
-    next();
-};
-
-const isAllowedToManageServices = (req: ServiceRequest<any>, res: Response, next: NextFunction) => {
-    if (req.user?.role !== 'admin') {
-        return res.status(403).json({ message: 'Acceso denegado. Solo administradores pueden gestionar servicios.' });
-    }
-    next();
-};
+// --- MIDDLEWARES ---
+// La autenticación y el control de inquilino vienen de la capa compartida (authMiddleware).
+// El GET es público pero acepta token opcional (quien tiene 'services.write' ve también los inactivos).
 // -----------------------------------------------------------------------------
 
 
 // --- RUTA CORREGIDA ---
 // 1. OBTENER SERVICIOS (GET /api/services)
-// ¡AQUÍ ESTABA EL ERROR! Faltaba el middleware 'verifyToken'.
-router.get('/', verifyToken, ensureTenantAccess, async (req: ServiceRequest<any>, res: Response) => {
-    const tenantSlug = req.tenantId!;
+router.get('/', optionalToken, resolveTenantInfo, async (req: AuthRequest<any>, res: Response) => {
+    const { id: tenantNumericId } = req.resolvedTenant!;
     const { status, search } = req.query;
 
     try {
-        const tenantNumericId = await getTenantNumericId(tenantSlug);
-
-        if (tenantNumericId === null) {
-            return res.status(404).json({ message: `Inquilino con ID ${tenantSlug} no encontrado.` });
-        }
-
         let query = `
             SELECT 
                 s.id, s.title, s.description, s.is_active, 
@@ -157,11 +67,11 @@ router.get('/', verifyToken, ensureTenantAccess, async (req: ServiceRequest<any>
         `;
         const queryParams: (string | number | boolean)[] = [tenantNumericId];
 
-        // Esta lógica ahora funcionará, porque 'verifyToken' poblará 'req.user'
-        const isAdmin = req.user?.role === 'admin';
+        // 'optionalToken' solo puebla 'req.user' con tokens de este mismo inquilino
+        const canManageServices = await hasPermission(req, 'services.write');
 
-        if (isAdmin) {
-            // Caso Admin: Aplicamos filtro de estado
+        if (canManageServices) {
+            // Caso Gestor de servicios: Aplicamos filtro de estado
             if (status === 'active') {
                 query += ' AND s.is_active = TRUE';
             } else if (status === 'inactive') {
@@ -192,37 +102,31 @@ router.get('/', verifyToken, ensureTenantAccess, async (req: ServiceRequest<any>
         }));
 
         res.status(200).json({
-            message: 'Servicios obtenidos exitosamente',
+            ...apiMessage('SERVICES_LISTED'),
             services: servicesWithImages,
         });
 
     } catch (error) {
         console.error("Error al obtener servicios:", error);
-        res.status(500).json({ message: 'Error del servidor al obtener servicios.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
 
-// 2. CREAR UN NUEVO SERVICIO (POST /api/services) (Sin cambios)
-router.post('/', verifyToken, ensureTenantAccess, isAllowedToManageServices, upload.single('image'), async (req: ServiceRequest<any>, res: Response) => {
-    const tenantSlug = req.tenantId!;
+// 2. CREAR UN NUEVO SERVICIO (POST /api/services) (respetando los límites del plan)
+router.post('/', verifyToken, ensureTenantAccess, requirePermission('services.write'), upload.single('image'), enforcePlanLimit('services'), async (req: AuthRequest<any>, res: Response) => {
+    const { id: tenantNumericId } = req.resolvedTenant!;
     const { title, description } = req.body;
     const file = req.file;
 
     if (!title || !description || !file) {
         if (file) fs.unlinkSync(file.path);
-        return res.status(400).json({ message: 'Faltan campos obligatorios (title, description, image).' });
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'title, description, image' }));
     }
 
     const connection = await pool.getConnection();
 
     try {
-        const tenantNumericId = await getTenantNumericId(tenantSlug);
-        if (tenantNumericId === null) {
-            if (file) fs.unlinkSync(file.path);
-            return res.status(404).json({ message: `Inquilino con ID ${tenantSlug} no encontrado.` });
-        }
-
         await connection.beginTransaction();
 
         const [serviceResult] = await connection.execute<OkPacket>(
@@ -246,9 +150,13 @@ router.post('/', verifyToken, ensureTenantAccess, isAllowedToManageServices, upl
         );
 
         await connection.commit();
+        await recordAudit(req, {
+            action: 'service.create', entityType: 'service', entityId: serviceId,
+            after: { title, description, image: imageUrl }
+        });
 
         res.status(201).json({
-            message: 'Servicio creado exitosamente!',
+            ...apiMessage('SERVICE_CREATED'),
             serviceId: serviceId,
             imageUrl: getDisplayImageUrl(imageUrl, req.hostname)
         });
@@ -257,36 +165,35 @@ router.post('/', verifyToken, ensureTenantAccess, isAllowedToManageServices, upl
         await connection.rollback();
         if (file) fs.unlinkSync(file.path);
         console.error("Error al crear servicio:", error);
-        res.status(500).json({ message: 'Error del servidor al crear el servicio.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     } finally {
         connection.release();
     }
 });
 
 // 3. ACTUALIZAR UN SERVICIO (PUT /api/services/:serviceId) (Sin cambios)
-router.put('/:serviceId', verifyToken, ensureTenantAccess, isAllowedToManageServices, upload.single('image'), async (req: ServiceRequest<ServiceItemParams>, res: Response) => {
-    const tenantSlug = req.tenantId!;
+router.put('/:serviceId', verifyToken, ensureTenantAccess, requirePermission('services.write'), upload.single('image'), enforceStorageLimit, async (req: AuthRequest<ServiceItemParams>, res: Response) => {
+    const { id: tenantNumericId } = req.resolvedTenant!;
     const { serviceId } = req.params;
     const { title, description } = req.body;
     const file = req.file;
 
     if (!title || !description || !serviceId) {
         if (file) fs.unlinkSync(file.path);
-        return res.status(400).json({ message: 'Faltan campos obligatorios o ID de servicio.' });
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'title, description, serviceId' }));
     }
 
     const connection = await pool.getConnection();
 
     try {
-        const tenantNumericId = await getTenantNumericId(tenantSlug);
-
-        if (tenantNumericId === null) {
-            if (file) fs.unlinkSync(file.path);
-            return res.status(404).json({ message: `Inquilino con ID ${tenantSlug} no encontrado.` });
-        }
-
         await connection.beginTransaction();
 
+        // Estado previo para la auditoría
+        const [previousRows] = await connection.execute<RowDataPacket[]>(
+            'SELECT title, description FROM services WHERE id = ? AND tenant_id = ?',
+            [serviceId, tenantNumericId]
+        );
+
         const [updateServiceResult] = await connection.execute<OkPacket>(
             'UPDATE services SET title = ?, description = ? WHERE id = ? AND tenant_id = ?',
             [title, description, serviceId, tenantNumericId]
@@ -345,7 +252,7 @@ router.put('/:serviceId', verifyToken, ensureTenantAccess, isAllowedToManageServ
             );
             if (rows.length === 0) {
                 await connection.rollback();
-                return res.status(404).json({ message: `Servicio con ID ${serviceId} no encontrado para este inquilino.` });
+                return res.status(404).json(apiMessage('SERVICE_NOT_FOUND', { serviceId }));
             }
         }
 
@@ -361,9 +268,14 @@ router.put('/:serviceId', verifyToken, ensureTenantAccess, isAllowedToManageServ
             finalImageUrl = imageRow.length > 0 ? imageRow[0].url : null;
         }
 
+        await recordAudit(req, {
+            action: 'service.update', entityType: 'service', entityId: serviceId,
+            before: previousRows[0],
+            after: { title, description, ...(file ? { image: finalImageUrl } : {}) }
+        });
 
         res.status(200).json({
-            message: 'Servicio actualizado exitosamente!',
+            ...apiMessage('SERVICE_UPDATED'),
             imageUrl: finalImageUrl ? getDisplayImageUrl(finalImageUrl, req.hostname) : null
         });
 
@@ -371,57 +283,61 @@ router.put('/:serviceId', verifyToken, ensureTenantAccess, isAllowedToManageServ
         await connection.rollback();
         if (file) fs.unlinkSync(file.path);
         console.error("Error al actualizar servicio:", error);
-        res.status(500).json({ message: 'Error del servidor al actualizar el servicio.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     } finally {
         connection.release();
     }
 });
 
 // 4. RUTA PARA DESACTIVAR SERVICIO (PUT /api/services/:serviceId/deactivate) (Sin cambios)
-router.put('/:serviceId/deactivate', verifyToken, ensureTenantAccess, isAllowedToManageServices, async (req: ServiceRequest<ServiceItemParams>, res: Response) => {
-    const tenantSlug = req.tenantId!;
+router.put('/:serviceId/deactivate', verifyToken, ensureTenantAccess, requirePermission('services.write'), async (req: AuthRequest<ServiceItemParams>, res: Response) => {
+    const { id: tenantNumericId } = req.resolvedTenant!;
     const { serviceId } = req.params;
 
     try {
-        const tenantNumericId = await getTenantNumericId(tenantSlug);
-        if (tenantNumericId === null) return res.status(404).json({ message: `Inquilino con ID ${tenantSlug} no encontrado.` });
-
         const [result] = await pool.execute<OkPacket>(
             'UPDATE services SET is_active = FALSE WHERE id = ? AND tenant_id = ?',
             [serviceId, tenantNumericId]
         );
 
-        if (result.affectedRows === 0) return res.status(404).json({ message: `Servicio con ID ${serviceId} no encontrado para este inquilino.` });
+        if (result.affectedRows === 0) return res.status(404).json(apiMessage('SERVICE_NOT_FOUND', { serviceId }));
+
+        await recordAudit(req, {
+            action: 'service.deactivate', entityType: 'service', entityId: serviceId,
+            before: { is_active: true }, after: { is_active: false }
+        });
 
-        res.status(200).json({ message: 'Servicio desactivado exitosamente!' });
+        res.status(200).json(apiMessage('SERVICE_DEACTIVATED'));
 
     } catch (error) {
         console.error("Error al desactivar servicio:", error);
-        res.status(500).json({ message: 'Error del servidor al desactivar el servicio.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
 // 5. RUTA PARA ACTIVAR SERVICIO (PUT /api/services/:serviceId/activate) (Sin cambios)
-router.put('/:serviceId/activate', verifyToken, ensureTenantAccess, isAllowedToManageServices, async (req: ServiceRequest<ServiceItemParams>, res: Response) => {
-    const tenantSlug = req.tenantId!;
+router.put('/:serviceId/activate', verifyToken, ensureTenantAccess, requirePermission('services.write'), async (req: AuthRequest<ServiceItemParams>, res: Response) => {
+    const { id: tenantNumericId } = req.resolvedTenant!;
     const { serviceId } = req.params;
 
     try {
-        const tenantNumericId = await getTenantNumericId(tenantSlug);
-        if (tenantNumericId === null) return res.status(404).json({ message: `Inquilino con ID ${tenantSlug} no encontrado.` });
-
         const [result] = await pool.execute<OkPacket>(
             'UPDATE services SET is_active = TRUE WHERE id = ? AND tenant_id = ?',
             [serviceId, tenantNumericId]
         );
 
-        if (result.affectedRows === 0) return res.status(404).json({ message: `Servicio con ID ${serviceId} no encontrado para este inquilino.` });
+        if (result.affectedRows === 0) return res.status(404).json(apiMessage('SERVICE_NOT_FOUND', { serviceId }));
+
+        await recordAudit(req, {
+            action: 'service.activate', entityType: 'service', entityId: serviceId,
+            before: { is_active: false }, after: { is_active: true }
+        });
 
-        res.status(200).json({ message: 'Servicio activado exitosamente!' });
+        res.status(200).json(apiMessage('SERVICE_ACTIVATED'));
 
     } catch (error) {
         console.error("Error al activar servicio:", error);
-        res.status(500).json({ message: 'Error del servidor al activar el servicio.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
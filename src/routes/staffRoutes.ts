@@ -1,9 +1,18 @@
 // src/routes/staffRoutes.ts (Implementación multi-inquilino corregida para subdominio)
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Response } from 'express';
 import pool from '../db';
 import bcrypt from 'bcryptjs';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import { ParamsDictionary } from 'express-serve-static-core';
+import { AuthRequest, verifyToken, ensureTenantAccess, requireStaff, requirePermission } from '../middleware/authMiddleware';
+import { revokeAllSessions } from '../utils/sessions';
+import { getClientIp, listLockedAccounts, unlockAccount } from '../utils/loginThrottle';
+import { recordAudit } from '../utils/auditLog';
+import { sendStaffInvitation, listStaffInvitations, revokeStaffInvitation } from '../utils/staffInvitations';
+import { getFrontendBaseUrl } from '../utils/links';
+import { findEmailOwnerInTenant } from '../utils/emailUniqueness';
+import { enforcePlanLimit } from '../middleware/planLimits';
+import { apiMessage } from '../utils/i18n';
 
 // Router con mergeParams: true (mantenemos por si las subrutas necesitan params)
 const router = Router({ mergeParams: true });
@@ -18,123 +27,48 @@ interface StaffRow extends RowDataPacket {
     id: number;
     tenant_id: number; // El ID numérico real en la tabla staff
     email: string;
-    password: string;
+    password: string | null; // NULL mientras la invitación está pendiente
     name: string;
     is_admin: boolean;
     role: 'admin' | 'doctor' | 'receptionist';
+    status: 'active' | 'invited';
 }
 
-interface StaffRequest extends Request<StaffRouteParams> {
-    user?: {
-        id: number;
-        tenant_id: string; // Slug (e.g., 'chavez') - Del usuario autenticado
-        role: 'admin' | 'doctor' | 'receptionist' | 'client';
-    };
-    tenantId?: string; // Slug inyectado por resolveTenant middleware (CRUCIAL)
-    // Nuevo: El tenant resuelto a partir del SLUG
-    resolvedTenant?: {
-        id: number; // El ID numérico del tenant solicitado
-        slug: string; // El slug del tenant solicitado
-    }
-}
-
-// 🎯 FUNCIÓN AUXILIAR - Obtiene ID y Slug por SLUG
-const getTenantInfoBySlug = async (tenantSlug: string): Promise<{ id: number; slug: string } | null> => {
-    const [tenantRows] = await pool.execute<RowDataPacket[]>(
-        'SELECT id, tenant_id FROM tenants WHERE tenant_id = ?',
-        [tenantSlug]
-    );
-    if (tenantRows.length === 0) return null;
-    return { id: tenantRows[0].id, slug: tenantRows[0].tenant_id };
-};
+type StaffRequest = AuthRequest<StaffRouteParams>;
 
+// Cuerpo de la invitación (POST /api/staff); el rol se valida en la ruta
+interface StaffInviteBody {
+    email?: string;
+    name?: string;
+    role?: StaffRow['role'];
+}
 
 // -----------------------------------------------------------------------------
-// 🔐 MIDDLEWARE DE AUTENTICACIÓN (Simulación dinámica de JWT - NO CAMBIA)
-const verifyToken = (req: StaffRequest, res: Response, next: NextFunction) => {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-
-    if (!token) {
-        return res.status(401).json({ message: 'No autenticado. Token no proporcionado.' });
-    }
-
-    try {
-        const [tenant_slug, role] = token.split(':');
-
-        if (!tenant_slug || !['admin', 'doctor', 'receptionist', 'client'].includes(role)) {
-            return res.status(401).json({ message: 'Token de simulación no válido.' });
-        }
-
-        (req as any).user = {
-            id: 1, // Mock ID
-            tenant_id: tenant_slug, // El tenant_id (slug) del usuario autenticado
-            role: role as any,
-        };
-
-        if (req.user?.role === 'client') {
-            return res.status(403).json({ message: 'Acceso denegado. Los clientes no pueden acceder a la gestión de personal.' });
-        }
-
-    } catch (e) {
-        return res.status(401).json({ message: 'Token inválido o expirado.' });
-    }
-
-    next();
-};
-
-// 🛡️ MIDDLEWARE DE AUTORIZACIÓN MULTI-INQUILINO (ADAPTADO)
-const ensureTenantAccess = async (req: StaffRequest, res: Response, next: NextFunction) => {
-    const requestedTenantSlug = req.tenantId; // Obtenido del subdominio/header
-    const authenticatedTenantSlug = req.user?.tenant_id;
-
-    if (!requestedTenantSlug) {
-        return res.status(400).json({ message: 'El ID de inquilino (slug) no se encontró en la solicitud.' });
-    }
-
-    // 1. Obtener información del inquilino solicitado a partir del SLUG
-    const tenantInfo = await getTenantInfoBySlug(requestedTenantSlug);
-
-    if (tenantInfo === null) {
-        return res.status(404).json({ message: `Inquilino con ID ${requestedTenantSlug} no encontrado.` });
-    }
-
-    req.resolvedTenant = tenantInfo; // Almacenamos la info resuelta
-
-    // 2. Comprobación de que el usuario autenticado pertenece al inquilino solicitado
-    if (!req.user || authenticatedTenantSlug !== requestedTenantSlug) {
-        return res.status(403).json({
-            message: 'Acceso denegado. No tiene permisos para acceder a los recursos de este inquilino.'
-        });
-    }
-
-    next();
-};
-
-// 🧑‍💻 MIDDLEWARE DE AUTORIZACIÓN DE ROL (NO CAMBIA)
-const isAllowedToManageStaff = (req: StaffRequest, res: Response, next: NextFunction) => {
-    if (req.user?.role !== 'admin') {
-        return res.status(403).json({ message: 'Acceso denegado. Solo administradores pueden gestionar personal.' });
-    }
-    next();
-};
+// 🔐 Autenticación y control de inquilino: capa compartida (authMiddleware).
+// Los clientes nunca acceden a la gestión de personal (requireStaff).
 // -----------------------------------------------------------------------------
 
 // 🎯 1. RUTA GET para obtener la lista de personal
-router.get('/', verifyToken, ensureTenantAccess, async (req: StaffRequest, res: Response) => {
+router.get('/', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.view'), async (req: StaffRequest, res: Response) => {
     // Usamos el ID numérico y el slug resueltos
     const { id: tenantDbId, slug: tenantSlug } = req.resolvedTenant!;
 
     try {
         const [staff] = await pool.execute<StaffRow[]>(
-            `SELECT id, email, name, is_admin, role 
+            `SELECT id, email, name, is_admin, role, status 
              FROM staff 
              WHERE tenant_id = ?`,
             [tenantDbId] // Buscar por ID numérico en la DB
         );
+        const [assignments] = await pool.execute<RowDataPacket[]>(
+            `SELECT sb.staff_id, sb.branch_id FROM staff_branches sb
+             JOIN branches b ON sb.branch_id = b.id
+             WHERE b.tenant_id = ?`,
+            [tenantDbId]
+        );
 
         res.status(200).json({
-            message: 'Lista de personal obtenida exitosamente',
+            ...apiMessage('STAFF_LISTED'),
             users: staff.map(s => ({
                 id: s.id,
                 tenant_id: tenantSlug, // Devolvemos el slug
@@ -142,93 +76,206 @@ router.get('/', verifyToken, ensureTenantAccess, async (req: StaffRequest, res:
                 name: s.name,
                 is_admin: s.is_admin,
                 role: s.role,
+                status: s.status,
+                branchIds: assignments.filter(row => row.staff_id === s.id).map(row => row.branch_id),
             }))
         });
 
     } catch (error) {
         console.error("Error al obtener la lista de personal:", error);
-        res.status(500).json({ message: 'Error del servidor al obtener la lista de personal.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA GET para ver las cuentas de personal bloqueadas por intentos fallidos
+// (GET /api/staff/lockouts)
+router.get('/lockouts', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), async (req: StaffRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const lockouts = await listLockedAccounts(tenantDbId, 'staff');
+        res.status(200).json({ lockouts });
+    } catch (error) {
+        console.error("Error al obtener cuentas bloqueadas:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA DELETE para desbloquear una cuenta de personal (DELETE /api/staff/lockouts/:email)
+router.delete('/lockouts/:email', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), async (req: AuthRequest<{ email: string }>, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { email } = req.params;
+
+    try {
+        const unlocked = await unlockAccount(tenantDbId, 'staff', email, { staffId: req.user!.id, ip: getClientIp(req) });
+        if (!unlocked) {
+            return res.status(404).json(apiMessage('LOGIN_BLOCKS_NOT_FOUND', { email }));
+        }
+        await recordAudit(req, { action: 'staff.unlock', entityType: 'login_lockout', entityId: email });
+        res.status(200).json(apiMessage('ACCOUNT_UNLOCKED', { email }));
+    } catch (error) {
+        console.error("Error al desbloquear la cuenta:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
-// 🎯 2. RUTA POST para crear nuevo personal (Doctor/Recepcionista/Admin)
-router.post('/', verifyToken, ensureTenantAccess, isAllowedToManageStaff, async (req: StaffRequest, res: Response) => {
-    const { email, password, name, role }: any = req.body;
+// 🎯 2. RUTA POST para invitar nuevo personal (Doctor/Recepcionista/Admin)
+// El administrador no elige la contraseña: se crea una cuenta pendiente y el invitado
+// la define desde el enlace del correo (POST /api/auth/admin/accept-invite).
+// Las invitaciones pendientes cuentan para el límite de personal del plan.
+router.post('/', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), enforcePlanLimit('staff'), async (req: StaffRequest, res: Response) => {
+    const { email, name, role }: StaffInviteBody = req.body;
     // Usamos el tenant resuelto
     const { id: tenantDbId, slug: tenantSlug } = req.resolvedTenant!;
 
-    if (!email || !password || !name || !role) {
-        return res.status(400).json({ message: 'Faltan campos obligatorios.' });
+    if (!email || !name || !role) {
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'email, name, role' }));
     }
     if (!['doctor', 'receptionist', 'admin'].includes(role)) {
-        return res.status(400).json({ message: 'Rol de personal no válido.' });
+        return res.status(400).json(apiMessage('INVALID_STAFF_ROLE'));
     }
 
     const connection = await pool.getConnection();
+    let staffId: number;
     try {
         await connection.beginTransaction();
 
-        // 1. Verificar si el email ya existe en la tabla `staff` o `clients`
-        const [existingStaff] = await connection.execute<RowDataPacket[]>(
-            'SELECT id FROM staff WHERE email = ?',
-            [email]
-        );
-        const [existingClient] = await connection.execute<RowDataPacket[]>(
-            'SELECT id FROM clients WHERE email = ?',
-            [email]
-        );
-        if (existingStaff.length > 0 || existingClient.length > 0) {
+        // 1. Verificar si el email ya existe en el personal o los clientes de esta clínica
+        const emailOwner = await findEmailOwnerInTenant(tenantDbId, email, connection);
+        if (emailOwner) {
             await connection.rollback();
-            return res.status(409).json({ message: `El email '${email}' ya está registrado.` });
+            return res.status(409).json(apiMessage(emailOwner === 'client' ? 'EMAIL_BELONGS_TO_CLIENT' : 'EMAIL_ALREADY_REGISTERED', { email }));
         }
 
-
-        const saltRounds = process.env.SALT_ROUNDS ? parseInt(process.env.SALT_ROUNDS) : 10;
-        const hashedPassword = await bcrypt.hash(password, saltRounds);
-
         const is_admin = (role === 'admin');
 
-        // Insertar el nuevo personal en la tabla `staff`
+        // Insertar el nuevo personal como pendiente (sin contraseña)
         const [userResult] = await connection.execute<ResultSetHeader>(
-            `INSERT INTO staff (tenant_id, email, password, name, is_admin, role)
-             VALUES (?, ?, ?, ?, ?, ?)`,
-            [tenantDbId, email, hashedPassword, name, is_admin, role]
+            `INSERT INTO staff (tenant_id, email, password, name, is_admin, role, status)
+             VALUES (?, ?, NULL, ?, ?, ?, 'invited')`,
+            [tenantDbId, email, name, is_admin, role]
         );
+        staffId = userResult.insertId;
 
         await connection.commit();
 
+    } catch (error) {
+        await connection.rollback();
+        console.error("Error al crear el personal:", error);
+        return res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    } finally {
+        connection.release();
+    }
+
+    try {
+        const frontendUrl = await getFrontendBaseUrl(req.resolvedTenant!);
+        const invitationExpiresAt = await sendStaffInvitation(tenantDbId, { id: staffId, email, name, role }, req.user!.id,
+            (token) => `${frontendUrl}/admin/accept-invite?token=${token}`);
+
+        await recordAudit(req, {
+            action: 'staff.invite', entityType: 'staff', entityId: staffId,
+            after: { email, name, role, status: 'invited' }
+        });
+
         res.status(201).json({
-            message: `Personal ${name} creado exitosamente como ${role}!`,
+            ...apiMessage('INVITATION_SENT', { email, role }),
             user: {
-                id: userResult.insertId,
+                id: staffId,
                 email,
                 name,
                 role,
-                is_admin,
+                is_admin: role === 'admin',
+                status: 'invited',
                 tenant_id: tenantSlug
-            }
+            },
+            invitationExpiresAt
         });
+    } catch (error) {
+        // La cuenta pendiente queda creada: el administrador puede reenviar la invitación
+        console.error("Error al enviar la invitación:", error);
+        res.status(500).json(apiMessage('STAFF_INVITATION_NOT_SENT'));
+    }
+});
+
+// 🎯 RUTA GET para ver las invitaciones pendientes (GET /api/staff/invitations)
+router.get('/invitations', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), async (req: StaffRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
 
+    try {
+        const invitations = await listStaffInvitations(tenantDbId);
+        res.status(200).json({ invitations });
     } catch (error) {
-        await connection.rollback();
-        console.error("Error al crear el personal:", error);
-        res.status(500).json({ message: 'Error del servidor al crear el personal.' });
-    } finally {
-        connection.release();
+        console.error("Error al obtener las invitaciones:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA POST para reenviar una invitación con un enlace nuevo
+// (POST /api/staff/invitations/:staffId/resend)
+router.post('/invitations/:staffId/resend', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), async (req: StaffRequest, res: Response) => {
+    const { staffId } = req.params;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const [rows] = await pool.execute<StaffRow[]>(
+            `SELECT id, email, name, role FROM staff WHERE id = ? AND tenant_id = ? AND status = 'invited'`,
+            [staffId, tenantDbId]
+        );
+
+        if (rows.length === 0) {
+            return res.status(404).json(apiMessage('NO_PENDING_INVITATION', { staffId }));
+        }
+
+        const { id, email, name, role } = rows[0];
+        const frontendUrl = await getFrontendBaseUrl(req.resolvedTenant!);
+        const invitationExpiresAt = await sendStaffInvitation(tenantDbId, { id, email, name, role }, req.user!.id,
+            (token) => `${frontendUrl}/admin/accept-invite?token=${token}`);
+
+        await recordAudit(req, { action: 'staff.invite_resend', entityType: 'staff', entityId: id });
+
+        res.status(200).json({ ...apiMessage('INVITATION_RESENT', { email }), invitationExpiresAt });
+    } catch (error) {
+        console.error("Error al reenviar la invitación:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 🎯 RUTA DELETE para revocar una invitación (elimina la cuenta pendiente)
+// (DELETE /api/staff/invitations/:staffId)
+router.delete('/invitations/:staffId', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), async (req: StaffRequest, res: Response) => {
+    const { staffId } = req.params;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const revoked = await revokeStaffInvitation(tenantDbId, Number(staffId));
+        if (!revoked) {
+            return res.status(404).json(apiMessage('NO_PENDING_INVITATION', { staffId }));
+        }
+
+        const { email, name, role } = revoked;
+        await recordAudit(req, {
+            action: 'staff.invite_revoke', entityType: 'staff', entityId: staffId,
+            before: { email, name, role, status: 'invited' }
+        });
+
+        res.status(200).json(apiMessage('INVITATION_REVOKED', { email }));
+    } catch (error) {
+        console.error("Error al revocar la invitación:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
 // 🎯 3. RUTA PUT para edición (PUT /api/staff/:staffId) - Corrección al problema de la consulta
-router.put('/:staffId', verifyToken, ensureTenantAccess, isAllowedToManageStaff, async (req: StaffRequest, res: Response) => {
+router.put('/:staffId', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), async (req: StaffRequest, res: Response) => {
     const { staffId } = req.params;
     const { name, role, password }: any = req.body;
     const { id: tenantDbId } = req.resolvedTenant!;
 
     if (!name || !role) {
-        return res.status(400).json({ message: 'Faltan campos obligatorios: nombre y rol.' });
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'name, role' }));
     }
     if (!['doctor', 'receptionist', 'admin'].includes(role)) {
-        return res.status(400).json({ message: 'Rol de personal no válido.' });
+        return res.status(400).json(apiMessage('INVALID_STAFF_ROLE'));
     }
 
     const is_admin = (role === 'admin');
@@ -250,68 +297,160 @@ router.put('/:staffId', verifyToken, ensureTenantAccess, isAllowedToManageStaff,
     const updateQuery = `UPDATE staff SET ${updateFields.join(', ')} WHERE id = ? AND tenant_id = ?`;
 
     try {
-        const [result] = await pool.execute<ResultSetHeader>(
+        // Rol actual, para saber si hay que invalidar sus sesiones
+        const [currentRows] = await pool.execute<StaffRow[]>(
+            'SELECT id, name, role FROM staff WHERE id = ? AND tenant_id = ?',
+            [staffId, tenantDbId]
+        );
+
+        if (currentRows.length === 0) {
+            return res.status(404).json(apiMessage('STAFF_NOT_FOUND', { staffId }));
+        }
+
+        await pool.execute<ResultSetHeader>(
             updateQuery,
             updateValues
         );
 
-        if (result.affectedRows === 0) {
-            return res.status(404).json({ message: `Personal con ID ${staffId} no encontrado en este inquilino.` });
+        // 🔐 Un cambio de contraseña o de rol cierra todas sus sesiones activas
+        let sessionsRevoked = 0;
+        if (password || currentRows[0].role !== role) {
+            sessionsRevoked = await revokeAllSessions({ tenantDbId, userType: 'staff', userId: Number(staffId) });
         }
 
-        res.status(200).json({ message: 'Personal actualizado exitosamente.' });
+        // La contraseña nunca se guarda en la bitácora: solo se deja constancia del cambio
+        await recordAudit(req, {
+            action: 'staff.update', entityType: 'staff', entityId: staffId,
+            before: { name: currentRows[0].name, role: currentRows[0].role },
+            after: { name, role, ...(password ? { password: '(cambiada)' } : {}) }
+        });
+
+        res.status(200).json({ ...apiMessage('STAFF_UPDATED'), sessionsRevoked });
     } catch (error) {
         console.error("Error al actualizar personal:", error);
-        res.status(500).json({ message: 'Error del servidor al actualizar personal.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
 
-// 🎯 4. RUTA DELETE para eliminación (DELETE /api/staff/:staffId)
-router.delete('/:staffId', verifyToken, ensureTenantAccess, isAllowedToManageStaff, async (req: StaffRequest, res: Response) => {
-    const staffId = req.params.staffId;
-    // 🔑 Usamos el ID numérico del tenant resuelto para la consulta
+// 🎯 4. RUTA POST para cerrar todas las sesiones de un miembro del personal
+// (POST /api/staff/:staffId/logout-all)
+router.post('/:staffId/logout-all', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), async (req: StaffRequest, res: Response) => {
+    const { staffId } = req.params;
     const { id: tenantDbId } = req.resolvedTenant!;
 
     try {
-        const [result] = await pool.execute<ResultSetHeader>(
-            'DELETE FROM staff WHERE id = ? AND tenant_id = ?',
-            [staffId, tenantDbId] // Se asegura que el staff a eliminar pertenece al tenant del host
+        const [rows] = await pool.execute<StaffRow[]>(
+            'SELECT id FROM staff WHERE id = ? AND tenant_id = ?',
+            [staffId, tenantDbId]
         );
 
-        if (result.affectedRows === 0) {
-            return res.status(404).json({ message: `Personal con ID ${staffId} no encontrado en este inquilino.` });
+        if (rows.length === 0) {
+            return res.status(404).json(apiMessage('STAFF_NOT_FOUND', { staffId }));
         }
 
-        res.status(200).json({ message: 'Personal eliminado exitosamente.' });
+        const sessionsRevoked = await revokeAllSessions({ tenantDbId, userType: 'staff', userId: rows[0].id });
+        await recordAudit(req, { action: 'staff.logout_all', entityType: 'staff', entityId: rows[0].id, after: { sessionsRevoked } });
+
+        res.status(200).json({ ...apiMessage('STAFF_SESSIONS_REVOKED'), sessionsRevoked });
     } catch (error) {
-        console.error("Error al eliminar personal:", error);
-        res.status(500).json({ message: 'Error del servidor al eliminar personal.' });
+        console.error("Error al cerrar las sesiones del personal:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
 
-
-// 🎯 RUTA DELETE para eliminación
-router.delete('/:staffId', verifyToken, ensureTenantAccess, isAllowedToManageStaff, async (req: StaffRequest, res: Response) => {
-    // Usamos el ID numérico del tenant resuelto para la consulta
+// 🎯 RUTA PUT para asignar sucursales a un miembro del personal
+// (PUT /api/staff/:staffId/branches)  { branchIds: [1, 2] } — reemplaza la asignación anterior
+router.put('/:staffId/branches', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), async (req: StaffRequest, res: Response) => {
+    const { staffId } = req.params;
     const { id: tenantDbId } = req.resolvedTenant!;
+    const { branchIds } = req.body;
+
+    if (!Array.isArray(branchIds) || branchIds.some(id => !Number.isInteger(id))) {
+        return res.status(400).json(apiMessage('INVALID_BRANCH_IDS'));
+    }
+    const uniqueBranchIds = Array.from(new Set<number>(branchIds));
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [staffRows] = await connection.execute<StaffRow[]>(
+            'SELECT id FROM staff WHERE id = ? AND tenant_id = ?',
+            [staffId, tenantDbId]
+        );
+        if (staffRows.length === 0) {
+            await connection.rollback();
+            return res.status(404).json(apiMessage('STAFF_NOT_FOUND', { staffId }));
+        }
+
+        const [branchRows] = await connection.execute<RowDataPacket[]>(
+            'SELECT id FROM branches WHERE tenant_id = ?',
+            [tenantDbId]
+        );
+        const tenantBranchIds = branchRows.map(row => row.id as number);
+        const unknownId = uniqueBranchIds.find(id => !tenantBranchIds.includes(id));
+        if (unknownId !== undefined) {
+            await connection.rollback();
+            return res.status(404).json(apiMessage('BRANCH_NOT_FOUND', { branchId: unknownId }));
+        }
+
+        const [previousRows] = await connection.execute<RowDataPacket[]>(
+            'SELECT branch_id FROM staff_branches WHERE staff_id = ? ORDER BY branch_id',
+            [staffId]
+        );
+        await connection.execute('DELETE FROM staff_branches WHERE staff_id = ?', [staffId]);
+        for (const branchId of uniqueBranchIds) {
+            await connection.execute('INSERT INTO staff_branches (staff_id, branch_id) VALUES (?, ?)', [staffId, branchId]);
+        }
+
+        await connection.commit();
+        await recordAudit(req, {
+            action: 'staff.branches_update', entityType: 'staff', entityId: staffId,
+            before: { branchIds: previousRows.map(row => row.branch_id) },
+            after: { branchIds: uniqueBranchIds.sort((a, b) => a - b) }
+        });
+
+        res.status(200).json({ ...apiMessage('STAFF_BRANCHES_UPDATED'), branchIds: uniqueBranchIds });
+    } catch (error) {
+        await connection.rollback();
+        console.error("Error al asignar sucursales al personal:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    } finally {
+        connection.release();
+    }
+});
+
+
+// 🎯 5. RUTA DELETE para eliminación (DELETE /api/staff/:staffId)
+router.delete('/:staffId', verifyToken, requireStaff, ensureTenantAccess, requirePermission('staff.manage'), async (req: StaffRequest, res: Response) => {
     const staffId = req.params.staffId;
+    // 🔑 Usamos el ID numérico del tenant resuelto para la consulta
+    const { id: tenantDbId } = req.resolvedTenant!;
 
     try {
+        const [previousRows] = await pool.execute<StaffRow[]>(
+            'SELECT email, name, role FROM staff WHERE id = ? AND tenant_id = ?',
+            [staffId, tenantDbId]
+        );
+
         const [result] = await pool.execute<ResultSetHeader>(
             'DELETE FROM staff WHERE id = ? AND tenant_id = ?',
-            [staffId, tenantDbId] // Se asegura que el staff a eliminar pertenece al tenant de la URL
+            [staffId, tenantDbId] // Se asegura que el staff a eliminar pertenece al tenant del host
         );
 
         if (result.affectedRows === 0) {
-            return res.status(404).json({ message: `Personal con ID ${staffId} no encontrado en este inquilino.` });
+            return res.status(404).json(apiMessage('STAFF_NOT_FOUND', { staffId }));
         }
 
-        res.status(200).json({ message: 'Personal eliminado exitosamente.' });
+        const { email, name, role } = previousRows[0];
+        await recordAudit(req, { action: 'staff.delete', entityType: 'staff', entityId: staffId, before: { email, name, role } });
+
+        res.status(200).json(apiMessage('STAFF_DELETED'));
     } catch (error) {
         console.error("Error al eliminar personal:", error);
-        res.status(500).json({ message: 'Error del servidor al eliminar personal.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
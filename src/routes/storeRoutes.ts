@@ -1,31 +1,18 @@
 // src/routes/storeRoutes.ts
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Response } from 'express';
 import pool from '../db';
 import { RowDataPacket } from 'mysql2';
 import { ParamsDictionary } from 'express-serve-static-core';
+import { AuthRequest, resolveTenantInfo } from '../middleware/authMiddleware';
+import { listBranches } from '../utils/branches';
+import { apiMessage } from '../utils/i18n';
 
 const router = Router();
 
 // --- INTERFACES ---
-interface StoreRequest<P extends ParamsDictionary> extends Request<P> {
-    tenantId?: string; // Inyectado por resolveTenant
-    resolvedTenantId?: number; // Lo añadiremos nosotros
-}
-
-// --- HELPERS (Como los que usas en staffRoutes.ts) ---
-const getTenantNumericId = async (tenantSlug: string): Promise<number | null> => {
-    try {
-        const [tenantRows] = await pool.execute<RowDataPacket[]>(
-            'SELECT id FROM tenants WHERE tenant_id = ?',
-            [tenantSlug]
-        );
-        return tenantRows.length > 0 ? tenantRows[0].id : null;
-    } catch (error) {
-        console.error("Error al obtener ID numérico del tenant:", error);
-        return null;
-    }
-};
+type StoreRequest<P extends ParamsDictionary> = AuthRequest<P>;
 
+// --- HELPERS ---
 const getDisplayImageUrl = (path: string, hostname: string) => {
     if (!path) return null;
     // Aseguramos que la URL se construya con el puerto 4000
@@ -33,32 +20,16 @@ const getDisplayImageUrl = (path: string, hostname: string) => {
     return path.startsWith('http') ? path : `http://${host}:4000${path}`;
 };
 
-// --- MIDDLEWARE: Resolver ID numérico del Tenant ---
-// Este middleware es público, no valida token, solo traduce el slug (req.tenantId)
-// a un ID numérico (req.resolvedTenantId) para usar en las consultas.
-const resolveTenantDbId = async (req: StoreRequest<any>, res: Response, next: NextFunction) => {
-    const tenantSlug = req.tenantId;
-
-    if (!tenantSlug) {
-        return res.status(400).json({ message: 'El ID de inquilino (slug) no se encontró en la solicitud.' });
-    }
-
-    const tenantNumericId = await getTenantNumericId(tenantSlug);
-
-    if (tenantNumericId === null) {
-        return res.status(404).json({ message: `Inquilino con ID ${tenantSlug} no encontrado.` });
-    }
-
-    req.resolvedTenantId = tenantNumericId; // Inyectamos el ID numérico
-    next();
-};
+// --- MIDDLEWARE ---
+// Las rutas son públicas: resolveTenantInfo (authMiddleware) solo traduce el
+// slug (req.tenantId) a req.resolvedTenant para usar en las consultas.
 
 // -----------------------------------------------------------------------------
 // 🛍️ 1. OBTENER TODAS LAS CATEGORÍAS (Público)
 // GET /api/store/categories
 // -----------------------------------------------------------------------------
-router.get('/categories', resolveTenantDbId, async (req: StoreRequest<any>, res: Response) => {
-    const tenantId = req.resolvedTenantId!; // ID numérico del tenant
+router.get('/categories', resolveTenantInfo, async (req: StoreRequest<any>, res: Response) => {
+    const { id: tenantId } = req.resolvedTenant!; // ID numérico del tenant
 
     try {
         const query = `
@@ -74,29 +45,52 @@ router.get('/categories', resolveTenantDbId, async (req: StoreRequest<any>, res:
 
     } catch (error) {
         console.error("Error al obtener categorías:", error);
-        res.status(500).json({ message: 'Error del servidor al obtener categorías.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// -----------------------------------------------------------------------------
+// 🏬 OBTENER LAS SUCURSALES ACTIVAS (Público)
+// GET /api/store/branches
+// Para elegir dónde recoger un pedido o agendar una cita (schedule null = horario de la clínica).
+// -----------------------------------------------------------------------------
+router.get('/branches', resolveTenantInfo, async (req: StoreRequest<any>, res: Response) => {
+    const { id: tenantId } = req.resolvedTenant!;
+
+    try {
+        res.status(200).json({ branches: await listBranches(tenantId, { onlyActive: true }) });
+    } catch (error) {
+        console.error("Error al obtener sucursales:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
 // -----------------------------------------------------------------------------
 // 📦 2. OBTENER PRODUCTOS (Público, con filtros)
-// GET /api/store/products?category=1&search=query
+// GET /api/store/products?category=1&search=query&branchId=2
+// Con branchId, el stock es el de esa sucursal (para productos con stock por sucursal).
 // -----------------------------------------------------------------------------
-router.get('/products', resolveTenantDbId, async (req: StoreRequest<any>, res: Response) => {
-    const tenantId = req.resolvedTenantId!; // ID numérico del tenant
-    const { category, search } = req.query; // Filtros desde la URL
+router.get('/products', resolveTenantInfo, async (req: StoreRequest<any>, res: Response) => {
+    const { id: tenantId } = req.resolvedTenant!; // ID numérico del tenant
+    const { category, search, branchId } = req.query; // Filtros desde la URL
 
     try {
+        // Sin stock por sucursal (o sin branchId) se usa el stock general del producto
+        const stockExpression = branchId
+            ? `CASE WHEN EXISTS (SELECT 1 FROM branch_stock t WHERE t.product_id = p.id)
+                    THEN COALESCE(bs.stock, 0) ELSE p.stock END`
+            : 'p.stock';
         let query = `
             SELECT 
-                p.id, p.category_id, p.name, p.description, p.price, p.stock,
+                p.id, p.category_id, p.name, p.description, p.price, ${stockExpression} AS stock,
                 i.url AS image
             FROM products p
             LEFT JOIN product_images pi ON p.id = pi.product_id AND pi.is_primary = TRUE
             LEFT JOIN images i ON pi.image_id = i.id
-            WHERE p.tenant_id = ? AND p.is_available = TRUE AND p.stock > 0
+            LEFT JOIN branch_stock bs ON bs.product_id = p.id AND bs.branch_id = ?
+            WHERE p.tenant_id = ? AND p.is_available = TRUE AND ${stockExpression} > 0
         `;
-        const queryParams: (string | number)[] = [tenantId];
+        const queryParams: (string | number)[] = [Number(branchId) || 0, tenantId];
 
         // Aplicar filtro de categoría
         if (category && typeof category === 'string' && category !== 'all') {
@@ -129,7 +123,7 @@ router.get('/products', resolveTenantDbId, async (req: StoreRequest<any>, res: R
 
     } catch (error) {
         console.error("Error al obtener productos:", error);
-        res.status(500).json({ message: 'Error del servidor al obtener productos.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
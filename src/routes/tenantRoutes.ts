@@ -1,8 +1,22 @@
 // src/routes/tenantRoutes.ts (Corregido y Asegurado para Subdominio)
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Response, NextFunction } from 'express';
 import pool from '../db';
 import { RowDataPacket, OkPacket } from 'mysql2';
 import { ParamsDictionary } from 'express-serve-static-core';
+import { AuthRequest, optionalToken, verifyToken, ensureTenantAccess, requirePermission } from '../middleware/authMiddleware';
+import { recordAudit } from '../utils/auditLog';
+import upload from '../middleware/uploadMiddleware';
+import { enforceStorageLimit } from '../middleware/planLimits';
+import { buildTenantExport, buildTenantArchive } from '../utils/tenantExport';
+import { getTenantUsage } from '../utils/planLimits';
+import { invalidateTenant } from '../utils/tenantCache';
+import { DEFAULT_TENANT_SETTINGS, getTenantSettings, parseSettingsUpdate, saveTenantSettings } from '../utils/tenantSettings';
+import { getBusinessHours, parseWeeklyHours, parseClosures, saveBusinessHours, formatSchedule } from '../utils/businessHours';
+import {
+    SocialLinks, isHexColor, parseSocialLinks, isImageFile,
+    deleteUploadedAsset, discardUpload, toAbsoluteAssetUrl
+} from '../utils/branding';
+import { ApiMessage, apiMessage } from '../utils/i18n';
 
 const router = Router();
 
@@ -11,15 +25,6 @@ interface TenantRouteParams extends ParamsDictionary {
     tenantId: string;
 }
 
-interface TenantRequest<P = TenantRouteParams> extends Request<P> {
-    tenantId?: string; // El slug del subdominio/header inyectado por resolveTenant (CRUCIAL)
-    user?: {
-        id: number;
-        tenant_id: string; // Slug del inquilino autenticado (e.g., 'chavez')
-        role: 'admin' | 'doctor' | 'receptionist' | 'client';
-    };
-}
-
 // Interfaz para la respuesta del inquilino (tenant)
 interface Tenant extends RowDataPacket {
     id: number;
@@ -32,148 +37,396 @@ interface Tenant extends RowDataPacket {
     logo_url: string;
     primary_color: string;
     secondary_color: string;
+    favicon_url: string | null;
+    social_links: string | SocialLinks | null;
 }
 
-// -----------------------------------------------------------------------------
-// 🔐 MIDDLEWARE DE AUTENTICACIÓN (Reutilizado para inyectar req.user)
-const verifyToken = (req: TenantRequest, res: Response, next: NextFunction) => {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
+const parseStoredSocialLinks = (value: string | SocialLinks | null): SocialLinks =>
+    (typeof value === 'string' ? JSON.parse(value) : value) || {};
 
-    if (!token) {
-        // Permitimos pasar a la validación de inquilino si no hay token para el /profile GET
-        if (req.method === 'GET' && req.route.path === '/profile') return next();
-        return res.status(401).json({ message: 'No autenticado. Token no proporcionado.' });
+// -----------------------------------------------------------------------------
+// 🛡️ Si la ruta PUT tiene un :tenantId en los params (e.g., /api/tenants/chavez), validamos que sea consistente.
+const ensureTenantParamMatches = (req: AuthRequest<TenantRouteParams>, res: Response, next: NextFunction) => {
+    if (req.params.tenantId !== req.tenantId) {
+        return res.status(403).json(apiMessage('TENANT_MISMATCH'));
     }
+    next();
+};
+
+// -----------------------------------------------------------------------------
+
+
+// 🎯 RUTA para obtener el perfil del inquilino (GET /api/tenants/profile)
+// Es público: el token es opcional
+router.get('/profile', optionalToken, async (req: AuthRequest, res: Response) => {
+    // El registro completo lo adjunta resolveTenant desde la caché: aquí no se consulta la tabla tenants
+    const tenantData = req.resolvedTenant!;
 
     try {
-        const [tenant_slug, role] = token.split(':');
+        // El texto del horario se genera a partir del horario estructurado (si la clínica lo cargó)
+        const businessHours = await getBusinessHours(tenantData.id);
+        const settings = await getTenantSettings(tenantData.id);
 
-        if (!tenant_slug || !['admin', 'doctor', 'receptionist', 'client'].includes(role)) {
-            return res.status(401).json({ message: 'Token de simulación no válido.' });
-        }
+        res.status(200).json({
+            ...apiMessage('TENANT_PROFILE_RETRIEVED'),
+            tenant: {
+                id: tenantData.id,
+                tenantId: tenantData.slug, // Slug
+                name: tenantData.name,
+                phone: tenantData.phone,
+                email: tenantData.email,
+                address: tenantData.address,
+                schedule: businessHours.configured ? formatSchedule(businessHours.weekly) : tenantData.schedule,
+                businessHours: businessHours.configured ? businessHours.weekly : null,
+                // La URL estática necesita el hostname
+                logoUrl: toAbsoluteAssetUrl(tenantData.logoUrl, req.hostname),
+                primaryColor: tenantData.primaryColor,
+                secondaryColor: tenantData.secondaryColor,
+                faviconUrl: toAbsoluteAssetUrl(tenantData.faviconUrl, req.hostname),
+                socialLinks: tenantData.socialLinks,
+                // Reglas que el frontend necesita para formatear precios y limitar los calendarios
+                currency: settings.currency,
+                timezone: settings.timezone,
+                pickupWindowDays: settings.pickupWindowDays,
+                bookingLeadTimeHours: settings.bookingLeadTimeHours,
+                locale: settings.locale,
+            }
+        });
+    } catch (error) {
+        console.error("Error al obtener el perfil del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
 
-        (req as any).user = {
-            id: 1,
-            tenant_id: tenant_slug,
-            role: role as any,
-        };
 
-    } catch (e) {
-        return res.status(401).json({ message: 'Token inválido o expirado.' });
+// 📦 RUTA GET para exportar los datos de la clínica en JSON (GET /api/tenants/export)
+// Es de solo lectura y sigue disponible cuando la clínica está suspendida.
+router.get('/export', verifyToken, ensureTenantAccess, requirePermission('tenant.manage'), async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId, slug: tenantSlug } = req.resolvedTenant!;
+
+    try {
+        const data = await buildTenantExport(tenantDbId);
+        await recordAudit(req, { action: 'tenant.export', entityType: 'tenant', entityId: tenantDbId });
+
+        res.setHeader('Content-Disposition', `attachment; filename="${tenantSlug}-export.json"`);
+        res.status(200).json(data);
+    } catch (error) {
+        console.error("Error al exportar los datos del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
+});
 
-    next();
-};
 
-// 🛡️ MIDDLEWARE DE AUTORIZACIÓN MULTI-INQUILINO (CRUCIAL)
-const ensureTenantAccessBySlug = (req: TenantRequest<any>, res: Response, next: NextFunction) => {
-    const requestedTenantSlug = req.tenantId; // Desde el middleware `resolveTenant` (header/host)
-    const authenticatedTenantSlug = req.user?.tenant_id;
+// 🗜️ RUTA GET para descargar el respaldo completo con imágenes (GET /api/tenants/export/archive)
+// Sin hashes de contraseñas: al importarlo, el personal queda invitado y los clientes deben restablecer su clave.
+router.get('/export/archive', verifyToken, ensureTenantAccess, requirePermission('tenant.manage'), async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId, slug: tenantSlug } = req.resolvedTenant!;
 
-    // CASO 1: Acceso público a perfil (GET /profile sin autenticación)
-    if (req.method === 'GET' && req.route.path === '/profile' && !req.user) {
-        if (!requestedTenantSlug) {
-            return res.status(400).json({ message: 'Tenant ID is missing from the request URL or host.' });
-        }
-        return next();
+    try {
+        const archive = await buildTenantArchive(tenantDbId, false);
+        await recordAudit(req, { action: 'tenant.export_archive', entityType: 'tenant', entityId: tenantDbId });
+
+        res.setHeader('Content-Type', 'application/gzip');
+        res.setHeader('Content-Disposition', `attachment; filename="${tenantSlug}-respaldo.json.gz"`);
+        res.status(200).send(archive);
+    } catch (error) {
+        console.error("Error al generar el respaldo del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
+});
+
 
-    // CASO 2: Acceso que requiere autenticación (PUT /:tenantId o GET /profile con token)
-    if (!authenticatedTenantSlug || !requestedTenantSlug) {
-        return res.status(403).json({ message: 'Falta información de inquilino o usuario autenticado.' });
+// 📊 RUTA GET para el uso de la clínica frente a los límites de su plan (GET /api/tenants/usage)
+router.get('/usage', verifyToken, ensureTenantAccess, requirePermission('tenant.manage'), async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const summary = await getTenantUsage(tenantDbId);
+        res.status(200).json(summary);
+    } catch (error) {
+        console.error("Error al obtener el uso del plan:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
+});
 
-    // Comprobación de que el usuario autenticado pertenece al inquilino solicitado
-    if (authenticatedTenantSlug !== requestedTenantSlug) {
-        return res.status(403).json({
-            message: 'Acceso denegado. No tiene permisos para acceder a los recursos de este inquilino.'
+
+// 🕘 RUTA GET para el horario estructurado y los días de cierre (GET /api/tenants/business-hours)
+// Es público: lo usan los formularios de citas y pedidos para deshabilitar días y horas.
+router.get('/business-hours', async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const { configured, weekly, closures } = await getBusinessHours(tenantDbId);
+        res.status(200).json({
+            configured,
+            weekly,
+            closures,
+            schedule: configured ? formatSchedule(weekly) : null
         });
+    } catch (error) {
+        console.error("Error al obtener el horario del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+
+// 🕘 RUTA PUT para editar el horario (PUT /api/tenants/business-hours)
+// { weekly?: { monday: [{ opens: '09:00', closes: '13:00' }, { opens: '15:00', closes: '19:00' }], ... },
+//   closures?: [{ date: 'YYYY-MM-DD', reason?: string }] }
+// Cada parte enviada reemplaza la anterior; los días omitidos en 'weekly' quedan cerrados.
+router.put('/business-hours', verifyToken, ensureTenantAccess, requirePermission('tenant.manage'), async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+    const { weekly: rawWeekly, closures: rawClosures } = req.body;
+
+    if (rawWeekly === undefined && rawClosures === undefined) {
+        return res.status(400).json(apiMessage('BUSINESS_HOURS_REQUIRED'));
     }
 
-    // Si la ruta PUT tiene un :tenantId en los params (e.g., /api/tenants/chavez), validamos que sea consistente.
-    if (req.params.tenantId && req.params.tenantId !== requestedTenantSlug) {
-        return res.status(403).json({
-            message: 'Inconsistencia de inquilino. El recurso solicitado no coincide con su sesión.'
+    const { weekly, error: weeklyError } = rawWeekly !== undefined ? parseWeeklyHours(rawWeekly) : {};
+    if (weeklyError) {
+        return res.status(400).json(weeklyError);
+    }
+    const { closures, error: closuresError } = rawClosures !== undefined ? parseClosures(rawClosures) : {};
+    if (closuresError) {
+        return res.status(400).json(closuresError);
+    }
+
+    try {
+        const before = await getBusinessHours(tenantDbId);
+        await saveBusinessHours(tenantDbId, { weekly, closures });
+        invalidateTenant(req.resolvedTenant!.slug); // 'schedule' se regeneró
+        const after = await getBusinessHours(tenantDbId);
+
+        await recordAudit(req, {
+            action: 'tenant.business_hours.update', entityType: 'tenant', entityId: tenantDbId,
+            before: { weekly: before.weekly, closures: before.closures },
+            after: { weekly: after.weekly, closures: after.closures }
         });
+
+        res.status(200).json({
+            ...apiMessage('BUSINESS_HOURS_UPDATED'),
+            weekly: after.weekly,
+            closures: after.closures,
+            schedule: after.configured ? formatSchedule(after.weekly) : null
+        });
+    } catch (error) {
+        console.error("Error al actualizar el horario del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
+});
 
-    next();
-};
 
-// 🧑‍💻 MIDDLEWARE DE AUTORIZACIÓN DE ROL
-const isAdminStaff = (req: TenantRequest<any>, res: Response, next: NextFunction) => {
-    if (req.user?.role !== 'admin') {
-        return res.status(403).json({ message: 'Acceso denegado. Solo administradores pueden modificar el perfil del inquilino.' });
+// ⚙️ RUTA GET para la configuración operativa (GET /api/tenants/settings)
+// Devuelve la configuración efectiva y los valores por defecto (para mostrar qué se personalizó).
+router.get('/settings', verifyToken, ensureTenantAccess, requirePermission('tenant.manage'), async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        res.status(200).json({
+            settings: await getTenantSettings(tenantDbId),
+            defaults: DEFAULT_TENANT_SETTINGS
+        });
+    } catch (error) {
+        console.error("Error al obtener la configuración del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
-    next();
-};
+});
 
-// -----------------------------------------------------------------------------
 
+// ⚙️ RUTA PUT para la configuración operativa (PUT /api/tenants/settings)
+// { pickupWindowDays?, orderExpiryDays?, bookingLeadTimeHours?, currency?, timezone?, locale? }
+// Solo se actualizan las claves enviadas; null restablece el valor por defecto.
+// Debe declararse antes de '/:tenantId'.
+router.put('/settings', verifyToken, ensureTenantAccess, requirePermission('tenant.manage'), async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
 
-// 🎯 RUTA para obtener el perfil del inquilino (GET /api/tenants/profile)
-router.get('/profile', verifyToken, ensureTenantAccessBySlug, async (req: TenantRequest, res: Response) => {
-    // Usamos el slug inyectado por el middleware resolveTenant (subdominio)
-    const tenantSlug = req.tenantId;
+    const { changes, error: settingsError } = parseSettingsUpdate(req.body);
+    if (settingsError) {
+        return res.status(400).json(settingsError);
+    }
 
     try {
-        const [rows] = await pool.execute<Tenant[]>(
-            'SELECT id, tenant_id, name, phone, email, address, schedule, logo_url, primary_color, secondary_color FROM tenants WHERE tenant_id = ?',
-            [tenantSlug]
-        );
+        const before = await getTenantSettings(tenantDbId);
+        const after = await saveTenantSettings(tenantDbId, changes!);
+        invalidateTenant(req.resolvedTenant!.slug); // El idioma de la clínica viaja en la caché
 
-        if (rows.length === 0) {
-            return res.status(404).json({ message: `Tenant con ID ${tenantSlug} no encontrado` });
-        }
+        await recordAudit(req, { action: 'tenant.settings_update', entityType: 'tenant', entityId: tenantDbId, before: { ...before }, after: { ...after } });
 
-        const tenantData = rows[0];
+        res.status(200).json({ ...apiMessage('SETTINGS_UPDATED'), settings: after });
+    } catch (error) {
+        console.error("Error al actualizar la configuración del inquilino:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
 
-        // La URL estática necesita el hostname
-        const logoUrl = tenantData.logo_url.startsWith('http')
-            ? tenantData.logo_url
-            : `http://${req.hostname}:4000${tenantData.logo_url}`;
 
+// 🔐 RUTA PUT para la política de seguridad del inquilino (PUT /api/tenants/security)
+// Debe declararse antes de '/:tenantId'.
+router.put('/security', verifyToken, ensureTenantAccess, requirePermission('tenant.manage'), async (req: AuthRequest, res: Response) => {
+    const { requireAdmin2fa } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
 
-        res.status(200).json({
-            message: 'Perfil del inquilino obtenido exitosamente',
-            tenant: {
-                id: tenantData.id,
-                tenantId: tenantData.tenant_id, // Slug
-                name: tenantData.name,
-                phone: tenantData.phone,
-                email: tenantData.email,
-                address: tenantData.address,
-                schedule: tenantData.schedule,
-                logoUrl: logoUrl,
-                primaryColor: tenantData.primary_color,
-                secondaryColor: tenantData.secondary_color,
-            }
+    if (typeof requireAdmin2fa !== 'boolean') {
+        return res.status(400).json(apiMessage('INVALID_BOOLEAN_FIELD', { field: 'requireAdmin2fa' }));
+    }
+
+    try {
+        const [previousRows] = await pool.execute<RowDataPacket[]>('SELECT require_admin_2fa FROM tenants WHERE id = ?', [tenantDbId]);
+        await pool.execute('UPDATE tenants SET require_admin_2fa = ? WHERE id = ?', [requireAdmin2fa, tenantDbId]);
+
+        // Al exigir 2FA, los administradores sin 2FA deben volver a iniciar sesión (y enrolarse)
+        let sessionsRevoked = 0;
+        if (requireAdmin2fa) {
+            const [result] = await pool.execute<OkPacket>(
+                `UPDATE refresh_tokens rt
+                 JOIN staff s ON rt.user_type = 'staff' AND rt.user_id = s.id
+                 SET rt.revoked_at = NOW()
+                 WHERE rt.tenant_id = ? AND rt.revoked_at IS NULL AND s.role = 'admin' AND s.totp_enabled = FALSE`,
+                [tenantDbId]
+            );
+            sessionsRevoked = result.affectedRows;
+        }
+
+        await recordAudit(req, {
+            action: 'tenant.security_update', entityType: 'tenant', entityId: tenantDbId,
+            before: { require_admin_2fa: Boolean(previousRows[0]?.require_admin_2fa) },
+            after: { require_admin_2fa: requireAdmin2fa }
         });
+
+        res.status(200).json({ ...apiMessage('SECURITY_POLICY_UPDATED'), requireAdmin2fa, sessionsRevoked });
     } catch (error) {
-        console.error("Error al obtener el perfil del inquilino:", error);
-        res.status(500).json({ message: 'Error del servidor al obtener el perfil.' });
+        console.error("Error al actualizar la política de seguridad:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
 
+// 🎨 RUTA PUT para la marca del inquilino (PUT /api/tenants/branding)
+// multipart/form-data: logo y favicon (archivos, opcionales), primaryColor, secondaryColor,
+// socialLinks (JSON) y removeFavicon ('true'). Solo se actualiza lo que se envía.
+// Debe declararse antes de '/:tenantId'.
+router.put('/branding', verifyToken, ensureTenantAccess, requirePermission('tenant.manage'),
+    upload.fields([{ name: 'logo', maxCount: 1 }, { name: 'favicon', maxCount: 1 }]),
+    enforceStorageLimit,
+    async (req: AuthRequest, res: Response) => {
+        const { id: tenantDbId } = req.resolvedTenant!;
+        const { primaryColor, secondaryColor, socialLinks, removeFavicon } = req.body;
+        const files = (req.files || {}) as { [field: string]: Express.Multer.File[] };
+        const logo = files.logo?.[0];
+        const favicon = files.favicon?.[0];
+
+        const rejectWith = (error: ApiMessage) => {
+            discardUpload(logo);
+            discardUpload(favicon);
+            return res.status(400).json(error);
+        };
+
+        if ((logo && !isImageFile(logo)) || (favicon && !isImageFile(favicon))) {
+            return rejectWith(apiMessage('INVALID_IMAGE_FILES'));
+        }
+        if (primaryColor !== undefined && !isHexColor(primaryColor)) {
+            return rejectWith(apiMessage('INVALID_HEX_COLOR', { field: 'primaryColor', example: '#007bff' }));
+        }
+        if (secondaryColor !== undefined && !isHexColor(secondaryColor)) {
+            return rejectWith(apiMessage('INVALID_HEX_COLOR', { field: 'secondaryColor', example: '#6c757d' }));
+        }
+
+        let parsedSocialLinks: SocialLinks | undefined;
+        if (socialLinks !== undefined) {
+            const { links, error } = parseSocialLinks(socialLinks);
+            if (error) return rejectWith(error);
+            parsedSocialLinks = links;
+        }
+
+        const updates: Record<string, string | null> = {};
+        if (logo) updates.logo_url = `/uploads/${logo.filename}`;
+        if (favicon) updates.favicon_url = `/uploads/${favicon.filename}`;
+        else if (removeFavicon === 'true' || removeFavicon === true) updates.favicon_url = null;
+        if (primaryColor !== undefined) updates.primary_color = primaryColor;
+        if (secondaryColor !== undefined) updates.secondary_color = secondaryColor;
+        if (parsedSocialLinks !== undefined) updates.social_links = JSON.stringify(parsedSocialLinks);
+
+        const fields = Object.keys(updates);
+        if (fields.length === 0) {
+            return res.status(400).json(apiMessage('NO_BRANDING_CHANGES'));
+        }
+
+        try {
+            const [previousRows] = await pool.execute<Tenant[]>(
+                'SELECT logo_url, favicon_url, primary_color, secondary_color, social_links FROM tenants WHERE id = ?',
+                [tenantDbId]
+            );
+            const previous = previousRows[0];
+
+            await pool.execute(
+                `UPDATE tenants SET ${fields.map(field => `${field} = ?`).join(', ')} WHERE id = ?`,
+                [...fields.map(field => updates[field]), tenantDbId]
+            );
+            invalidateTenant(req.resolvedTenant!.slug);
+
+            // Los archivos reemplazados se borran una vez guardado el cambio
+            if ('logo_url' in updates) deleteUploadedAsset(previous.logo_url);
+            if ('favicon_url' in updates) deleteUploadedAsset(previous.favicon_url);
+
+            const before: Record<string, unknown> = {};
+            fields.forEach(field => {
+                before[field] = field === 'social_links'
+                    ? JSON.stringify(parseStoredSocialLinks(previous.social_links))
+                    : previous[field];
+            });
+            await recordAudit(req, { action: 'tenant.branding_update', entityType: 'tenant', entityId: tenantDbId, before, after: updates });
+
+            const [rows] = await pool.execute<Tenant[]>(
+                'SELECT logo_url, favicon_url, primary_color, secondary_color, social_links FROM tenants WHERE id = ?',
+                [tenantDbId]
+            );
+            const branding = rows[0];
+
+            res.status(200).json({
+                ...apiMessage('BRANDING_UPDATED'),
+                branding: {
+                    logoUrl: toAbsoluteAssetUrl(branding.logo_url, req.hostname),
+                    faviconUrl: toAbsoluteAssetUrl(branding.favicon_url, req.hostname),
+                    primaryColor: branding.primary_color,
+                    secondaryColor: branding.secondary_color,
+                    socialLinks: parseStoredSocialLinks(branding.social_links),
+                }
+            });
+        } catch (error) {
+            discardUpload(logo);
+            discardUpload(favicon);
+            console.error("Error al actualizar la marca del inquilino:", error);
+            res.status(500).json(apiMessage('INTERNAL_ERROR'));
+        }
+    });
+
+
 // 🎯 RUTA PUT para actualizar el perfil del inquilino (PUT /api/tenants/:tenantId)
 // El :tenantId en este caso DEBE coincidir con el slug inyectado en req.tenantId
-router.put('/:tenantId', verifyToken, ensureTenantAccessBySlug, isAdminStaff, async (req: TenantRequest<TenantRouteParams>, res: Response) => {
+router.put('/:tenantId', verifyToken, ensureTenantAccess, ensureTenantParamMatches, requirePermission('tenant.manage'), async (req: AuthRequest<TenantRouteParams>, res: Response) => {
     const tenantSlug = req.params.tenantId;
     const { name, address, phone, schedule, email } = req.body;
 
-    if (!name || !address || !phone || !schedule || !email) {
-        return res.status(400).json({ message: 'Faltan campos obligatorios para la actualización del perfil.' });
+    // 'schedule' es opcional: si la clínica cargó su horario estructurado, el texto se genera y no se edita a mano
+    if (!name || !address || !phone || !email) {
+        return res.status(400).json(apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'name, address, phone, email' }));
     }
 
     try {
+        const [previousRows] = await pool.execute<RowDataPacket[]>(
+            'SELECT id, name, address, phone, schedule, email FROM tenants WHERE tenant_id = ?',
+            [tenantSlug]
+        );
+        const { configured } = await getBusinessHours(req.resolvedTenant!.id);
+        const newSchedule = configured || !schedule ? previousRows[0]?.schedule ?? null : schedule;
+
         const [result] = await pool.execute<OkPacket>(
             `UPDATE tenants 
              SET name = ?, address = ?, phone = ?, schedule = ?, email = ? 
              WHERE tenant_id = ?`,
-            [name, address, phone, schedule, email, tenantSlug]
+            [name, address, phone, newSchedule, email, tenantSlug]
         );
+        invalidateTenant(tenantSlug);
 
         if (result.affectedRows === 0) {
             const [rows] = await pool.execute<RowDataPacket[]>(
@@ -182,23 +435,29 @@ router.put('/:tenantId', verifyToken, ensureTenantAccessBySlug, isAdminStaff, as
             );
 
             if (rows.length === 0) {
-                return res.status(404).json({ message: `Tenant con ID ${tenantSlug} no encontrado.` });
+                return res.status(404).json(apiMessage('TENANT_NOT_FOUND', { slug: tenantSlug }));
             }
 
             return res.status(200).json({
-                message: 'Perfil del inquilino actualizado exitosamente (sin cambios en los datos enviados).',
-                updatedFields: { name, address, phone, schedule, email }
+                ...apiMessage('TENANT_PROFILE_UNCHANGED'),
+                updatedFields: { name, address, phone, schedule: newSchedule, email }
             });
         }
 
+        const { id: tenantDbId, ...before } = previousRows[0];
+        await recordAudit(req, {
+            action: 'tenant.update', entityType: 'tenant', entityId: tenantDbId,
+            before, after: { name, address, phone, schedule: newSchedule, email }
+        });
+
         res.status(200).json({
-            message: 'Perfil del inquilino actualizado exitosamente!',
-            updatedFields: { name, address, phone, schedule, email }
+            ...apiMessage('TENANT_PROFILE_UPDATED'),
+            updatedFields: { name, address, phone, schedule: newSchedule, email }
         });
 
     } catch (error) {
         console.error("Error al actualizar el perfil del inquilino:", error);
-        res.status(500).json({ message: 'Error del servidor al actualizar el perfil.' });
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
     }
 });
 
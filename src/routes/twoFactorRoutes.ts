@@ -0,0 +1,204 @@
+// src/routes/twoFactorRoutes.ts
+// Autenticación en dos pasos (TOTP) del personal: alta, baja y códigos de recuperación.
+import { Router, Response, NextFunction } from 'express';
+import pool from '../db';
+import bcrypt from 'bcryptjs';
+import { RowDataPacket } from 'mysql2';
+import { AuthRequest, ensureTenantAccess, requireStaff } from '../middleware/authMiddleware';
+import { verifyAccessToken, verifyChallengeToken } from '../utils/jwt';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotpCode } from '../utils/totp';
+import {
+    getStaffTwoFactor, isTwoFactorMandatory, regenerateRecoveryCodes,
+    countRemainingRecoveryCodes, verifySecondFactor
+} from '../utils/twoFactor';
+import { apiMessage } from '../utils/i18n';
+
+const router = Router();
+
+// -----------------------------------------------------------------------------
+// 🔐 MIDDLEWARE: acepta un access token normal o el token de desafío '2fa_setup'
+// que emite /admin/login cuando el inquilino exige 2FA y el usuario aún no lo configuró.
+// -----------------------------------------------------------------------------
+const verifyEnrollmentToken = (req: AuthRequest<any>, res: Response, next: NextFunction) => {
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.split(' ')[1];
+
+    if (!token) {
+        return res.status(401).json(apiMessage('AUTHENTICATION_REQUIRED'));
+    }
+
+    try {
+        req.user = verifyAccessToken(token);
+    } catch (e) {
+        try {
+            req.user = verifyChallengeToken(token, '2fa_setup');
+        } catch (challengeError) {
+            return res.status(401).json(apiMessage('INVALID_TOKEN'));
+        }
+    }
+
+    next();
+};
+
+const guards = [verifyEnrollmentToken, requireStaff, ensureTenantAccess];
+
+// 1. ESTADO del 2FA del usuario autenticado (GET /api/auth/admin/2fa)
+router.get('/', ...guards, async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const staff = await getStaffTwoFactor(tenantDbId, req.user!.id);
+        if (!staff) {
+            return res.status(404).json(apiMessage('STAFF_NOT_FOUND'));
+        }
+
+        res.status(200).json({
+            enabled: Boolean(staff.totp_enabled),
+            mandatory: await isTwoFactorMandatory(tenantDbId, staff.role),
+            recoveryCodesRemaining: staff.totp_enabled ? await countRemainingRecoveryCodes(staff.id) : 0
+        });
+    } catch (error) {
+        console.error("Error al obtener el estado de 2FA:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 2. INICIAR ALTA: genera un secreto pendiente y la URL otpauth para el código QR
+// (POST /api/auth/admin/2fa/setup)
+router.post('/setup', ...guards, async (req: AuthRequest, res: Response) => {
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    try {
+        const staff = await getStaffTwoFactor(tenantDbId, req.user!.id);
+        if (!staff) {
+            return res.status(404).json(apiMessage('STAFF_NOT_FOUND'));
+        }
+        if (staff.totp_enabled) {
+            return res.status(409).json(apiMessage('TWO_FACTOR_ALREADY_ENABLED'));
+        }
+
+        const [tenantRows] = await pool.execute<RowDataPacket[]>('SELECT name FROM tenants WHERE id = ?', [tenantDbId]);
+        const secret = generateTotpSecret();
+
+        await pool.execute(
+            'UPDATE staff SET totp_secret = ?, totp_last_counter = NULL WHERE id = ?',
+            [secret, staff.id]
+        );
+
+        res.status(200).json({
+            ...apiMessage('TWO_FACTOR_SETUP_STARTED'),
+            secret,
+            otpauthUrl: buildOtpauthUrl(secret, staff.email, tenantRows[0]?.name || 'Veterinaria')
+        });
+    } catch (error) {
+        console.error("Error al iniciar el alta de 2FA:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 3. CONFIRMAR ALTA con un código válido; devuelve los códigos de recuperación
+// (POST /api/auth/admin/2fa/enable)
+router.post('/enable', ...guards, async (req: AuthRequest, res: Response) => {
+    const { code } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    if (!code) {
+        return res.status(400).json(apiMessage('VERIFICATION_CODE_REQUIRED'));
+    }
+
+    try {
+        const staff = await getStaffTwoFactor(tenantDbId, req.user!.id);
+        if (!staff || !staff.totp_secret) {
+            return res.status(400).json(apiMessage('TWO_FACTOR_SETUP_NOT_STARTED'));
+        }
+        if (staff.totp_enabled) {
+            return res.status(409).json(apiMessage('TWO_FACTOR_ALREADY_ENABLED'));
+        }
+
+        const counter = verifyTotpCode(staff.totp_secret, code);
+        if (counter === null) {
+            return res.status(400).json(apiMessage('INVALID_VERIFICATION_CODE'));
+        }
+
+        await pool.execute(
+            'UPDATE staff SET totp_enabled = TRUE, totp_last_counter = ? WHERE id = ?',
+            [counter, staff.id]
+        );
+        const recoveryCodes = await regenerateRecoveryCodes(staff.id);
+
+        res.status(200).json({
+            ...apiMessage('TWO_FACTOR_ENABLED'),
+            recoveryCodes
+        });
+    } catch (error) {
+        console.error("Error al activar 2FA:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 4. DESACTIVAR 2FA (requiere contraseña y segundo factor). No se permite si es obligatorio.
+// (POST /api/auth/admin/2fa/disable)
+router.post('/disable', ...guards, async (req: AuthRequest, res: Response) => {
+    const { password, code, recoveryCode } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    if (!password || (!code && !recoveryCode)) {
+        return res.status(400).json(apiMessage('PASSWORD_AND_CODE_REQUIRED'));
+    }
+
+    try {
+        const staff = await getStaffTwoFactor(tenantDbId, req.user!.id);
+        if (!staff || !staff.totp_enabled) {
+            return res.status(400).json(apiMessage('TWO_FACTOR_NOT_ENABLED'));
+        }
+        if (await isTwoFactorMandatory(tenantDbId, staff.role)) {
+            return res.status(403).json(apiMessage('TWO_FACTOR_REQUIRED_FOR_ROLE'));
+        }
+
+        const [rows] = await pool.execute<RowDataPacket[]>('SELECT password FROM staff WHERE id = ?', [staff.id]);
+        const isPasswordValid = await bcrypt.compare(password, rows[0].password);
+        if (!isPasswordValid || !(await verifySecondFactor(staff, { code, recoveryCode }))) {
+            return res.status(401).json(apiMessage('INVALID_CREDENTIALS'));
+        }
+
+        await pool.execute(
+            'UPDATE staff SET totp_enabled = FALSE, totp_secret = NULL, totp_last_counter = NULL WHERE id = ?',
+            [staff.id]
+        );
+        await pool.execute('DELETE FROM staff_recovery_codes WHERE staff_id = ?', [staff.id]);
+
+        res.status(200).json(apiMessage('TWO_FACTOR_DISABLED'));
+    } catch (error) {
+        console.error("Error al desactivar 2FA:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+// 5. REGENERAR CÓDIGOS DE RECUPERACIÓN (requiere un código TOTP vigente)
+// (POST /api/auth/admin/2fa/recovery-codes)
+router.post('/recovery-codes', ...guards, async (req: AuthRequest, res: Response) => {
+    const { code } = req.body;
+    const { id: tenantDbId } = req.resolvedTenant!;
+
+    if (!code) {
+        return res.status(400).json(apiMessage('VERIFICATION_CODE_REQUIRED'));
+    }
+
+    try {
+        const staff = await getStaffTwoFactor(tenantDbId, req.user!.id);
+        if (!staff || !staff.totp_enabled) {
+            return res.status(400).json(apiMessage('TWO_FACTOR_NOT_ENABLED'));
+        }
+        if (!(await verifySecondFactor(staff, { code }))) {
+            return res.status(401).json(apiMessage('INVALID_VERIFICATION_CODE'));
+        }
+
+        const recoveryCodes = await regenerateRecoveryCodes(staff.id);
+        res.status(200).json({ ...apiMessage('RECOVERY_CODES_REGENERATED'), recoveryCodes });
+    } catch (error) {
+        console.error("Error al regenerar códigos de recuperación:", error);
+        res.status(500).json(apiMessage('INTERNAL_ERROR'));
+    }
+});
+
+export default router;
@@ -0,0 +1,104 @@
+// src/utils/apiKeys.ts
+// Claves de API por inquilino: generación, verificación y alcance (scopes) en términos de permisos.
+import crypto from 'crypto';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import pool from '../db';
+import { Permission } from './permissions';
+
+export type ApiKeyScope = 'read' | 'orders' | 'appointments' | 'appointments_manage';
+
+// Cada scope equivale a un conjunto fijo de permisos del catálogo
+export const API_KEY_SCOPES: Record<ApiKeyScope, Permission[]> = {
+    read: ['products.view', 'orders.view', 'appointments.view_all'],
+    orders: ['products.view', 'orders.view', 'orders.manage'],
+    appointments: ['appointments.view_all', 'appointments.create'],
+    appointments_manage: ['appointments.view_all', 'appointments.manage'],
+};
+
+export interface ApiKeyPrincipal {
+    id: number;
+    name: string;
+    tenantDbId: number;
+    tenantSlug: string;
+    scopes: ApiKeyScope[];
+}
+
+interface ApiKeyRow extends RowDataPacket {
+    id: number;
+    name: string;
+    tenant_id: number;
+    tenant_slug: string;
+    scopes: string | ApiKeyScope[];
+}
+
+const KEY_PREFIX = 'vk_';
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+export const isApiKeyScope = (value: unknown): value is ApiKeyScope =>
+    typeof value === 'string' && value in API_KEY_SCOPES;
+
+const parseScopes = (scopes: string | ApiKeyScope[]): ApiKeyScope[] => {
+    const parsed = typeof scopes === 'string' ? JSON.parse(scopes) : scopes;
+    return Array.isArray(parsed) ? parsed.filter(isApiKeyScope) : [];
+};
+
+export const getApiKeyPermissions = (scopes: ApiKeyScope[]): Permission[] =>
+    Array.from(new Set(scopes.reduce<Permission[]>((all, scope) => all.concat(API_KEY_SCOPES[scope]), [])));
+
+// 🔑 Crea una clave nueva. Devuelve la clave completa (solo se muestra una vez).
+export const createApiKey = async (
+    tenantDbId: number,
+    name: string,
+    scopes: ApiKeyScope[],
+    createdBy: number
+): Promise<{ id: number; key: string; keyPrefix: string }> => {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+    const keyPrefix = key.slice(0, 11);
+
+    const [result] = await pool.execute<ResultSetHeader>(
+        `INSERT INTO tenant_api_keys (tenant_id, name, key_prefix, key_hash, scopes, created_by)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [tenantDbId, name, keyPrefix, hashKey(key), JSON.stringify(scopes), createdBy]
+    );
+
+    return { id: result.insertId, key, keyPrefix };
+};
+
+// 🔎 Verifica una clave recibida en la cabecera X-API-Key. Devuelve null si no existe o está revocada.
+export const findApiKey = async (key: string): Promise<ApiKeyPrincipal | null> => {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+
+    const [rows] = await pool.execute<ApiKeyRow[]>(
+        `SELECT k.id, k.name, k.tenant_id, k.scopes, t.tenant_id AS tenant_slug
+         FROM tenant_api_keys k
+         JOIN tenants t ON k.tenant_id = t.id
+         WHERE k.key_hash = ? AND k.revoked_at IS NULL`,
+        [hashKey(key)]
+    );
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+
+    // Registro de uso "best effort": no bloquea la solicitud
+    pool.execute('UPDATE tenant_api_keys SET last_used_at = NOW() WHERE id = ?', [row.id])
+        .catch((error) => console.error("Error al registrar el uso de la clave de API:", error));
+
+    return {
+        id: row.id,
+        name: row.name,
+        tenantDbId: row.tenant_id,
+        tenantSlug: row.tenant_slug,
+        scopes: parseScopes(row.scopes),
+    };
+};
+
+// 📋 Claves del inquilino (nunca se devuelve el hash)
+export const listApiKeys = async (tenantDbId: number) => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT id, name, key_prefix, scopes, created_by, last_used_at, revoked_at, created_at
+         FROM tenant_api_keys WHERE tenant_id = ? ORDER BY created_at DESC`,
+        [tenantDbId]
+    );
+    return rows.map(row => ({ ...row, scopes: parseScopes(row.scopes) }));
+};
@@ -0,0 +1,81 @@
+// src/utils/auditLog.ts
+// Bitácora de auditoría: quién cambió qué, cuándo y desde dónde (solo inserción).
+import pool from '../db';
+import { AuthRequest } from '../middleware/authMiddleware';
+import { getClientIp } from './loginThrottle';
+
+type AuditValues = Record<string, unknown> | null | undefined;
+
+export interface AuditEntry {
+    action: string; // e.g. 'product.update'
+    entityType: string; // e.g. 'product'
+    entityId?: string | number | null;
+    before?: AuditValues;
+    after?: AuditValues;
+}
+
+// Compara valores de forma laxa (la DB devuelve números como string en DECIMAL, booleanos como 0/1, etc.)
+const normalizeValue = (value: unknown) => {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'number') return String(value);
+    return value;
+};
+
+// -----------------------------------------------------------------------------
+// 🔍 Diferencia campo a campo entre el estado anterior y el nuevo.
+// Solo incluye los campos que cambiaron; en altas/bajas incluye todos.
+// -----------------------------------------------------------------------------
+export const computeDiff = (before: AuditValues, after: AuditValues) => {
+    const diff: Record<string, { before: unknown; after: unknown }> = {};
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+    keys.forEach((key) => {
+        const oldValue = before ? before[key] : undefined;
+        const newValue = after ? after[key] : undefined;
+        if (JSON.stringify(normalizeValue(oldValue)) !== JSON.stringify(normalizeValue(newValue))) {
+            diff[key] = { before: oldValue ?? null, after: newValue ?? null };
+        }
+    });
+
+    return diff;
+};
+
+// -----------------------------------------------------------------------------
+// 📝 Registra una acción del usuario (o clave de API) autenticado en su inquilino.
+// Es "best effort": un fallo al auditar se registra en consola pero no revierte la acción.
+// -----------------------------------------------------------------------------
+export const recordAudit = async (req: AuthRequest<any>, entry: AuditEntry) => {
+    const tenantDbId = req.resolvedTenant?.id;
+    if (!tenantDbId) {
+        console.error(`Auditoría omitida (${entry.action}): inquilino no resuelto.`);
+        return;
+    }
+
+    const user = req.user;
+    const apiKey = req.apiKey;
+    const changes = computeDiff(entry.before, entry.after);
+    const userAgent = req.headers['user-agent'];
+
+    try {
+        await pool.execute(
+            `INSERT INTO audit_log (tenant_id, actor_type, actor_id, actor_role, action, entity_type, entity_id, changes, ip_address, user_agent)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                tenantDbId,
+                apiKey ? 'api_key' : user ? (user.role === 'client' ? 'client' : 'staff') : 'system',
+                apiKey ? apiKey.id : user?.id ?? null,
+                apiKey ? null : user?.role ?? null,
+                entry.action,
+                entry.entityType,
+                entry.entityId !== undefined && entry.entityId !== null ? String(entry.entityId) : null,
+                Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
+                getClientIp(req),
+                userAgent ? userAgent.slice(0, 255) : null,
+            ]
+        );
+    } catch (error) {
+        console.error(`Error al registrar auditoría (${entry.action}):`, error);
+    }
+};
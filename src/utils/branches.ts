@@ -0,0 +1,148 @@
+// src/utils/branches.ts
+// Sucursales de una clínica: consulta, elección en pedidos/citas y stock por sucursal.
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+import { getBranchHours, formatSchedule } from './businessHours';
+import { ApiMessage, apiMessage } from './i18n';
+
+export interface BranchInput {
+    name?: string;
+    address?: string;
+    phone?: string | null;
+    email?: string | null;
+    isActive?: boolean;
+}
+
+const TEXT_FIELDS = { name: 100, address: 255, phone: 50, email: 255 } as const;
+
+// -----------------------------------------------------------------------------
+// 📋 Valida los datos de una sucursal. En la creación, name y address son obligatorios.
+// phone y email aceptan null (se borran).
+// -----------------------------------------------------------------------------
+export const parseBranchInput = (raw: Record<string, unknown>, creating: boolean): { input?: BranchInput; error?: ApiMessage } => {
+    const input: BranchInput = {};
+
+    for (const [field, maxLength] of Object.entries(TEXT_FIELDS) as [keyof typeof TEXT_FIELDS, number][]) {
+        const value = raw[field];
+        if (value === undefined) continue;
+        const optional = field === 'phone' || field === 'email';
+        if (value === null && optional) {
+            input[field] = null;
+            continue;
+        }
+        if (typeof value !== 'string' || !value.trim() || value.trim().length > maxLength) {
+            return { error: apiMessage('INVALID_TEXT_FIELD', { field, maxLength }) };
+        }
+        input[field] = value.trim();
+    }
+
+    if (raw.isActive !== undefined) {
+        if (typeof raw.isActive !== 'boolean') {
+            return { error: apiMessage('INVALID_BOOLEAN_FIELD', { field: 'isActive' }) };
+        }
+        input.isActive = raw.isActive;
+    }
+
+    if (creating && (!input.name || !input.address)) {
+        return { error: apiMessage('MISSING_REQUIRED_FIELDS', { fields: 'name, address' }) };
+    }
+    if (Object.keys(input).length === 0) {
+        return { error: apiMessage('NO_FIELDS_TO_UPDATE', { fields: 'name, address, phone, email, isActive' }) };
+    }
+    return { input };
+};
+
+// Formato común de la API (el horario se adjunta aparte porque requiere otra consulta)
+export const formatBranch = (row: RowDataPacket) => ({
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    phone: row.phone,
+    email: row.email,
+    isActive: Boolean(row.is_active),
+});
+
+// 🔎 Sucursales del inquilino con su horario (null = usa el horario de la clínica)
+export const listBranches = async (tenantDbId: number, { onlyActive }: { onlyActive: boolean }) => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT id, name, address, phone, email, is_active FROM branches
+         WHERE tenant_id = ? ${onlyActive ? 'AND is_active = TRUE' : ''}
+         ORDER BY name ASC`,
+        [tenantDbId]
+    );
+
+    const branches = [];
+    for (const row of rows) {
+        const hours = await getBranchHours(row.id);
+        branches.push({
+            ...formatBranch(row),
+            businessHours: hours.configured ? hours.weekly : null,
+            schedule: hours.configured ? formatSchedule(hours.weekly) : null,
+        });
+    }
+    return branches;
+};
+
+export const findBranch = async (tenantDbId: number, branchId: unknown): Promise<RowDataPacket | null> => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT id, name, address, phone, email, is_active FROM branches WHERE id = ? AND tenant_id = ?',
+        [Number(branchId) || 0, tenantDbId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+};
+
+// -----------------------------------------------------------------------------
+// 🏬 Sucursal elegida para un pedido o una cita.
+// Si la clínica tiene sucursales activas, elegir una es obligatorio; si no tiene, branchId = null.
+// -----------------------------------------------------------------------------
+export const resolveBookingBranch = async (tenantDbId: number, branchId: unknown): Promise<{ branchId?: number | null; error?: ApiMessage }> => {
+    if (branchId === undefined || branchId === null || branchId === '') {
+        const [activeRows] = await pool.execute<RowDataPacket[]>(
+            'SELECT COUNT(*) AS total FROM branches WHERE tenant_id = ? AND is_active = TRUE',
+            [tenantDbId]
+        );
+        return Number(activeRows[0].total) > 0
+            ? { error: apiMessage('BRANCH_REQUIRED') }
+            : { branchId: null };
+    }
+
+    const branch = await findBranch(tenantDbId, branchId);
+    if (!branch || !branch.is_active) {
+        return { error: apiMessage('BRANCH_UNAVAILABLE') };
+    }
+    return { branchId: branch.id };
+};
+
+// 🔄 products.stock es la suma de las sucursales cuando el producto tiene stock por sucursal
+export const syncProductStock = async (connection: PoolConnection, productId: number) => {
+    await connection.execute(
+        `UPDATE products p
+         JOIN (SELECT product_id, SUM(stock) AS total FROM branch_stock WHERE product_id = ? GROUP BY product_id) bs
+           ON bs.product_id = p.id
+         SET p.stock = bs.total`,
+        [productId]
+    );
+};
+
+// ↩️ Devuelve al stock lo reservado por un pedido que se cancela (y a su sucursal de recojo,
+// si el producto lleva stock por sucursal). Debe llamarse dentro de la transacción del cambio de estado.
+export const restoreOrderStock = async (connection: PoolConnection, tenantDbId: number, order: { id: number; branch_id: number | null }) => {
+    const [items] = await connection.execute<RowDataPacket[]>(
+        'SELECT product_id, quantity FROM order_items WHERE order_id = ?',
+        [order.id]
+    );
+    for (const item of items) {
+        await connection.execute(
+            'UPDATE products SET stock = stock + ? WHERE id = ? AND tenant_id = ?',
+            [item.quantity, item.product_id, tenantDbId]
+        );
+        if (order.branch_id) {
+            await connection.execute(
+                'UPDATE branch_stock SET stock = stock + ? WHERE branch_id = ? AND product_id = ?',
+                [item.quantity, order.branch_id, item.product_id]
+            );
+            await syncProductStock(connection, item.product_id);
+        }
+    }
+};
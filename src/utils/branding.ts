@@ -0,0 +1,83 @@
+// src/utils/branding.ts
+// Validaciones y archivos de la marca del inquilino (logo, favicon, colores y redes sociales).
+import fs from 'fs';
+import path from 'path';
+import { ApiMessage, apiMessage } from './i18n';
+
+export const SOCIAL_NETWORKS = ['facebook', 'instagram', 'tiktok', 'whatsapp', 'website'] as const;
+export type SocialNetwork = typeof SOCIAL_NETWORKS[number];
+export type SocialLinks = Partial<Record<SocialNetwork, string>>;
+
+const HEX_COLOR_REGEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isHexColor = (value: unknown): value is string =>
+    typeof value === 'string' && HEX_COLOR_REGEX.test(value);
+
+const isHttpUrl = (value: string) => {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch (e) {
+        return false;
+    }
+};
+
+// -----------------------------------------------------------------------------
+// 🔗 Valida las redes sociales. Acepta objeto o JSON en texto (formularios multipart).
+// Un valor vacío elimina la red. Devuelve un mensaje de error si algo no es válido.
+// -----------------------------------------------------------------------------
+export const parseSocialLinks = (raw: unknown): { links?: SocialLinks; error?: ApiMessage } => {
+    let value = raw;
+    if (typeof raw === 'string') {
+        try {
+            value = JSON.parse(raw);
+        } catch (e) {
+            return { error: apiMessage('INVALID_OBJECT_FIELD', { field: 'socialLinks' }) };
+        }
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: apiMessage('INVALID_OBJECT_FIELD', { field: 'socialLinks' }) };
+    }
+
+    const links: SocialLinks = {};
+    for (const [network, url] of Object.entries(value as Record<string, unknown>)) {
+        if (!SOCIAL_NETWORKS.includes(network as SocialNetwork)) {
+            return { error: apiMessage('UNSUPPORTED_SOCIAL_NETWORK', { network, allowed: SOCIAL_NETWORKS.join(', ') }) };
+        }
+        if (url === null || url === '') continue;
+        if (typeof url !== 'string' || !isHttpUrl(url)) {
+            return { error: apiMessage('INVALID_SOCIAL_LINK', { network }) };
+        }
+        links[network as SocialNetwork] = url;
+    }
+    return { links };
+};
+
+export const isImageFile = (file: Express.Multer.File) => file.mimetype.startsWith('image/');
+
+// 🗑️ Borra un archivo de /uploads a partir de su URL relativa. Nunca borra el logo por defecto compartido.
+export const deleteUploadedAsset = (assetUrl: string | null | undefined) => {
+    const defaultLogoUrl = process.env.DEFAULT_LOGO_URL || '/uploads/icono.png';
+    if (!assetUrl || !assetUrl.startsWith('/uploads/') || assetUrl === defaultLogoUrl) return;
+
+    const absolutePath = path.join(__dirname, '..', '..', assetUrl);
+    if (fs.existsSync(absolutePath)) {
+        fs.unlink(absolutePath, (err) => {
+            if (err) console.error("Error al borrar archivo antiguo:", absolutePath, err);
+        });
+    }
+};
+
+// Archivo recién subido por multer (ruta absoluta) que no llegó a usarse
+export const discardUpload = (file?: Express.Multer.File) => {
+    if (file && fs.existsSync(file.path)) {
+        fs.unlink(file.path, (err) => {
+            if (err) console.error("Error al borrar archivo subido:", file.path, err);
+        });
+    }
+};
+
+export const toAbsoluteAssetUrl = (assetUrl: string | null, hostname: string) => {
+    if (!assetUrl) return null;
+    return assetUrl.startsWith('http') ? assetUrl : `http://${hostname}:4000${assetUrl}`;
+};
@@ -0,0 +1,265 @@
+// src/utils/businessHours.ts
+// Horario de atención estructurado: turnos semanales, días de cierre y validación de fechas/horas.
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+import { ApiMessage, apiMessage } from './i18n';
+
+// Claves de la API en el orden de Date.getDay() (0 = domingo)
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+const WEEKDAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+// El texto del horario se arma empezando por el lunes
+const DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export interface Shift {
+    opens: string; // 'HH:MM'
+    closes: string; // 'HH:MM' (exclusivo)
+}
+
+export interface Closure {
+    date: string; // 'YYYY-MM-DD'
+    reason: string | null;
+}
+
+export type WeeklyHours = Record<Weekday, Shift[]>;
+
+export interface BusinessHours {
+    weekly: WeeklyHours;
+    closures: Closure[];
+}
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isIsoDate = (value: unknown): value is string =>
+    typeof value === 'string' && DATE_REGEX.test(value) && !isNaN(new Date(value + 'T00:00:00').getTime());
+
+// Hora 'HH:MM' (se aceptan los segundos 'HH:MM:SS' que devuelve MySQL)
+export const isTime = (value: unknown): value is string =>
+    typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value);
+
+const emptyWeek = (): WeeklyHours =>
+    WEEKDAYS.reduce((week, day) => ({ ...week, [day]: [] }), {} as WeeklyHours);
+
+// -----------------------------------------------------------------------------
+// 📋 Valida el horario semanal: { monday: [{ opens: '09:00', closes: '13:00' }, ...], ... }
+// Los días omitidos quedan cerrados. Los turnos de un mismo día no pueden solaparse.
+// -----------------------------------------------------------------------------
+export const parseWeeklyHours = (raw: unknown): { weekly?: WeeklyHours; error?: ApiMessage } => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { error: apiMessage('INVALID_WEEKLY_HOURS') };
+    }
+
+    const weekly = emptyWeek();
+    for (const [day, shifts] of Object.entries(raw as Record<string, unknown>)) {
+        if (!WEEKDAYS.includes(day as Weekday)) {
+            return { error: apiMessage('INVALID_WEEKDAY', { day, allowed: WEEKDAYS.join(', ') }) };
+        }
+        if (!Array.isArray(shifts)) {
+            return { error: apiMessage('SHIFTS_NOT_LIST', { day }) };
+        }
+
+        const parsed: Shift[] = [];
+        for (const shift of shifts) {
+            const { opens, closes } = (shift || {}) as Record<string, unknown>;
+            if (typeof opens !== 'string' || typeof closes !== 'string' || !TIME_REGEX.test(opens) || !TIME_REGEX.test(closes)) {
+                return { error: apiMessage('INVALID_SHIFT_TIME', { day }) };
+            }
+            if (opens >= closes) {
+                return { error: apiMessage('SHIFT_OPENS_AFTER_CLOSE', { day, opens, closes }) };
+            }
+            parsed.push({ opens, closes });
+        }
+
+        parsed.sort((a, b) => a.opens.localeCompare(b.opens));
+        for (let i = 1; i < parsed.length; i++) {
+            if (parsed[i].opens < parsed[i - 1].closes) {
+                return { error: apiMessage('SHIFTS_OVERLAP', { day }) };
+            }
+        }
+        weekly[day as Weekday] = parsed;
+    }
+    return { weekly };
+};
+
+// 📋 Valida los días de cierre: [{ date: 'YYYY-MM-DD', reason?: string }]
+export const parseClosures = (raw: unknown): { closures?: Closure[]; error?: ApiMessage } => {
+    if (!Array.isArray(raw)) {
+        return { error: apiMessage('INVALID_LIST_FIELD', { field: 'closures' }) };
+    }
+
+    const closures = new Map<string, Closure>();
+    for (const item of raw) {
+        const { date, reason } = (item || {}) as Record<string, unknown>;
+        if (!isIsoDate(date)) {
+            return { error: apiMessage('INVALID_CLOSURE_DATE') };
+        }
+        closures.set(date, { date, reason: typeof reason === 'string' && reason ? reason.slice(0, 150) : null });
+    }
+    return { closures: Array.from(closures.values()).sort((a, b) => a.date.localeCompare(b.date)) };
+};
+
+// Agrupa las filas (weekday, opens_at, closes_at) por día de la semana
+const toWeeklyHours = (rows: RowDataPacket[]): WeeklyHours => {
+    const weekly = emptyWeek();
+    for (const row of rows) {
+        weekly[WEEKDAYS[row.weekday]].push({
+            opens: String(row.opens_at).slice(0, 5),
+            closes: String(row.closes_at).slice(0, 5),
+        });
+    }
+    return weekly;
+};
+
+// 🔎 Horario del inquilino. Un inquilino sin turnos cargados no tiene restricciones de horario.
+export const getBusinessHours = async (tenantDbId: number): Promise<BusinessHours & { configured: boolean }> => {
+    const [hours] = await pool.execute<RowDataPacket[]>(
+        'SELECT weekday, opens_at, closes_at FROM tenant_business_hours WHERE tenant_id = ? ORDER BY weekday, opens_at',
+        [tenantDbId]
+    );
+    const [closures] = await pool.execute<RowDataPacket[]>(
+        `SELECT DATE_FORMAT(closure_date, '%Y-%m-%d') AS date, reason FROM tenant_closures WHERE tenant_id = ? ORDER BY closure_date`,
+        [tenantDbId]
+    );
+
+    return {
+        configured: hours.length > 0,
+        weekly: toWeeklyHours(hours),
+        closures: closures.map(row => ({ date: row.date, reason: row.reason })),
+    };
+};
+
+// 🔎 Turnos propios de una sucursal (sin turnos cargados, la sucursal usa el horario de la clínica)
+export const getBranchHours = async (branchId: number): Promise<{ configured: boolean; weekly: WeeklyHours }> => {
+    const [hours] = await pool.execute<RowDataPacket[]>(
+        'SELECT weekday, opens_at, closes_at FROM branch_business_hours WHERE branch_id = ? ORDER BY weekday, opens_at',
+        [branchId]
+    );
+    return { configured: hours.length > 0, weekly: toWeeklyHours(hours) };
+};
+
+// -----------------------------------------------------------------------------
+// 📝 Texto legible del horario, e.g. "Lun-Vie: 09:00 - 13:00, 15:00 - 19:00 | Sáb: 09:00 - 13:00".
+// Agrupa los días consecutivos (desde el lunes) que tienen los mismos turnos.
+// -----------------------------------------------------------------------------
+export const formatSchedule = (weekly: WeeklyHours): string => {
+    const describe = (shifts: Shift[]) => shifts.map(shift => `${shift.opens} - ${shift.closes}`).join(', ');
+
+    const groups: { first: number; last: number; shifts: string }[] = [];
+    for (const weekday of DISPLAY_ORDER) {
+        const shifts = describe(weekly[WEEKDAYS[weekday]]);
+        const previous = groups[groups.length - 1];
+        if (previous && previous.shifts === shifts) {
+            previous.last = weekday;
+        } else {
+            groups.push({ first: weekday, last: weekday, shifts });
+        }
+    }
+
+    const parts = groups
+        .filter(group => group.shifts)
+        .map(group => {
+            const days = group.first === group.last
+                ? WEEKDAY_LABELS[group.first]
+                : `${WEEKDAY_LABELS[group.first]}-${WEEKDAY_LABELS[group.last]}`;
+            return `${days}: ${group.shifts}`;
+        });
+    return parts.length > 0 ? parts.join(' | ') : 'Cerrado';
+};
+
+// -----------------------------------------------------------------------------
+// 💾 Guarda el horario (reemplaza lo enviado) y regenera 'tenants.schedule'.
+// Si solo se envía uno de los dos (weekly o closures), el otro se conserva.
+// -----------------------------------------------------------------------------
+export const saveBusinessHours = async (tenantDbId: number, changes: { weekly?: WeeklyHours; closures?: Closure[] }) => {
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        if (changes.weekly) {
+            await connection.execute('DELETE FROM tenant_business_hours WHERE tenant_id = ?', [tenantDbId]);
+            for (const [weekday, day] of WEEKDAYS.entries()) {
+                for (const shift of changes.weekly[day]) {
+                    await connection.execute(
+                        'INSERT INTO tenant_business_hours (tenant_id, weekday, opens_at, closes_at) VALUES (?, ?, ?, ?)',
+                        [tenantDbId, weekday, shift.opens, shift.closes]
+                    );
+                }
+            }
+            await connection.execute('UPDATE tenants SET schedule = ? WHERE id = ?', [formatSchedule(changes.weekly), tenantDbId]);
+        }
+
+        if (changes.closures) {
+            await connection.execute('DELETE FROM tenant_closures WHERE tenant_id = ?', [tenantDbId]);
+            for (const closure of changes.closures) {
+                await connection.execute(
+                    'INSERT INTO tenant_closures (tenant_id, closure_date, reason) VALUES (?, ?, ?)',
+                    [tenantDbId, closure.date, closure.reason]
+                );
+            }
+        }
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+};
+
+// 💾 Reemplaza los turnos de una sucursal (null o una semana vacía: vuelve al horario de la clínica)
+export const saveBranchHours = async (branchId: number, weekly: WeeklyHours | null) => {
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+        await connection.execute('DELETE FROM branch_business_hours WHERE branch_id = ?', [branchId]);
+        for (const [weekday, day] of WEEKDAYS.entries()) {
+            for (const shift of weekly ? weekly[day] : []) {
+                await connection.execute(
+                    'INSERT INTO branch_business_hours (branch_id, weekday, opens_at, closes_at) VALUES (?, ?, ?, ?)',
+                    [branchId, weekday, shift.opens, shift.closes]
+                );
+            }
+        }
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+};
+
+// -----------------------------------------------------------------------------
+// 🚪 Verifica que la clínica atienda en la fecha (y, si se indica, a la hora 'HH:MM').
+// Con 'branchId' se usan los turnos de la sucursal si los tiene (los cierres son de toda la clínica).
+// Devuelve null si está abierta (o no tiene horario cargado) o el mensaje CLINIC_CLOSED si no.
+// -----------------------------------------------------------------------------
+export const checkOpenAt = async (tenantDbId: number, date: string, time?: string, branchId?: number | null): Promise<ApiMessage | null> => {
+    const tenantHours = await getBusinessHours(tenantDbId);
+    const branchHours = branchId ? await getBranchHours(branchId) : null;
+    const { configured, weekly } = branchHours?.configured ? branchHours : tenantHours;
+    const { closures } = tenantHours;
+
+    const closure = closures.find(item => item.date === date);
+    if (closure) {
+        return apiMessage('CLINIC_CLOSED', closure.reason ? { date, reason: closure.reason } : { date });
+    }
+    if (!configured) return null;
+
+    const weekday = new Date(date + 'T00:00:00').getDay();
+    const shifts = weekly[WEEKDAYS[weekday]];
+    if (shifts.length === 0) {
+        return apiMessage('CLINIC_CLOSED', { date, weekday, schedule: formatSchedule(weekly) });
+    }
+
+    if (time) {
+        const hhmm = time.slice(0, 5);
+        if (!shifts.some(shift => shift.opens <= hhmm && hhmm < shift.closes)) {
+            return apiMessage('CLINIC_CLOSED', { date, time: hhmm, schedule: formatSchedule(weekly) });
+        }
+    }
+    return null;
+};
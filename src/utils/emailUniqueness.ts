@@ -0,0 +1,31 @@
+// src/utils/emailUniqueness.ts
+// Regla de unicidad de emails (por inquilino):
+// - Un mismo email puede ser cliente o personal en varias clínicas.
+// - Dentro de una clínica, un email pertenece a un solo usuario: un cliente o un miembro del personal, no ambos.
+// El login siempre busca por email + inquilino (resuelto por subdominio), por lo que no hay ambigüedad.
+import { RowDataPacket } from 'mysql2';
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../db';
+
+export type EmailOwner = 'staff' | 'client';
+
+// 🔎 ¿Quién usa ya este email en el inquilino? (null si está libre)
+export const findEmailOwnerInTenant = async (
+    tenantDbId: number,
+    email: string,
+    connection: PoolConnection | typeof pool = pool
+): Promise<EmailOwner | null> => {
+    const [existingStaff] = await connection.execute<RowDataPacket[]>(
+        'SELECT id FROM staff WHERE email = ? AND tenant_id = ?',
+        [email, tenantDbId]
+    );
+    if (existingStaff.length > 0) return 'staff';
+
+    const [existingClient] = await connection.execute<RowDataPacket[]>(
+        'SELECT id FROM clients WHERE email = ? AND tenant_id = ?',
+        [email, tenantDbId]
+    );
+    if (existingClient.length > 0) return 'client';
+
+    return null;
+};
@@ -0,0 +1,90 @@
+// src/utils/emailVerification.ts
+// Verificación del email de clientes registrados por su cuenta (POST /api/client/auth/register).
+import crypto from 'crypto';
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+import { sendMail } from './mailer';
+
+interface VerificationTokenRow extends RowDataPacket {
+    id: number;
+    client_id: number;
+    expires_at: Date;
+    used_at: Date | null;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const getVerificationTtlHours = () => process.env.EMAIL_VERIFICATION_TTL_HOURS ? parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS) : 48;
+
+// 📨 Genera un token nuevo (invalidando los anteriores) y envía el enlace de verificación
+export const sendVerificationEmail = async (
+    tenantDbId: number,
+    client: { id: number; name: string; email: string },
+    buildVerifyLink: (token: string) => string
+): Promise<void> => {
+    const token = crypto.randomBytes(32).toString('hex');
+    const ttlHours = getVerificationTtlHours();
+
+    await pool.execute(
+        'UPDATE email_verification_tokens SET used_at = NOW() WHERE tenant_id = ? AND client_id = ? AND used_at IS NULL',
+        [tenantDbId, client.id]
+    );
+
+    await pool.execute(
+        `INSERT INTO email_verification_tokens (tenant_id, client_id, token_hash, expires_at)
+         VALUES (?, ?, ?, DATE_ADD(NOW(), INTERVAL ? HOUR))`,
+        [tenantDbId, client.id, hashToken(token), ttlHours]
+    );
+
+    await sendMail({
+        to: client.email,
+        subject: 'Confirma tu correo electrónico',
+        text: `Hola ${client.name},\n\nConfirma tu correo ingresando al siguiente enlace (válido por ${ttlHours} horas):\n${buildVerifyLink(token)}`,
+    });
+};
+
+// ✅ Consume el token y marca el email del cliente como verificado. Devuelve false si no es válido.
+export const confirmEmailWithToken = async (tenantDbId: number, token: string): Promise<boolean> => {
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [rows] = await connection.execute<VerificationTokenRow[]>(
+            `SELECT id, client_id, expires_at, used_at FROM email_verification_tokens
+             WHERE token_hash = ? AND tenant_id = ? FOR UPDATE`,
+            [hashToken(token), tenantDbId]
+        );
+
+        const verification = rows[0];
+        if (!verification || verification.used_at !== null || new Date(verification.expires_at).getTime() <= Date.now()) {
+            await connection.rollback();
+            return false;
+        }
+
+        await connection.execute(
+            'UPDATE clients SET email_verified_at = COALESCE(email_verified_at, NOW()) WHERE id = ? AND tenant_id = ?',
+            [verification.client_id, tenantDbId]
+        );
+        await connection.execute(
+            'UPDATE email_verification_tokens SET used_at = NOW() WHERE id = ?',
+            [verification.id]
+        );
+
+        await connection.commit();
+        return true;
+
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+};
+
+export const isClientEmailVerified = async (tenantDbId: number, clientId: number): Promise<boolean> => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT email_verified_at FROM clients WHERE id = ? AND tenant_id = ?',
+        [clientId, tenantDbId]
+    );
+    return rows.length > 0 && rows[0].email_verified_at !== null;
+};
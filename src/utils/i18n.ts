@@ -0,0 +1,71 @@
+// src/utils/i18n.ts
+// Mensajes localizados de la API. Las rutas responden con apiMessage('CODIGO', params)
+// y el middleware localizeResponses traduce el texto al idioma del cliente
+// (Accept-Language), o al idioma por defecto de la clínica.
+import { MESSAGES } from './messages';
+
+export const SUPPORTED_LOCALES = ['es', 'en'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export type MessageCode = keyof typeof MESSAGES;
+
+export type MessageParams = Record<string, string | number>;
+
+export interface ApiMessage {
+    code: MessageCode;
+    message: string;
+    params?: MessageParams;
+}
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+export const DEFAULT_LOCALE: Locale = isLocale(process.env.DEFAULT_LOCALE) ? process.env.DEFAULT_LOCALE : 'es';
+
+export const isMessageCode = (value: unknown): value is MessageCode =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(MESSAGES, value);
+
+// Texto del código en el idioma indicado, con los parámetros '{nombre}' reemplazados
+export const renderMessage = (code: MessageCode, locale: Locale, params: MessageParams = {}): string => {
+    const template: string | ((params: MessageParams) => string) = MESSAGES[code][locale];
+    if (typeof template === 'function') return template(params);
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        params[name] !== undefined ? String(params[name]) : placeholder);
+};
+
+// -----------------------------------------------------------------------------
+// 💬 Cuerpo de respuesta con código estable: { code, message, params? }
+// El texto se genera en el idioma por defecto; localizeResponses lo reemplaza
+// por el del cliente. Los 'params' quedan en la respuesta para que el frontend
+// pueda armar su propio texto.
+// -----------------------------------------------------------------------------
+export const apiMessage = (code: MessageCode, params?: MessageParams): ApiMessage => ({
+    code,
+    message: renderMessage(code, DEFAULT_LOCALE, params),
+    ...(params ? { params } : {}),
+});
+
+// -----------------------------------------------------------------------------
+// 🌍 Idioma preferido según Accept-Language (e.g. 'en-US,en;q=0.9,es;q=0.8').
+// Se comparan las etiquetas primarias ('en-US' -> 'en'). Devuelve null si ninguno es soportado.
+// -----------------------------------------------------------------------------
+export const negotiateLocale = (acceptLanguage: string | undefined): Locale | null => {
+    if (!acceptLanguage) return null;
+
+    const candidates = acceptLanguage.split(',')
+        .map((part, index) => {
+            const [tag, ...attributes] = part.trim().split(';');
+            const quality = attributes.map(attr => attr.trim()).find(attr => attr.startsWith('q='));
+            return { tag: tag.trim().toLowerCase(), quality: quality ? Number(quality.slice(2)) : 1, index };
+        })
+        .filter(candidate => candidate.tag && candidate.quality > 0)
+        // Orden estable: a igual calidad, gana el que aparece primero
+        .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+    for (const { tag } of candidates) {
+        const primary = tag.split('-')[0];
+        if (isLocale(primary)) return primary;
+    }
+    return null;
+};
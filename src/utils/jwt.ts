@@ -0,0 +1,77 @@
+// src/utils/jwt.ts
+import jwt, { SignOptions } from 'jsonwebtoken';
+
+export type UserRole = 'admin' | 'doctor' | 'receptionist' | 'client';
+
+// Datos que viajan firmados dentro del token
+export interface TokenPayload {
+    id: number; // ID real en la tabla `staff` o `clients`
+    tenant_id: string; // Slug del inquilino (e.g., 'chavez')
+    role: UserRole;
+}
+
+const VALID_ROLES: UserRole[] = ['admin', 'doctor', 'receptionist', 'client'];
+
+const getJwtSecret = (): string => {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('JWT_SECRET no está configurado en .env');
+    }
+    return secret;
+};
+
+// 🔑 Genera un access token firmado y de vida corta (JWT_EXPIRES_IN, por defecto 15m).
+// La sesión se extiende con el refresh token (ver utils/sessions.ts).
+export const signAccessToken = (payload: TokenPayload): string => {
+    const expiresIn = (process.env.JWT_EXPIRES_IN || '15m') as SignOptions['expiresIn'];
+    return jwt.sign(
+        { id: payload.id, tenant_id: payload.tenant_id, role: payload.role },
+        getJwtSecret(),
+        { expiresIn }
+    );
+};
+
+// 🔐 Verifica firma y expiración. Lanza un error si el token no es válido.
+export const verifyAccessToken = (token: string): TokenPayload => {
+    const decoded = jwt.verify(token, getJwtSecret());
+
+    // Los tokens de desafío (2FA) no sirven como access token
+    if (typeof decoded === 'string' || decoded.purpose) {
+        throw new Error('Token con formato no válido.');
+    }
+
+    const { id, tenant_id, role } = decoded as Partial<TokenPayload>;
+    if (!id || !tenant_id || !role || !VALID_ROLES.includes(role)) {
+        throw new Error('Token con datos incompletos.');
+    }
+
+    return { id: Number(id), tenant_id, role };
+};
+
+// -----------------------------------------------------------------------------
+// 🧩 Tokens de desafío: de vida muy corta y con un único propósito (e.g., segundo paso del login 2FA).
+// -----------------------------------------------------------------------------
+export type ChallengePurpose = '2fa_login' | '2fa_setup';
+
+export const signChallengeToken = (payload: TokenPayload, purpose: ChallengePurpose): string => {
+    return jwt.sign(
+        { id: payload.id, tenant_id: payload.tenant_id, role: payload.role, purpose },
+        getJwtSecret(),
+        { expiresIn: '5m' }
+    );
+};
+
+export const verifyChallengeToken = (token: string, purpose: ChallengePurpose): TokenPayload => {
+    const decoded = jwt.verify(token, getJwtSecret());
+
+    if (typeof decoded === 'string' || decoded.purpose !== purpose) {
+        throw new Error('Token de desafío no válido.');
+    }
+
+    const { id, tenant_id, role } = decoded as Partial<TokenPayload>;
+    if (!id || !tenant_id || !role || !VALID_ROLES.includes(role)) {
+        throw new Error('Token con datos incompletos.');
+    }
+
+    return { id: Number(id), tenant_id, role };
+};
@@ -0,0 +1,26 @@
+// src/utils/links.ts
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+import { ResolvedTenant } from '../middleware/authMiddleware';
+import { PLATFORM_DOMAIN_BASE } from './tenantDomains';
+
+// -----------------------------------------------------------------------------
+// 🔗 URL base del frontend del inquilino para los enlaces de los correos
+// (verificación de email, restablecimiento de contraseña, invitaciones).
+// Nunca sale de las cabeceras Origin/Host: las controla quien llama y permitirían
+// enviar un token válido a un dominio ajeno. Orden:
+//   1. FRONTEND_BASE_URL (desarrollo, e.g. http://localhost:5173, o un frontend único)
+//   2. Primer dominio propio verificado de la clínica
+//   3. Subdominio de la plataforma (https://<slug>.<PLATFORM_DOMAIN_BASE>)
+// -----------------------------------------------------------------------------
+export const getFrontendBaseUrl = async (tenant: Pick<ResolvedTenant, 'id' | 'slug'>): Promise<string> => {
+    if (process.env.FRONTEND_BASE_URL) {
+        return process.env.FRONTEND_BASE_URL.replace(/\/+$/, '');
+    }
+
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT domain FROM tenant_domains WHERE tenant_id = ? AND verified_at IS NOT NULL ORDER BY verified_at ASC LIMIT 1',
+        [tenant.id]
+    );
+    return `https://${rows.length > 0 ? rows[0].domain : `${tenant.slug}.${PLATFORM_DOMAIN_BASE}`}`;
+};
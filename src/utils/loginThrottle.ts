@@ -0,0 +1,212 @@
+// src/utils/loginThrottle.ts
+// Protección contra fuerza bruta: retrasos progresivos y bloqueos temporales
+// por cuenta y por IP dentro de cada inquilino.
+import { Request, Response } from 'express';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import pool from '../db';
+import { apiMessage } from './i18n';
+
+export interface LoginContext {
+    tenantDbId: number;
+    userType: 'staff' | 'client';
+    email: string;
+    ip: string;
+}
+
+export interface LoginBlock {
+    reason: 'locked' | 'throttled';
+    retryAfterSeconds: number;
+}
+
+interface AttemptRow extends RowDataPacket {
+    scope: 'account' | 'ip';
+    failed_count: number;
+    seconds_since_failure: number;
+    lock_remaining: number | null;
+}
+
+const envInt = (name: string, fallback: number) => process.env[name] ? parseInt(process.env[name] as string) : fallback;
+
+// --- POLÍTICA (configurable por .env) ---
+const getPolicy = () => ({
+    windowMinutes: envInt('LOGIN_ATTEMPT_WINDOW_MINUTES', 15), // Ventana tras la cual se olvidan los fallos
+    delayAfter: envInt('LOGIN_DELAY_AFTER', 3), // Fallos antes de empezar a retrasar
+    maxDelaySeconds: envInt('LOGIN_MAX_DELAY_SECONDS', 30),
+    accountMaxAttempts: envInt('LOGIN_MAX_ATTEMPTS', 5), // Fallos por cuenta antes del bloqueo
+    ipMaxAttempts: envInt('LOGIN_IP_MAX_ATTEMPTS', 20), // Fallos por IP antes del bloqueo
+    lockMinutes: envInt('LOGIN_LOCK_MINUTES', 15),
+});
+
+const normalizeEmail = (email: string) => String(email).trim().toLowerCase();
+
+export const getClientIp = (req: Request) => req.ip || req.socket.remoteAddress || 'desconocida';
+
+// 📝 Registro de eventos de seguridad (bloqueos y desbloqueos)
+export const recordSecurityEvent = async (event: {
+    tenantDbId: number;
+    eventType: string;
+    userType: 'staff' | 'client' | 'any';
+    identifier: string;
+    ip?: string | null;
+    actorStaffId?: number | null;
+    details?: object | null;
+}) => {
+    await pool.execute(
+        `INSERT INTO security_events (tenant_id, event_type, user_type, identifier, ip_address, actor_staff_id, details)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+            event.tenantDbId,
+            event.eventType,
+            event.userType,
+            event.identifier,
+            event.ip ?? null,
+            event.actorStaffId ?? null,
+            event.details ? JSON.stringify(event.details) : null,
+        ]
+    );
+};
+
+// -----------------------------------------------------------------------------
+// 🚦 ¿Puede intentar iniciar sesión ahora? Devuelve null si está permitido.
+// -----------------------------------------------------------------------------
+export const getLoginBlock = async (ctx: LoginContext): Promise<LoginBlock | null> => {
+    const policy = getPolicy();
+    const [rows] = await pool.execute<AttemptRow[]>(
+        `SELECT scope, failed_count,
+                TIMESTAMPDIFF(SECOND, last_failed_at, NOW()) AS seconds_since_failure,
+                IF(locked_until > NOW(), TIMESTAMPDIFF(SECOND, NOW(), locked_until), NULL) AS lock_remaining
+         FROM login_attempts
+         WHERE tenant_id = ?
+           AND ((scope = 'account' AND user_type = ? AND identifier = ?) OR (scope = 'ip' AND user_type = 'any' AND identifier = ?))`,
+        [ctx.tenantDbId, ctx.userType, normalizeEmail(ctx.email), ctx.ip]
+    );
+
+    let block: LoginBlock | null = null;
+    for (const row of rows) {
+        // 1. Bloqueo temporal vigente
+        if (row.lock_remaining !== null) {
+            const retryAfterSeconds = Math.max(1, row.lock_remaining);
+            if (!block || block.reason !== 'locked' || retryAfterSeconds > block.retryAfterSeconds) {
+                block = { reason: 'locked', retryAfterSeconds };
+            }
+            continue;
+        }
+
+        // 2. Retraso progresivo (solo para la cuenta): 1s, 2s, 4s... hasta maxDelaySeconds
+        const withinWindow = row.seconds_since_failure < policy.windowMinutes * 60;
+        if (row.scope === 'account' && withinWindow && row.failed_count >= policy.delayAfter) {
+            const delay = Math.min(2 ** (row.failed_count - policy.delayAfter), policy.maxDelaySeconds);
+            const remaining = delay - row.seconds_since_failure;
+            if (remaining > 0 && !block) {
+                block = { reason: 'throttled', retryAfterSeconds: remaining };
+            }
+        }
+    }
+
+    return block;
+};
+
+export const respondLoginBlocked = (res: Response, block: LoginBlock) => {
+    res.set('Retry-After', String(block.retryAfterSeconds));
+    return res.status(429).json({
+        ...(block.reason === 'locked'
+            ? apiMessage('LOGIN_LOCKED', { minutes: Math.ceil(block.retryAfterSeconds / 60) })
+            : apiMessage('LOGIN_THROTTLED', { seconds: block.retryAfterSeconds })),
+        retryAfter: block.retryAfterSeconds
+    });
+};
+
+// Incrementa el contador (reiniciándolo si el último fallo salió de la ventana)
+// y aplica el bloqueo al llegar al máximo. Devuelve true si se acaba de bloquear.
+const incrementAttempts = async (
+    ctx: LoginContext,
+    scope: 'account' | 'ip',
+    maxAttempts: number
+): Promise<boolean> => {
+    const policy = getPolicy();
+    const userType = scope === 'account' ? ctx.userType : 'any';
+    const identifier = scope === 'account' ? normalizeEmail(ctx.email) : ctx.ip;
+
+    await pool.execute(
+        `INSERT INTO login_attempts (tenant_id, scope, user_type, identifier, failed_count, last_failed_at)
+         VALUES (?, ?, ?, ?, 1, NOW())
+         ON DUPLICATE KEY UPDATE
+            failed_count = IF(last_failed_at < NOW() - INTERVAL ? MINUTE, 1, failed_count + 1),
+            last_failed_at = NOW()`,
+        [ctx.tenantDbId, scope, userType, identifier, policy.windowMinutes]
+    );
+
+    const [result] = await pool.execute<ResultSetHeader>(
+        `UPDATE login_attempts SET locked_until = NOW() + INTERVAL ? MINUTE, failed_count = 0
+         WHERE tenant_id = ? AND scope = ? AND user_type = ? AND identifier = ? AND failed_count >= ?`,
+        [policy.lockMinutes, ctx.tenantDbId, scope, userType, identifier, maxAttempts]
+    );
+
+    if (result.affectedRows > 0) {
+        await recordSecurityEvent({
+            tenantDbId: ctx.tenantDbId,
+            eventType: scope === 'account' ? 'account_locked' : 'ip_locked',
+            userType,
+            identifier,
+            ip: ctx.ip,
+            details: { lockMinutes: policy.lockMinutes, maxAttempts },
+        });
+        return true;
+    }
+    return false;
+};
+
+// ❌ Registra un intento fallido para la cuenta y para la IP
+export const registerFailedLogin = async (ctx: LoginContext) => {
+    const policy = getPolicy();
+    await incrementAttempts(ctx, 'account', policy.accountMaxAttempts);
+    await incrementAttempts(ctx, 'ip', policy.ipMaxAttempts);
+};
+
+// ✅ Inicio de sesión correcto: se limpian los fallos de la cuenta
+export const clearFailedLogins = async (ctx: LoginContext) => {
+    await pool.execute(
+        `DELETE FROM login_attempts WHERE tenant_id = ? AND scope = 'account' AND user_type = ? AND identifier = ?`,
+        [ctx.tenantDbId, ctx.userType, normalizeEmail(ctx.email)]
+    );
+};
+
+// -----------------------------------------------------------------------------
+// 🔓 Administración de cuentas bloqueadas
+// -----------------------------------------------------------------------------
+export const listLockedAccounts = async (tenantDbId: number, userType: 'staff' | 'client') => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT identifier AS email, locked_until, last_failed_at
+         FROM login_attempts
+         WHERE tenant_id = ? AND scope = 'account' AND user_type = ? AND locked_until > NOW()
+         ORDER BY locked_until DESC`,
+        [tenantDbId, userType]
+    );
+    return rows;
+};
+
+export const unlockAccount = async (
+    tenantDbId: number,
+    userType: 'staff' | 'client',
+    email: string,
+    actor: { staffId: number; ip: string }
+): Promise<boolean> => {
+    const identifier = normalizeEmail(email);
+    const [result] = await pool.execute<ResultSetHeader>(
+        `DELETE FROM login_attempts WHERE tenant_id = ? AND scope = 'account' AND user_type = ? AND identifier = ?`,
+        [tenantDbId, userType, identifier]
+    );
+
+    if (result.affectedRows > 0) {
+        await recordSecurityEvent({
+            tenantDbId,
+            eventType: 'account_unlocked',
+            userType,
+            identifier,
+            ip: actor.ip,
+            actorStaffId: actor.staffId,
+        });
+        return true;
+    }
+    return false;
+};
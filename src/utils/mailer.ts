@@ -0,0 +1,40 @@
+// src/utils/mailer.ts
+// Envío de correos desacoplado: en desarrollo se escriben en una bandeja local (outbox/).
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface Mailer {
+    send: (message: MailMessage) => Promise<void>;
+}
+
+// 📥 Mailer de desarrollo: guarda cada correo como JSON en el directorio indicado
+export const createOutboxMailer = (outboxDir: string): Mailer => ({
+    send: async (message: MailMessage) => {
+        await fs.promises.mkdir(outboxDir, { recursive: true });
+        const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+        const fileName = `${Date.now()}-${safeRecipient}.json`;
+        await fs.promises.writeFile(
+            path.join(outboxDir, fileName),
+            JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+        );
+        console.log(`📧 [mailer]: Correo para ${message.to} guardado en outbox/${fileName}`);
+    }
+});
+
+const defaultOutboxDir = process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '..', '..', 'outbox');
+
+let activeMailer: Mailer = createOutboxMailer(defaultOutboxDir);
+
+// 🔌 Permite conectar otro proveedor (SMTP, API transaccional, etc.) al arrancar la app
+export const setMailer = (mailer: Mailer) => {
+    activeMailer = mailer;
+};
+
+export const sendMail = (message: MailMessage) => activeMailer.send(message);
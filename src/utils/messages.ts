@@ -0,0 +1,923 @@
+// src/utils/messages.ts
+// Catálogo de mensajes de la API: cada código estable tiene su texto en cada idioma soportado.
+// Los textos admiten parámetros '{nombre}'; los que cambian de forma según los parámetros
+// son funciones. Para agregar un idioma, completar aquí cada código (el compilador lo exige).
+import type { Locale, MessageParams } from './i18n';
+
+type MessageTemplate = string | ((params: MessageParams) => string);
+
+// Días de la semana (índice de Date.getDay()) para el mensaje CLINIC_CLOSED
+const WEEKDAY_NAMES: Record<Locale, string[]> = {
+    es: ['domingos', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábados'],
+    en: ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays'],
+};
+
+export const MESSAGES = {
+    // 🌐 Generales
+    INTERNAL_ERROR: {
+        es: 'Error del servidor. Intente nuevamente más tarde.',
+        en: 'Server error. Please try again later.',
+    },
+    MISSING_REQUIRED_FIELDS: {
+        es: p => p.fields ? `Faltan campos obligatorios: ${p.fields}.` : 'Faltan campos obligatorios.',
+        en: p => p.fields ? `Required fields are missing: ${p.fields}.` : 'Required fields are missing.',
+    },
+    NO_FIELDS_TO_UPDATE: {
+        es: p => p.fields ? `No se proporcionaron campos para actualizar (${p.fields}).` : 'No se proporcionaron campos para actualizar.',
+        en: p => p.fields ? `No fields to update were provided (${p.fields}).` : 'No fields to update were provided.',
+    },
+    INVALID_LIST_FIELD: {
+        es: 'El campo {field} debe ser una lista.',
+        en: 'The {field} field must be a list.',
+    },
+    INVALID_BOOLEAN_FIELD: {
+        es: 'El campo {field} debe ser booleano.',
+        en: 'The {field} field must be a boolean.',
+    },
+    FIELD_EMPTY: {
+        es: "El campo '{field}' no puede estar vacío.",
+        en: "The '{field}' field cannot be empty.",
+    },
+    INVALID_TEXT_FIELD: {
+        es: "El campo '{field}' debe ser un texto de 1 a {maxLength} caracteres.",
+        en: "The '{field}' field must be a text of 1 to {maxLength} characters.",
+    },
+    INVALID_OBJECT_FIELD: {
+        es: 'El campo {field} debe ser un objeto JSON.',
+        en: 'The {field} field must be a JSON object.',
+    },
+    INVALID_STATUS: {
+        es: 'Estado no válido. Valores permitidos: {allowed}.',
+        en: 'Invalid status. Allowed values: {allowed}.',
+    },
+    INVALID_DATE: {
+        es: "Fecha no válida: '{value}'.",
+        en: "Invalid date: '{value}'.",
+    },
+
+    // 🏥 Inquilino y acceso
+    TENANT_SLUG_MISSING: {
+        es: 'El ID de inquilino (slug) no se encontró en la solicitud.',
+        en: 'The tenant ID (slug) was not found in the request.',
+    },
+    AUTHENTICATION_REQUIRED: {
+        es: 'Se requiere autenticación para esta acción.',
+        en: 'Authentication is required for this action.',
+    },
+    INVALID_TOKEN: {
+        es: 'Token inválido o expirado.',
+        en: 'Invalid or expired token.',
+    },
+    INVALID_API_KEY: {
+        es: 'Clave de API inválida o revocada.',
+        en: 'Invalid or revoked API key.',
+    },
+    TENANT_ACCESS_DENIED: {
+        es: 'Acceso denegado. No tiene permisos para acceder a los recursos de este inquilino.',
+        en: 'Access denied. You do not have access to this tenant.',
+    },
+    NOT_AVAILABLE_FOR_API_KEYS: {
+        es: 'Esta acción no está disponible para claves de API.',
+        en: 'This action is not available for API keys.',
+    },
+    PERMISSION_DENIED: {
+        es: 'Acceso denegado. Su rol no tiene permisos para esta acción.',
+        en: 'Access denied. Your role does not have permission for this action.',
+    },
+    EMAIL_NOT_VERIFIED: {
+        es: 'Debe verificar su correo electrónico antes de continuar.',
+        en: 'You must verify your email address before continuing.',
+    },
+    TENANT_CLOSED: {
+        es: 'Esta clínica ya no está disponible en la plataforma.',
+        en: 'This clinic is no longer available on the platform.',
+    },
+    TENANT_SUSPENDED: {
+        es: 'Esta clínica está suspendida temporalmente. Solo se permite exportar sus datos.',
+        en: 'This clinic is temporarily suspended. Only data export is allowed.',
+    },
+    TENANT_NOT_FOUND: {
+        es: p => p.host ? `No hay ninguna clínica asociada a '${p.host}'.` : p.slug ? `Inquilino '${p.slug}' no encontrado.` : 'Inquilino no encontrado.',
+        en: p => p.host ? `No clinic is associated with '${p.host}'.` : p.slug ? `Tenant '${p.slug}' not found.` : 'Tenant not found.',
+    },
+    API_KEY_PERMISSION_DENIED: {
+        es: 'Acceso denegado. La clave de API no incluye este permiso.',
+        en: 'Access denied. The API key does not include this permission.',
+    },
+
+    // 🔐 Autenticación del personal y sesiones
+    MISSING_CREDENTIALS: {
+        es: 'Email y contraseña son obligatorios.',
+        en: 'Email and password are required.',
+    },
+    INVALID_CREDENTIALS: {
+        es: 'Credenciales inválidas.',
+        en: 'Invalid credentials.',
+    },
+    CHALLENGE_FIELDS_REQUIRED: {
+        es: 'Faltan el token de desafío y el código de verificación.',
+        en: 'The challenge token and the verification code are required.',
+    },
+    CHALLENGE_EXPIRED: {
+        es: 'El desafío expiró. Inicie sesión nuevamente.',
+        en: 'The challenge expired. Please sign in again.',
+    },
+    INVALID_VERIFICATION_CODE: {
+        es: 'Código de verificación inválido.',
+        en: 'Invalid verification code.',
+    },
+    REFRESH_TOKEN_REQUIRED: {
+        es: 'El refresh token es obligatorio.',
+        en: 'The refresh token is required.',
+    },
+    SESSION_INVALID: {
+        es: 'Sesión inválida o expirada. Inicie sesión nuevamente.',
+        en: 'Invalid or expired session. Please sign in again.',
+    },
+    LOGGED_OUT: {
+        es: 'Sesión cerrada exitosamente.',
+        en: 'Signed out successfully.',
+    },
+    EMAIL_REQUIRED: {
+        es: 'El email es obligatorio.',
+        en: 'The email is required.',
+    },
+    PASSWORD_RESET_REQUESTED: {
+        es: 'Si el email está registrado, recibirá un enlace para restablecer la contraseña.',
+        en: 'If the email is registered, you will receive a link to reset your password.',
+    },
+    TOKEN_AND_PASSWORD_REQUIRED: {
+        es: 'El token y la nueva contraseña son obligatorios.',
+        en: 'The token and the new password are required.',
+    },
+    PASSWORD_RESET_LINK_INVALID: {
+        es: 'El enlace de restablecimiento no es válido o ha expirado.',
+        en: 'The reset link is invalid or has expired.',
+    },
+    PASSWORD_RESET_SIGN_IN: {
+        es: 'Contraseña restablecida exitosamente. Inicie sesión nuevamente.',
+        en: 'Password reset successfully. Please sign in again.',
+    },
+    INVITATION_TOKEN_REQUIRED: {
+        es: 'El token de invitación es obligatorio.',
+        en: 'The invitation token is required.',
+    },
+    INVITATION_INVALID: {
+        es: 'La invitación no es válida o ha expirado.',
+        en: 'The invitation is invalid or has expired.',
+    },
+    ACCOUNT_ACTIVATED: {
+        es: 'Cuenta activada exitosamente. Ya puede iniciar sesión.',
+        en: 'Account activated successfully. You can now sign in.',
+    },
+    TWO_FACTOR_CODE_REQUIRED: {
+        es: 'Ingrese el código de su aplicación de autenticación.',
+        en: 'Enter the code from your authenticator app.',
+    },
+    TWO_FACTOR_SETUP_REQUIRED: {
+        es: 'Su clínica exige autenticación en dos pasos. Configúrela para continuar.',
+        en: 'Your clinic requires two-step authentication. Set it up to continue.',
+    },
+    LOGIN_SUCCESS: {
+        es: p => p.role ? `Inicio de sesión exitoso como ${p.role}.` : 'Inicio de sesión exitoso.',
+        en: p => p.role ? `Signed in successfully as ${p.role}.` : 'Signed in successfully.',
+    },
+    SESSION_REFRESHED: {
+        es: 'Sesión renovada.',
+        en: 'Session renewed.',
+    },
+    LOGIN_LOCKED: {
+        es: 'Cuenta bloqueada temporalmente por demasiados intentos fallidos. Intente nuevamente en {minutes} minuto(s).',
+        en: 'Account temporarily locked after too many failed attempts. Try again in {minutes} minute(s).',
+    },
+    LOGIN_THROTTLED: {
+        es: 'Demasiados intentos fallidos. Espere {seconds} segundo(s) antes de reintentar.',
+        en: 'Too many failed attempts. Wait {seconds} second(s) before retrying.',
+    },
+
+    // 🔑 Autenticación en dos pasos
+    TWO_FACTOR_ALREADY_ENABLED: {
+        es: 'La autenticación en dos pasos ya está activada.',
+        en: 'Two-step authentication is already enabled.',
+    },
+    VERIFICATION_CODE_REQUIRED: {
+        es: 'El código de verificación es obligatorio.',
+        en: 'The verification code is required.',
+    },
+    TWO_FACTOR_SETUP_NOT_STARTED: {
+        es: 'Primero debe iniciar la configuración de 2FA.',
+        en: 'You must start the 2FA setup first.',
+    },
+    PASSWORD_AND_CODE_REQUIRED: {
+        es: 'Se requieren la contraseña y un código de verificación.',
+        en: 'The password and a verification code are required.',
+    },
+    TWO_FACTOR_NOT_ENABLED: {
+        es: 'La autenticación en dos pasos no está activada.',
+        en: 'Two-step authentication is not enabled.',
+    },
+    TWO_FACTOR_REQUIRED_FOR_ROLE: {
+        es: 'Su clínica exige autenticación en dos pasos para su rol.',
+        en: 'Your clinic requires two-step authentication for your role.',
+    },
+    TWO_FACTOR_DISABLED: {
+        es: 'Autenticación en dos pasos desactivada.',
+        en: 'Two-step authentication disabled.',
+    },
+    TWO_FACTOR_SETUP_STARTED: {
+        es: 'Escanee el código en su aplicación de autenticación y confirme con un código.',
+        en: 'Scan the code in your authenticator app and confirm with a code.',
+    },
+    TWO_FACTOR_ENABLED: {
+        es: 'Autenticación en dos pasos activada. Guarde sus códigos de recuperación en un lugar seguro.',
+        en: 'Two-step authentication enabled. Keep your recovery codes in a safe place.',
+    },
+    RECOVERY_CODES_REGENERATED: {
+        es: 'Códigos de recuperación regenerados.',
+        en: 'Recovery codes regenerated.',
+    },
+
+    // 👤 Clientes
+    PASSWORDS_REQUIRED: {
+        es: 'La contraseña actual y la nueva son obligatorias.',
+        en: 'The current and new passwords are required.',
+    },
+    INCORRECT_CURRENT_PASSWORD: {
+        es: 'La contraseña actual es incorrecta.',
+        en: 'The current password is incorrect.',
+    },
+    PASSWORD_CHANGED: {
+        es: 'Contraseña actualizada. Inicie sesión nuevamente.',
+        en: 'Password updated. Please sign in again.',
+    },
+    PASSWORD_CONFIRMATION_REQUIRED: {
+        es: 'Debe confirmar con su contraseña.',
+        en: 'You must confirm with your password.',
+    },
+    INCORRECT_PASSWORD: {
+        es: 'La contraseña es incorrecta.',
+        en: 'The password is incorrect.',
+    },
+    ACCOUNT_DELETED: {
+        es: 'Su cuenta fue eliminada. Sus datos personales fueron anonimizados.',
+        en: 'Your account was deleted. Your personal data was anonymized.',
+    },
+    PROFILE_UPDATED: {
+        es: 'Perfil actualizado exitosamente.',
+        en: 'Profile updated successfully.',
+    },
+    REGISTRATION_FIELDS_REQUIRED: {
+        es: 'Nombre, email y contraseña son obligatorios.',
+        en: 'Name, email and password are required.',
+    },
+    EMAIL_IN_USE: {
+        es: 'El correo electrónico ya está en uso.',
+        en: 'The email address is already in use.',
+    },
+    VERIFICATION_TOKEN_REQUIRED: {
+        es: 'El token de verificación es obligatorio.',
+        en: 'The verification token is required.',
+    },
+    VERIFICATION_LINK_INVALID: {
+        es: 'El enlace de verificación no es válido o ha expirado.',
+        en: 'The verification link is invalid or has expired.',
+    },
+    EMAIL_VERIFIED: {
+        es: 'Correo electrónico verificado exitosamente.',
+        en: 'Email address verified successfully.',
+    },
+    VERIFICATION_RESENT: {
+        es: 'Si la cuenta está pendiente de verificación, recibirá un nuevo enlace.',
+        en: 'If the account is pending verification, you will receive a new link.',
+    },
+    PASSWORD_RESET: {
+        es: 'Contraseña restablecida exitosamente.',
+        en: 'Password reset successfully.',
+    },
+    CLIENT_REGISTERED: {
+        es: 'Usuario registrado exitosamente. Revise su correo para verificar la cuenta.',
+        en: 'User registered successfully. Check your email to verify the account.',
+    },
+
+    // 👥 Personal e invitaciones
+    STAFF_INVITATION_NOT_SENT: {
+        es: 'El personal fue creado, pero no se pudo enviar la invitación. Intente reenviarla.',
+        en: 'The staff member was created, but the invitation could not be sent. Try resending it.',
+    },
+    INVALID_BRANCH_IDS: {
+        es: 'branchIds debe ser una lista de IDs de sucursal.',
+        en: 'branchIds must be a list of branch IDs.',
+    },
+    STAFF_DELETED: {
+        es: 'Personal eliminado exitosamente.',
+        en: 'Staff member deleted successfully.',
+    },
+    STAFF_LISTED: {
+        es: 'Lista de personal obtenida exitosamente',
+        en: 'Staff list retrieved successfully.',
+    },
+    STAFF_UPDATED: {
+        es: 'Personal actualizado exitosamente.',
+        en: 'Staff member updated successfully.',
+    },
+    STAFF_SESSIONS_REVOKED: {
+        es: 'Todas las sesiones del personal fueron cerradas.',
+        en: 'All sessions of the staff member were closed.',
+    },
+    STAFF_BRANCHES_UPDATED: {
+        es: 'Sucursales del personal actualizadas.',
+        en: 'Staff branches updated.',
+    },
+    STAFF_NOT_FOUND: {
+        es: p => p.staffId ? `Personal con ID ${p.staffId} no encontrado en este inquilino.` : 'Personal no encontrado.',
+        en: p => p.staffId ? `Staff member with ID ${p.staffId} not found in this tenant.` : 'Staff member not found.',
+    },
+    LOGIN_BLOCKS_NOT_FOUND: {
+        es: "No hay bloqueos registrados para '{email}'.",
+        en: "There are no recorded lockouts for '{email}'.",
+    },
+    ACCOUNT_UNLOCKED: {
+        es: "Cuenta '{email}' desbloqueada exitosamente.",
+        en: "Account '{email}' unlocked successfully.",
+    },
+    EMAIL_BELONGS_TO_CLIENT: {
+        es: "El email '{email}' pertenece a un cliente de esta clínica.",
+        en: "The email '{email}' belongs to a client of this clinic.",
+    },
+    EMAIL_ALREADY_REGISTERED: {
+        es: "El email '{email}' ya está registrado.",
+        en: "The email '{email}' is already registered.",
+    },
+    INVITATION_SENT: {
+        es: 'Invitación enviada a {email} para unirse como {role}.',
+        en: 'Invitation sent to {email} to join as {role}.',
+    },
+    NO_PENDING_INVITATION: {
+        es: 'No hay una invitación pendiente para el personal con ID {staffId}.',
+        en: 'There is no pending invitation for the staff member with ID {staffId}.',
+    },
+    INVITATION_RESENT: {
+        es: 'Invitación reenviada a {email}.',
+        en: 'Invitation resent to {email}.',
+    },
+    INVITATION_REVOKED: {
+        es: 'Invitación de {email} revocada.',
+        en: 'Invitation for {email} revoked.',
+    },
+
+    // 🛡️ Permisos
+    INVALID_STAFF_ROLE: {
+        es: 'Rol de personal no válido.',
+        en: 'Invalid staff role.',
+    },
+    UNKNOWN_PERMISSIONS: {
+        es: 'Permisos desconocidos: {permissions}',
+        en: 'Unknown permissions: {permissions}',
+    },
+    ROLE_PERMISSIONS_UPDATED: {
+        es: 'Permisos del rol {role} actualizados.',
+        en: 'Permissions of the {role} role updated.',
+    },
+    ROLE_PERMISSIONS_RESET: {
+        es: 'Permisos del rol {role} restablecidos a los valores por defecto.',
+        en: 'Permissions of the {role} role reset to the defaults.',
+    },
+
+    // 🔌 Claves de API
+    API_KEY_NAME_REQUIRED: {
+        es: 'El nombre de la clave es obligatorio.',
+        en: 'The key name is required.',
+    },
+    API_KEY_SCOPES_REQUIRED: {
+        es: 'Debe indicar al menos un scope.',
+        en: 'You must specify at least one scope.',
+    },
+    API_KEY_NOT_FOUND: {
+        es: 'Clave de API no encontrada o ya revocada.',
+        en: 'API key not found or already revoked.',
+    },
+    API_KEY_REVOKED: {
+        es: 'Clave de API revocada.',
+        en: 'API key revoked.',
+    },
+    API_KEY_CREATED: {
+        es: 'Clave de API creada. Cópiela ahora: no se volverá a mostrar.',
+        en: 'API key created. Copy it now: it will not be shown again.',
+    },
+    UNKNOWN_SCOPES: {
+        es: 'Scopes desconocidos: {scopes}',
+        en: 'Unknown scopes: {scopes}',
+    },
+    API_KEY_SCOPES_NOT_ALLOWED: {
+        es: 'No puede crear una clave con permisos que usted no tiene. Scopes no permitidos: {scopes}',
+        en: 'You cannot create a key with permissions you do not have. Scopes not allowed: {scopes}',
+    },
+
+    // ⚙️ Perfil, marca y configuración de la clínica
+    TENANT_MISMATCH: {
+        es: 'Inconsistencia de inquilino. El recurso solicitado no coincide con su sesión.',
+        en: 'Tenant mismatch. The requested resource does not match your session.',
+    },
+    BUSINESS_HOURS_REQUIRED: {
+        es: 'Debe enviar weekly y/o closures.',
+        en: 'You must send weekly and/or closures.',
+    },
+    NO_BRANDING_CHANGES: {
+        es: 'No se envió ningún cambio de marca.',
+        en: 'No branding changes were sent.',
+    },
+    TENANT_PROFILE_RETRIEVED: {
+        es: 'Perfil del inquilino obtenido exitosamente',
+        en: 'Tenant profile retrieved successfully.',
+    },
+    BUSINESS_HOURS_UPDATED: {
+        es: 'Horario actualizado exitosamente.',
+        en: 'Business hours updated successfully.',
+    },
+    SETTINGS_UPDATED: {
+        es: 'Configuración actualizada exitosamente.',
+        en: 'Settings updated successfully.',
+    },
+    SECURITY_POLICY_UPDATED: {
+        es: 'Política de seguridad actualizada.',
+        en: 'Security policy updated.',
+    },
+    BRANDING_UPDATED: {
+        es: 'Marca de la clínica actualizada exitosamente.',
+        en: 'Clinic branding updated successfully.',
+    },
+    TENANT_PROFILE_UNCHANGED: {
+        es: 'Perfil del inquilino actualizado exitosamente (sin cambios en los datos enviados).',
+        en: 'Tenant profile updated successfully (the submitted data had no changes).',
+    },
+    TENANT_PROFILE_UPDATED: {
+        es: 'Perfil del inquilino actualizado exitosamente!',
+        en: 'Tenant profile updated successfully.',
+    },
+    SETTINGS_NOT_OBJECT: {
+        es: 'La configuración debe ser un objeto.',
+        en: 'The settings must be an object.',
+    },
+    INVALID_SETTING_KEY: {
+        es: "Clave no válida: '{key}'. Valores permitidos: {allowed}.",
+        en: "Invalid key: '{key}'. Allowed values: {allowed}.",
+    },
+    SETTING_OUT_OF_RANGE: {
+        es: "'{key}' debe ser un entero entre {min} y {max}.",
+        en: "'{key}' must be an integer between {min} and {max}.",
+    },
+    INVALID_CURRENCY: {
+        es: "'{key}' debe ser un código ISO 4217 (e.g. PEN, USD).",
+        en: "'{key}' must be an ISO 4217 code (e.g. PEN, USD).",
+    },
+    INVALID_TIMEZONE: {
+        es: "'{key}' debe ser una zona horaria IANA (e.g. America/Lima).",
+        en: "'{key}' must be an IANA time zone (e.g. America/Lima).",
+    },
+    INVALID_LOCALE: {
+        es: "'{key}' debe ser uno de los idiomas soportados: {allowed}.",
+        en: "'{key}' must be one of the supported languages: {allowed}.",
+    },
+    INVALID_IMAGE_FILES: {
+        es: 'El logo y el favicon deben ser imágenes.',
+        en: 'The logo and the favicon must be images.',
+    },
+    INVALID_HEX_COLOR: {
+        es: '{field} debe ser un color hexadecimal (e.g., {example}).',
+        en: '{field} must be a hexadecimal color (e.g., {example}).',
+    },
+    UNSUPPORTED_SOCIAL_NETWORK: {
+        es: "Red social no soportada: '{network}'. Valores permitidos: {allowed}.",
+        en: "Unsupported social network: '{network}'. Allowed values: {allowed}.",
+    },
+    INVALID_SOCIAL_LINK: {
+        es: "El enlace de '{network}' debe ser una URL http(s) válida.",
+        en: "The '{network}' link must be a valid http(s) URL.",
+    },
+
+    // 🕒 Horario de atención
+    INVALID_WEEKLY_HOURS: {
+        es: 'weekly debe ser un objeto con los días de la semana.',
+        en: 'weekly must be an object with the days of the week.',
+    },
+    INVALID_WEEKDAY: {
+        es: "Día no válido: '{day}'. Valores permitidos: {allowed}.",
+        en: "Invalid day: '{day}'. Allowed values: {allowed}.",
+    },
+    SHIFTS_NOT_LIST: {
+        es: "Los turnos de '{day}' deben ser una lista.",
+        en: "The shifts of '{day}' must be a list.",
+    },
+    INVALID_SHIFT_TIME: {
+        es: "Los turnos de '{day}' deben tener opens y closes en formato HH:MM.",
+        en: "The shifts of '{day}' must have opens and closes in HH:MM format.",
+    },
+    SHIFT_OPENS_AFTER_CLOSE: {
+        es: "En '{day}', la hora de apertura ({opens}) debe ser anterior a la de cierre ({closes}).",
+        en: "On '{day}', the opening time ({opens}) must be earlier than the closing time ({closes}).",
+    },
+    SHIFTS_OVERLAP: {
+        es: "Los turnos de '{day}' se solapan.",
+        en: "The shifts of '{day}' overlap.",
+    },
+    INVALID_CLOSURE_DATE: {
+        es: 'Cada cierre debe tener una fecha (date) en formato YYYY-MM-DD.',
+        en: 'Each closure must have a date in YYYY-MM-DD format.',
+    },
+    CLINIC_CLOSED: {
+        es: p => p.time ? `La clínica no atiende a las ${p.time} ese día. Horario: ${p.schedule}.`
+            : p.weekday !== undefined ? `La clínica no atiende los ${WEEKDAY_NAMES.es[Number(p.weekday)]}. Horario: ${p.schedule}.`
+            : `La clínica está cerrada el ${p.date}${p.reason ? ` (${p.reason})` : ''}.`,
+        en: p => p.time ? `The clinic is not open at ${p.time} that day. Hours: ${p.schedule}.`
+            : p.weekday !== undefined ? `The clinic is not open on ${WEEKDAY_NAMES.en[Number(p.weekday)]}. Hours: ${p.schedule}.`
+            : `The clinic is closed on ${p.date}${p.reason ? ` (${p.reason})` : ''}.`,
+    },
+
+    // 🩺 Servicios
+    SERVICE_DEACTIVATED: {
+        es: 'Servicio desactivado exitosamente!',
+        en: 'Service deactivated successfully.',
+    },
+    SERVICE_ACTIVATED: {
+        es: 'Servicio activado exitosamente!',
+        en: 'Service activated successfully.',
+    },
+    SERVICES_LISTED: {
+        es: 'Servicios obtenidos exitosamente',
+        en: 'Services retrieved successfully.',
+    },
+    SERVICE_CREATED: {
+        es: 'Servicio creado exitosamente!',
+        en: 'Service created successfully.',
+    },
+    SERVICE_UPDATED: {
+        es: 'Servicio actualizado exitosamente!',
+        en: 'Service updated successfully.',
+    },
+    SERVICE_NOT_FOUND: {
+        es: 'Servicio con ID {serviceId} no encontrado para este inquilino.',
+        en: 'Service with ID {serviceId} not found for this tenant.',
+    },
+
+    // 🗂️ Categorías
+    NAME_REQUIRED: {
+        es: 'El nombre es obligatorio.',
+        en: 'The name is required.',
+    },
+    CATEGORY_NOT_FOUND: {
+        es: 'Categoría no encontrada.',
+        en: 'Category not found.',
+    },
+    CATEGORY_UPDATED: {
+        es: 'Categoría actualizada.',
+        en: 'Category updated.',
+    },
+    CATEGORY_ACTIVATED: {
+        es: 'Categoría activada.',
+        en: 'Category activated.',
+    },
+    CATEGORY_DEACTIVATED: {
+        es: 'Categoría desactivada.',
+        en: 'Category deactivated.',
+    },
+    CATEGORY_CREATED: {
+        es: 'Categoría creada.',
+        en: 'Category created.',
+    },
+
+    // 📦 Productos
+    PRODUCT_CREATED: {
+        es: 'Producto creado exitosamente.',
+        en: 'Product created successfully.',
+    },
+    PRODUCT_UPDATED: {
+        es: 'Producto actualizado exitosamente.',
+        en: 'Product updated successfully.',
+    },
+    PRODUCT_NOT_FOUND: {
+        es: p => p.productId ? `Producto ID ${p.productId} no encontrado.` : 'Producto no encontrado.',
+        en: p => p.productId ? `Product ID ${p.productId} not found.` : 'Product not found.',
+    },
+    PRODUCT_ACTIVATED: {
+        es: 'Producto activado.',
+        en: 'Product activated.',
+    },
+    PRODUCT_DEACTIVATED: {
+        es: 'Producto desactivado.',
+        en: 'Product deactivated.',
+    },
+
+    // 🏬 Sucursales
+    BRANCH_NOT_FOUND: {
+        es: p => p.branchId ? `Sucursal ${p.branchId} no encontrada.` : 'Sucursal no encontrada.',
+        en: p => p.branchId ? `Branch ${p.branchId} not found.` : 'Branch not found.',
+    },
+    BRANCH_HOURS_REQUIRED: {
+        es: 'Debe enviar weekly (o null para usar el horario de la clínica).',
+        en: "You must send weekly (or null to use the clinic's hours).",
+    },
+    STOCK_ITEMS_REQUIRED: {
+        es: 'Debe enviar items: [{ productId, stock }].',
+        en: 'You must send items: [{ productId, stock }].',
+    },
+    INVALID_STOCK: {
+        es: 'El stock de cada producto debe ser un entero mayor o igual a 0.',
+        en: 'The stock of each product must be an integer greater than or equal to 0.',
+    },
+    BRANCH_STOCK_UPDATED: {
+        es: 'Stock de la sucursal actualizado.',
+        en: 'Branch stock updated.',
+    },
+    BRANCH_CREATED: {
+        es: 'Sucursal creada exitosamente.',
+        en: 'Branch created successfully.',
+    },
+    BRANCH_UPDATED: {
+        es: 'Sucursal actualizada exitosamente.',
+        en: 'Branch updated successfully.',
+    },
+    BRANCH_HOURS_UPDATED: {
+        es: 'Horario de la sucursal actualizado.',
+        en: 'Branch hours updated.',
+    },
+    BRANCH_NAME_TAKEN: {
+        es: "Ya existe una sucursal llamada '{name}'.",
+        en: "A branch named '{name}' already exists.",
+    },
+    BRANCH_REQUIRED: {
+        es: 'Debe elegir una sucursal (branchId).',
+        en: 'You must choose a branch (branchId).',
+    },
+    BRANCH_UNAVAILABLE: {
+        es: 'La sucursal elegida no existe o no está activa.',
+        en: 'The chosen branch does not exist or is not active.',
+    },
+
+    // 🛒 Pedidos
+    ORDER_FIELDS_REQUIRED: {
+        es: 'Faltan productos o fecha de recojo.',
+        en: 'Products or pickup date are missing.',
+    },
+    INVALID_PICKUP_DATE: {
+        es: 'La fecha de recojo debe tener el formato YYYY-MM-DD.',
+        en: 'The pickup date must use the YYYY-MM-DD format.',
+    },
+    ORDER_NOT_FOUND: {
+        es: 'Pedido no encontrado.',
+        en: 'Order not found.',
+    },
+    ORDER_CANCELLED_FINAL: {
+        es: 'Un pedido cancelado no puede reactivarse.',
+        en: 'A cancelled order cannot be reactivated.',
+    },
+    ORDER_CREATED: {
+        es: 'Reserva creada exitosamente.',
+        en: 'Reservation created successfully.',
+    },
+    ORDER_STATUS_UPDATED: {
+        es: 'Estado del pedido actualizado.',
+        en: 'Order status updated.',
+    },
+    PICKUP_DATE_NOT_FUTURE: {
+        es: 'La fecha de recojo debe ser en el futuro.',
+        en: 'The pickup date must be in the future.',
+    },
+    PICKUP_DATE_TOO_FAR: {
+        es: 'La fecha de recojo no puede superar los {days} días.',
+        en: 'The pickup date cannot be more than {days} days away.',
+    },
+    PRODUCT_UNAVAILABLE: {
+        es: 'El producto ID {productId} no está disponible.',
+        en: 'Product ID {productId} is not available.',
+    },
+    INSUFFICIENT_STOCK: {
+        es: 'Stock insuficiente para el producto ID {productId}.',
+        en: 'Insufficient stock for product ID {productId}.',
+    },
+
+    // 📅 Citas
+    TENANT_UNVERIFIED: {
+        es: 'No se pudo verificar el inquilino del usuario autenticado.',
+        en: 'The tenant of the authenticated user could not be verified.',
+    },
+    CLIENT_BOOKING_SELF_ONLY: {
+        es: 'Acceso denegado. Un cliente solo puede reservar para sí mismo.',
+        en: 'Access denied. A client can only book for themselves.',
+    },
+    CLIENT_NOT_FOUND: {
+        es: 'Cliente no encontrado.',
+        en: 'Client not found.',
+    },
+    INVALID_APPOINTMENT_DATE: {
+        es: 'La fecha de la cita debe tener el formato YYYY-MM-DD.',
+        en: 'The appointment date must use the YYYY-MM-DD format.',
+    },
+    INVALID_APPOINTMENT_TIME: {
+        es: 'La hora de la cita debe tener el formato HH:MM.',
+        en: 'The appointment time must use the HH:MM format.',
+    },
+    SLOT_TAKEN: {
+        es: 'Este horario ya está reservado.',
+        en: 'This time slot is already booked.',
+    },
+    APPOINTMENT_CREATED: {
+        es: 'Cita agendada con éxito',
+        en: 'Appointment booked successfully.',
+    },
+    APPOINTMENT_IN_PAST: {
+        es: 'La fecha y hora de la cita ya pasaron.',
+        en: 'The appointment date and time have already passed.',
+    },
+    BOOKING_LEAD_TIME_REQUIRED: {
+        es: 'Las citas deben agendarse con al menos {hours} hora(s) de anticipación.',
+        en: 'Appointments must be booked at least {hours} hour(s) in advance.',
+    },
+    APPOINTMENT_NOT_FOUND: {
+        es: 'Cita no encontrada.',
+        en: 'Appointment not found.',
+    },
+    APPOINTMENT_UPDATED: {
+        es: 'Cita actualizada con éxito.',
+        en: 'Appointment updated successfully.',
+    },
+    INVALID_STAFF_ASSIGNMENT: {
+        es: 'El profesional no existe o no está activo en esta clínica.',
+        en: 'The staff member does not exist or is not active in this clinic.',
+    },
+    STAFF_SLOT_TAKEN: {
+        es: 'El profesional ya tiene otra cita en este horario.',
+        en: 'The staff member already has another appointment at this time.',
+    },
+    INVALID_CALENDAR_VIEW: {
+        es: 'Vista de calendario no válida. Valores permitidos: {allowed}.',
+        en: 'Invalid calendar view. Allowed values: {allowed}.',
+    },
+
+    // 📊 Límites del plan
+    PLAN_LIMIT_STAFF: {
+        es: 'Se alcanzó el máximo de miembros del personal de su plan.',
+        en: "Your plan's maximum number of staff members has been reached.",
+    },
+    PLAN_LIMIT_PRODUCTS: {
+        es: 'Se alcanzó el máximo de productos de su plan.',
+        en: "Your plan's maximum number of products has been reached.",
+    },
+    PLAN_LIMIT_SERVICES: {
+        es: 'Se alcanzó el máximo de servicios de su plan.',
+        en: "Your plan's maximum number of services has been reached.",
+    },
+    PLAN_LIMIT_MONTHLY_APPOINTMENTS: {
+        es: 'Se alcanzó el máximo de citas del mes de su plan.',
+        en: "Your plan's maximum number of appointments this month has been reached.",
+    },
+    PLAN_LIMIT_STORAGE: {
+        es: 'Se alcanzó el espacio de almacenamiento de su plan.',
+        en: "Your plan's storage space has been reached.",
+    },
+
+    // 🛠️ Plataforma (API externa)
+    SERVER_MISCONFIGURED: {
+        es: 'Error de configuración del servidor.',
+        en: 'Server configuration error.',
+    },
+    INVALID_DOMAIN: {
+        es: 'El dominio no es válido (e.g., vetchavez.pe).',
+        en: 'The domain is not valid (e.g., vetchavez.pe).',
+    },
+    PLAN_CODE_REQUIRED: {
+        es: 'Falta el campo planCode (use null para quitar el plan).',
+        en: 'The planCode field is missing (use null to remove the plan).',
+    },
+    INVALID_SLUG: {
+        es: 'El slug solo puede tener minúsculas, números y guiones.',
+        en: 'The slug can only contain lowercase letters, numbers and hyphens.',
+    },
+    PASSWORD_TOO_SHORT: {
+        es: 'La contraseña debe tener al menos 8 caracteres.',
+        en: 'The password must be at least 8 characters long.',
+    },
+    ADMIN_NOT_FOUND: {
+        es: 'Administrador no encontrado en este inquilino.',
+        en: 'Administrator not found in this tenant.',
+    },
+    TENANT_REGISTERED: {
+        es: 'Empresa y usuario administrador creados exitosamente!',
+        en: 'Company and admin user created successfully.',
+    },
+    DOMAIN_ALREADY_VERIFIED: {
+        es: 'El dominio ya está verificado.',
+        en: 'The domain is already verified.',
+    },
+    DOMAIN_TXT_NOT_FOUND: {
+        es: 'No se encontró el registro TXT de verificación. La propagación DNS puede tardar unos minutos.',
+        en: 'The verification TXT record was not found. DNS propagation may take a few minutes.',
+    },
+    PLAN_CREATED: {
+        es: 'Plan creado con éxito.',
+        en: 'Plan created successfully.',
+    },
+    PLAN_UPDATED: {
+        es: 'Plan actualizado con éxito.',
+        en: 'Plan updated successfully.',
+    },
+    TENANT_UPDATED: {
+        es: 'Inquilino actualizado con éxito.',
+        en: 'Tenant updated successfully.',
+    },
+    TENANT_SLUG_TAKEN: {
+        es: "El ID de inquilino '{slug}' ya está en uso.",
+        en: "The tenant ID '{slug}' is already in use.",
+    },
+    PLATFORM_SUBDOMAIN_RESERVED: {
+        es: 'Los subdominios de {base} se asignan automáticamente.',
+        en: 'Subdomains of {base} are assigned automatically.',
+    },
+    DOMAIN_IN_USE: {
+        es: "El dominio '{domain}' ya está asociado a otra clínica.",
+        en: "The domain '{domain}' is already linked to another clinic.",
+    },
+    DOMAIN_ALREADY_LINKED: {
+        es: 'El dominio ya estaba asociado y verificado.',
+        en: 'The domain was already linked and verified.',
+    },
+    DOMAIN_ATTACHED: {
+        es: 'Dominio asociado. Publique el registro TXT indicado y luego verifíquelo.',
+        en: 'Domain linked. Publish the indicated TXT record and then verify it.',
+    },
+    DOMAIN_NOT_LINKED: {
+        es: "El dominio '{domain}' no está asociado a este inquilino.",
+        en: "The domain '{domain}' is not linked to this tenant.",
+    },
+    DOMAIN_VERIFIED: {
+        es: "Dominio '{domain}' verificado. Ya puede usarse para la tienda.",
+        en: "Domain '{domain}' verified. It can now be used for the store.",
+    },
+    DOMAIN_REMOVED: {
+        es: "Dominio '{domain}' desasociado.",
+        en: "Domain '{domain}' unlinked.",
+    },
+    TENANT_STATUS_UNCHANGED: {
+        es: "El inquilino ya está en estado '{status}'.",
+        en: "The tenant is already in the '{status}' status.",
+    },
+    TENANT_CLOSED_PENDING_PURGE: {
+        es: 'Clínica cerrada. Sus datos se eliminarán a partir de {purgeAfter} salvo que se reactive antes.',
+        en: 'Clinic closed. Its data will be deleted from {purgeAfter} unless it is reactivated before then.',
+    },
+    TENANT_STATUS_UPDATED: {
+        es: "Estado de la clínica actualizado a '{status}'.",
+        en: "Clinic status updated to '{status}'.",
+    },
+    TENANTS_PURGED: {
+        es: '{count} clínica(s) purgada(s).',
+        en: '{count} clinic(s) purged.',
+    },
+    PLAN_EXISTS: {
+        es: "El plan '{code}' ya existe.",
+        en: "The plan '{code}' already exists.",
+    },
+    PLAN_NOT_FOUND: {
+        es: "Plan '{code}' no encontrado.",
+        en: "Plan '{code}' not found.",
+    },
+    PLAN_ASSIGNED: {
+        es: "Plan '{plan}' asignado a '{slug}'.",
+        en: "Plan '{plan}' assigned to '{slug}'.",
+    },
+    PLAN_REMOVED: {
+        es: "'{slug}' quedó sin plan (sin límites).",
+        en: "'{slug}' no longer has a plan (no limits).",
+    },
+    UNKNOWN_PLAN_RESOURCE: {
+        es: "Recurso desconocido: '{resource}'. Valores permitidos: {allowed}.",
+        en: "Unknown resource: '{resource}'. Allowed values: {allowed}.",
+    },
+    INVALID_PLAN_LIMIT: {
+        es: "El límite de '{resource}' debe ser un entero mayor o igual a 0, o null.",
+        en: "The limit of '{resource}' must be an integer greater than or equal to 0, or null.",
+    },
+    TENANT_IMPORTED: {
+        es: "Clínica '{source}' importada como '{slug}'.",
+        en: "Clinic '{source}' imported as '{slug}'.",
+    },
+    INVALID_ARCHIVE_FORMAT: {
+        es: 'El archivo no es un respaldo de clínica válido (se espera .json.gz).',
+        en: 'The file is not a valid clinic backup (.json.gz expected).',
+    },
+    INVALID_ARCHIVE: {
+        es: 'El archivo no es un respaldo de clínica válido.',
+        en: 'The file is not a valid clinic backup.',
+    },
+    UNSUPPORTED_ARCHIVE_VERSION: {
+        es: 'Versión de respaldo no soportada ({version}).',
+        en: 'Unsupported backup version ({version}).',
+    },
+    ARCHIVE_MISSING_REFERENCE: {
+        es: "El respaldo hace referencia a un registro de '{entity}' ({id}) que no está incluido.",
+        en: "The backup references a '{entity}' record ({id}) that is not included.",
+    },
+    ADMIN_PASSWORD_RESET: {
+        es: 'Contraseña de {email} restablecida. Se cerraron {sessions} sesión(es).',
+        en: 'Password of {email} reset. {sessions} session(s) were closed.',
+    },
+} satisfies Record<string, Record<Locale, MessageTemplate>>;
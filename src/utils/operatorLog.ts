@@ -0,0 +1,51 @@
+// src/utils/operatorLog.ts
+// Bitácora de los operadores de la plataforma: cada acción hecha con la API externa (solo inserción).
+import { Request } from 'express';
+import pool from '../db';
+import { computeDiff } from './auditLog';
+import { getClientIp } from './loginThrottle';
+
+type OperatorValues = Record<string, unknown> | null | undefined;
+
+export interface OperatorAction {
+    action: string; // e.g. 'tenant.update'
+    tenant?: { id: number; slug: string } | null;
+    entityType?: string;
+    entityId?: string | number | null;
+    before?: OperatorValues;
+    after?: OperatorValues;
+}
+
+// El token de la API externa es compartido: el operador se identifica con la cabecera X-Operator
+export const getOperatorName = (req: Request): string => {
+    const header = req.headers['x-operator'];
+    return typeof header === 'string' && header.trim() ? header.trim().slice(0, 100) : 'external-api';
+};
+
+// -----------------------------------------------------------------------------
+// 📝 Registra la acción del operador. Igual que la auditoría de los inquilinos, es "best effort".
+// -----------------------------------------------------------------------------
+export const recordOperatorAction = async (req: Request, entry: OperatorAction) => {
+    const changes = computeDiff(entry.before, entry.after);
+    const userAgent = req.headers['user-agent'];
+
+    try {
+        await pool.execute(
+            `INSERT INTO operator_action_log (operator, action, tenant_id, tenant_slug, entity_type, entity_id, changes, ip_address, user_agent)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                getOperatorName(req),
+                entry.action,
+                entry.tenant?.id ?? null,
+                entry.tenant?.slug ?? null,
+                entry.entityType ?? null,
+                entry.entityId !== undefined && entry.entityId !== null ? String(entry.entityId) : null,
+                Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
+                getClientIp(req),
+                userAgent ? userAgent.slice(0, 255) : null,
+            ]
+        );
+    } catch (error) {
+        console.error(`Error al registrar la acción del operador (${entry.action}):`, error);
+    }
+};
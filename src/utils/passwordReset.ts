@@ -0,0 +1,128 @@
+// src/utils/passwordReset.ts
+// Flujo de "olvidé mi contraseña" compartido por el personal (`staff`) y los clientes (`clients`).
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import pool from '../db';
+import { sendMail } from './mailer';
+import { revokeAllSessions, SessionUserType } from './sessions';
+
+const USER_TABLES: Record<SessionUserType, string> = {
+    staff: 'staff',
+    client: 'clients',
+};
+
+// El personal con invitación pendiente no puede restablecer (debe aceptar la invitación)
+const ACTIVE_USER_CONDITION: Record<SessionUserType, string> = {
+    staff: " AND status = 'active'",
+    client: '',
+};
+
+interface ResetTokenRow extends RowDataPacket {
+    id: number;
+    user_id: number;
+    expires_at: Date;
+    used_at: Date | null;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const getResetTtlMinutes = () => process.env.PASSWORD_RESET_TTL_MINUTES ? parseInt(process.env.PASSWORD_RESET_TTL_MINUTES) : 60;
+
+// -----------------------------------------------------------------------------
+// 📨 Genera un token de un solo uso y envía el enlace por correo.
+// No revela si el email existe: si no hay usuario, simplemente no envía nada.
+// -----------------------------------------------------------------------------
+export const requestPasswordReset = async (
+    tenantDbId: number,
+    userType: SessionUserType,
+    email: string,
+    buildResetLink: (token: string) => string
+): Promise<void> => {
+    const [users] = await pool.execute<RowDataPacket[]>(
+        `SELECT id, name, email FROM ${USER_TABLES[userType]} WHERE email = ? AND tenant_id = ?${ACTIVE_USER_CONDITION[userType]}`,
+        [email, tenantDbId]
+    );
+
+    if (users.length === 0) return;
+
+    const user = users[0];
+    const token = crypto.randomBytes(32).toString('hex');
+    const ttlMinutes = getResetTtlMinutes();
+
+    // Solo el último enlace solicitado es válido
+    await pool.execute(
+        'UPDATE password_reset_tokens SET used_at = NOW() WHERE tenant_id = ? AND user_type = ? AND user_id = ? AND used_at IS NULL',
+        [tenantDbId, userType, user.id]
+    );
+
+    await pool.execute(
+        `INSERT INTO password_reset_tokens (tenant_id, user_type, user_id, token_hash, expires_at)
+         VALUES (?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE))`,
+        [tenantDbId, userType, user.id, hashToken(token), ttlMinutes]
+    );
+
+    const resetLink = buildResetLink(token);
+    await sendMail({
+        to: user.email,
+        subject: 'Restablecer contraseña',
+        text: `Hola ${user.name},\n\nPara restablecer tu contraseña ingresa al siguiente enlace (válido por ${ttlMinutes} minutos):\n${resetLink}\n\nSi no solicitaste este cambio, ignora este correo.`,
+    });
+};
+
+// -----------------------------------------------------------------------------
+// 🔑 Consume el token y guarda la nueva contraseña. Cierra todas las sesiones del usuario.
+// Devuelve false si el token no existe, ya se usó o expiró.
+// -----------------------------------------------------------------------------
+export const resetPasswordWithToken = async (
+    tenantDbId: number,
+    userType: SessionUserType,
+    token: string,
+    newPassword: string
+): Promise<boolean> => {
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [rows] = await connection.execute<ResetTokenRow[]>(
+            `SELECT id, user_id, expires_at, used_at FROM password_reset_tokens
+             WHERE token_hash = ? AND tenant_id = ? AND user_type = ? FOR UPDATE`,
+            [hashToken(token), tenantDbId, userType]
+        );
+
+        const resetToken = rows[0];
+        if (!resetToken || resetToken.used_at !== null || new Date(resetToken.expires_at).getTime() <= Date.now()) {
+            await connection.rollback();
+            return false;
+        }
+
+        const saltRounds = process.env.SALT_ROUNDS ? parseInt(process.env.SALT_ROUNDS) : 10;
+        const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
+
+        const [updateResult] = await connection.execute<ResultSetHeader>(
+            `UPDATE ${USER_TABLES[userType]} SET password = ? WHERE id = ? AND tenant_id = ?`,
+            [hashedPassword, resetToken.user_id, tenantDbId]
+        );
+
+        if (updateResult.affectedRows === 0) {
+            await connection.rollback();
+            return false;
+        }
+
+        await connection.execute(
+            'UPDATE password_reset_tokens SET used_at = NOW() WHERE id = ?',
+            [resetToken.id]
+        );
+
+        await connection.commit();
+
+        await revokeAllSessions({ tenantDbId, userType, userId: resetToken.user_id });
+        return true;
+
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+};
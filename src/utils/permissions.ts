@@ -0,0 +1,70 @@
+// src/utils/permissions.ts
+// Catálogo de permisos y mapeo por rol (personalizable por inquilino).
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+import { UserRole } from './jwt';
+
+export const PERMISSIONS = {
+    'tenant.manage': 'Editar el perfil y la seguridad de la clínica',
+    'permissions.manage': 'Configurar los permisos de cada rol',
+    'audit.view': 'Consultar la bitácora de cambios administrativos',
+    'api_keys.manage': 'Crear y revocar claves de API para integraciones',
+    'staff.view': 'Ver el listado de personal',
+    'staff.manage': 'Crear, editar y eliminar personal; gestionar sus sesiones y bloqueos',
+    'services.write': 'Crear, editar, activar y desactivar servicios',
+    'products.view': 'Ver el catálogo de productos y categorías (incluye inactivos)',
+    'products.write': 'Crear y editar productos (precios y stock)',
+    'categories.write': 'Crear y editar categorías',
+    'branches.manage': 'Crear y editar sucursales y su horario',
+    'orders.view': 'Ver los pedidos de la clínica',
+    'orders.manage': 'Cambiar el estado de los pedidos (entregado, cancelado)',
+    'appointments.create': 'Agendar citas',
+    'appointments.view_all': 'Ver todas las citas de la clínica',
+    'appointments.view_own': 'Ver las citas asignadas a uno mismo',
+    'appointments.manage': 'Asignar el profesional y cambiar el estado de las citas',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export type ConfigurableRole = Exclude<UserRole, 'client'>;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Mapeo por defecto para los roles del personal
+export const DEFAULT_ROLE_PERMISSIONS: Record<ConfigurableRole, Permission[]> = {
+    admin: ALL_PERMISSIONS,
+    doctor: ['staff.view', 'products.view', 'appointments.create', 'appointments.view_own'],
+    receptionist: ['staff.view', 'products.view', 'orders.view', 'orders.manage', 'appointments.create', 'appointments.view_all', 'appointments.manage'],
+};
+
+// Los clientes tienen un conjunto fijo (no configurable por el inquilino)
+const CLIENT_PERMISSIONS: Permission[] = ['appointments.create'];
+
+export const isPermission = (value: unknown): value is Permission =>
+    typeof value === 'string' && value in PERMISSIONS;
+
+// El administrador nunca puede perder la gestión de permisos (evita dejar la clínica bloqueada)
+export const normalizeRolePermissions = (role: ConfigurableRole, permissions: unknown[]): Permission[] => {
+    const valid = Array.from(new Set(permissions.filter(isPermission)));
+    if (role === 'admin' && !valid.includes('permissions.manage')) {
+        valid.push('permissions.manage');
+    }
+    return valid;
+};
+
+// -----------------------------------------------------------------------------
+// 🔎 Permisos efectivos de un rol en un inquilino (personalización o mapeo por defecto)
+// -----------------------------------------------------------------------------
+export const getRolePermissions = async (tenantDbId: number, role: UserRole): Promise<Permission[]> => {
+    if (role === 'client') return CLIENT_PERMISSIONS;
+
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT permissions FROM tenant_role_permissions WHERE tenant_id = ? AND role = ?',
+        [tenantDbId, role]
+    );
+
+    if (rows.length === 0) return DEFAULT_ROLE_PERMISSIONS[role];
+
+    const stored = typeof rows[0].permissions === 'string' ? JSON.parse(rows[0].permissions) : rows[0].permissions;
+    return normalizeRolePermissions(role, Array.isArray(stored) ? stored : []);
+};
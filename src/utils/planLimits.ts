@@ -0,0 +1,195 @@
+// src/utils/planLimits.ts
+// Planes de suscripción: límites por recurso, uso actual del inquilino y verificación antes de crear.
+import fs from 'fs';
+import path from 'path';
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+import { ApiMessage, MessageCode, apiMessage } from './i18n';
+
+export type PlanResource = 'staff' | 'products' | 'services' | 'monthly_appointments' | 'storage_mb';
+
+export const PLAN_RESOURCES: PlanResource[] = ['staff', 'products', 'services', 'monthly_appointments', 'storage_mb'];
+
+// Columna de la tabla 'plans' que guarda el límite de cada recurso
+export const PLAN_LIMIT_COLUMNS: Record<PlanResource, string> = {
+    staff: 'max_staff',
+    products: 'max_products',
+    services: 'max_services',
+    monthly_appointments: 'max_monthly_appointments',
+    storage_mb: 'max_storage_mb',
+};
+
+// Códigos de error que recibe el frontend cuando se alcanza un límite (textos en utils/messages)
+export const PLAN_LIMIT_CODES: Record<PlanResource, MessageCode> = {
+    staff: 'PLAN_LIMIT_STAFF',
+    products: 'PLAN_LIMIT_PRODUCTS',
+    services: 'PLAN_LIMIT_SERVICES',
+    monthly_appointments: 'PLAN_LIMIT_MONTHLY_APPOINTMENTS',
+    storage_mb: 'PLAN_LIMIT_STORAGE',
+};
+
+export type PlanLimits = Record<PlanResource, number | null>;
+
+export interface TenantPlan {
+    id: number;
+    code: string;
+    name: string;
+    limits: PlanLimits;
+}
+
+export interface PlanLimitError extends ApiMessage {
+    resource: PlanResource;
+    limit: number;
+    used: number;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export const toPlanLimits = (row: RowDataPacket): PlanLimits => {
+    const limits = {} as PlanLimits;
+    for (const resource of PLAN_RESOURCES) {
+        const value = row[PLAN_LIMIT_COLUMNS[resource]];
+        limits[resource] = value === null || value === undefined ? null : Number(value);
+    }
+    return limits;
+};
+
+// -----------------------------------------------------------------------------
+// 📋 Valida los límites recibidos por la API externa. Solo se toman los recursos presentes;
+// null (o vacío) significa "sin límite". Devuelve un mensaje de error si algo no es válido.
+// -----------------------------------------------------------------------------
+export const parsePlanLimits = (raw: unknown): { limits?: Partial<PlanLimits>; error?: ApiMessage } => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { error: apiMessage('INVALID_OBJECT_FIELD', { field: 'limits' }) };
+    }
+
+    const limits: Partial<PlanLimits> = {};
+    for (const [resource, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (!PLAN_RESOURCES.includes(resource as PlanResource)) {
+            return { error: apiMessage('UNKNOWN_PLAN_RESOURCE', { resource, allowed: PLAN_RESOURCES.join(', ') }) };
+        }
+        if (value === null || value === '') {
+            limits[resource as PlanResource] = null;
+            continue;
+        }
+        const limit = Number(value);
+        if (!Number.isInteger(limit) || limit < 0) {
+            return { error: apiMessage('INVALID_PLAN_LIMIT', { resource }) };
+        }
+        limits[resource as PlanResource] = limit;
+    }
+    return { limits };
+};
+
+// 🔎 Plan asignado al inquilino (null = sin plan, es decir, sin límites)
+export const getTenantPlan = async (tenantDbId: number): Promise<TenantPlan | null> => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT p.*
+         FROM tenants t
+         JOIN plans p ON t.plan_id = p.id
+         WHERE t.id = ?`,
+        [tenantDbId]
+    );
+    if (rows.length === 0) return null;
+    return { id: rows[0].id, code: rows[0].code, name: rows[0].name, limits: toPlanLimits(rows[0]) };
+};
+
+// 💾 Espacio ocupado por las imágenes del inquilino (incluye logo y favicon propios)
+const getStorageUsageBytes = async (tenantDbId: number): Promise<number> => {
+    const [images] = await pool.execute<RowDataPacket[]>('SELECT url FROM images WHERE tenant_id = ?', [tenantDbId]);
+    const [tenantRows] = await pool.execute<RowDataPacket[]>('SELECT logo_url, favicon_url FROM tenants WHERE id = ?', [tenantDbId]);
+
+    const defaultLogoUrl = process.env.DEFAULT_LOGO_URL || '/uploads/icono.png';
+    const urls = images.map(image => image.url as string);
+    if (tenantRows.length > 0) urls.push(tenantRows[0].logo_url, tenantRows[0].favicon_url);
+
+    const uploadedFiles = Array.from(new Set(urls))
+        .filter(url => url && url.startsWith('/uploads/') && url !== defaultLogoUrl);
+
+    const sizes = await Promise.all(uploadedFiles.map(async (url) => {
+        try {
+            const stats = await fs.promises.stat(path.join(__dirname, '..', '..', url));
+            return stats.size;
+        } catch (e) {
+            return 0; // El archivo ya no existe en disco
+        }
+    }));
+    return sizes.reduce((total, size) => total + size, 0);
+};
+
+// Uso de un recurso. Para las citas se cuenta el mes de 'referenceDate' (YYYY-MM-DD), por defecto el actual.
+const getResourceUsage = async (tenantDbId: number, resource: PlanResource, referenceDate?: string): Promise<number> => {
+    switch (resource) {
+        case 'staff': {
+            // Las invitaciones pendientes también ocupan un puesto
+            const [rows] = await pool.execute<RowDataPacket[]>('SELECT COUNT(*) AS total FROM staff WHERE tenant_id = ?', [tenantDbId]);
+            return Number(rows[0].total);
+        }
+        case 'products': {
+            const [rows] = await pool.execute<RowDataPacket[]>('SELECT COUNT(*) AS total FROM products WHERE tenant_id = ?', [tenantDbId]);
+            return Number(rows[0].total);
+        }
+        case 'services': {
+            const [rows] = await pool.execute<RowDataPacket[]>('SELECT COUNT(*) AS total FROM services WHERE tenant_id = ?', [tenantDbId]);
+            return Number(rows[0].total);
+        }
+        case 'monthly_appointments': {
+            const day = referenceDate || new Date().toISOString().slice(0, 10);
+            const [rows] = await pool.execute<RowDataPacket[]>(
+                `SELECT COUNT(*) AS total
+                 FROM appointments
+                 WHERE tenant_id = ?
+                   AND appointment_date >= DATE_FORMAT(?, '%Y-%m-01')
+                   AND appointment_date < DATE_FORMAT(?, '%Y-%m-01') + INTERVAL 1 MONTH`,
+                [tenantDbId, day, day]
+            );
+            return Number(rows[0].total);
+        }
+        case 'storage_mb':
+            return (await getStorageUsageBytes(tenantDbId)) / BYTES_PER_MB;
+    }
+};
+
+// -----------------------------------------------------------------------------
+// 🚦 Verifica si el inquilino puede crear un elemento más del recurso.
+// 'incomingBytes' es el tamaño del archivo que se va a guardar (solo para 'storage_mb').
+// Devuelve null si está dentro del límite o el error a responder si no.
+// -----------------------------------------------------------------------------
+export const checkPlanLimit = async (
+    tenantDbId: number,
+    resource: PlanResource,
+    options: { referenceDate?: string; incomingBytes?: number } = {}
+): Promise<PlanLimitError | null> => {
+    const plan = await getTenantPlan(tenantDbId);
+    const limit = plan?.limits[resource] ?? null;
+    if (limit === null) return null;
+
+    const used = await getResourceUsage(tenantDbId, resource, options.referenceDate);
+    const requested = resource === 'storage_mb' ? (options.incomingBytes || 0) / BYTES_PER_MB : 1;
+    if (used + requested <= limit) return null;
+
+    return {
+        ...apiMessage(PLAN_LIMIT_CODES[resource]),
+        resource,
+        limit,
+        used: resource === 'storage_mb' ? Math.round(used * 100) / 100 : used,
+    };
+};
+
+// 📊 Resumen de uso del inquilino frente a los límites de su plan
+export const getTenantUsage = async (tenantDbId: number) => {
+    const plan = await getTenantPlan(tenantDbId);
+
+    const usage = {} as Record<PlanResource, { used: number; limit: number | null; remaining: number | null }>;
+    for (const resource of PLAN_RESOURCES) {
+        const rawUsed = await getResourceUsage(tenantDbId, resource);
+        const used = resource === 'storage_mb' ? Math.round(rawUsed * 100) / 100 : rawUsed;
+        const limit = plan?.limits[resource] ?? null;
+        usage[resource] = { used, limit, remaining: limit === null ? null : Math.max(limit - used, 0) };
+    }
+
+    return {
+        plan: plan ? { code: plan.code, name: plan.name } : null,
+        usage,
+    };
+};
@@ -0,0 +1,149 @@
+// src/utils/sessions.ts
+// Sesiones del lado del servidor: refresh tokens rotativos por usuario y dispositivo.
+import crypto from 'crypto';
+import { Request } from 'express';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import pool from '../db';
+
+export type SessionUserType = 'staff' | 'client';
+
+export interface SessionOwner {
+    tenantDbId: number;
+    userType: SessionUserType;
+    userId: number;
+}
+
+interface DeviceInfo {
+    deviceId: string;
+    userAgent: string | null;
+}
+
+interface RefreshTokenRow extends RowDataPacket {
+    id: number;
+    tenant_id: number;
+    user_type: SessionUserType;
+    user_id: number;
+    device_id: string;
+    expires_at: Date;
+    revoked_at: Date | null;
+}
+
+// --- HELPERS ---
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const getRefreshTtlDays = () => process.env.REFRESH_TOKEN_TTL_DAYS ? parseInt(process.env.REFRESH_TOKEN_TTL_DAYS) : 30;
+
+// Identifica el dispositivo: `deviceId` del cuerpo, header `x-device-id` o, en su defecto, el user-agent
+export const getDeviceInfo = (req: Request): DeviceInfo => {
+    const userAgent = req.headers['user-agent'] || null;
+    const rawDeviceId = req.body?.deviceId || req.headers['x-device-id'] || userAgent || 'desconocido';
+    return {
+        deviceId: String(rawDeviceId).slice(0, 100),
+        userAgent: userAgent ? userAgent.slice(0, 255) : null,
+    };
+};
+
+// -----------------------------------------------------------------------------
+// 🎟️ Emite un refresh token nuevo. Revoca las sesiones previas del mismo dispositivo.
+// -----------------------------------------------------------------------------
+export const issueRefreshToken = async (owner: SessionOwner, device: DeviceInfo): Promise<string> => {
+    const refreshToken = crypto.randomBytes(48).toString('hex');
+
+    await pool.execute(
+        `UPDATE refresh_tokens SET revoked_at = NOW()
+         WHERE tenant_id = ? AND user_type = ? AND user_id = ? AND device_id = ? AND revoked_at IS NULL`,
+        [owner.tenantDbId, owner.userType, owner.userId, device.deviceId]
+    );
+
+    await pool.execute(
+        `INSERT INTO refresh_tokens (tenant_id, user_type, user_id, token_hash, device_id, user_agent, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))`,
+        [owner.tenantDbId, owner.userType, owner.userId, hashToken(refreshToken), device.deviceId, device.userAgent, getRefreshTtlDays()]
+    );
+
+    return refreshToken;
+};
+
+// -----------------------------------------------------------------------------
+// 🔄 Rotación: invalida el token presentado y devuelve uno nuevo para el mismo dueño.
+// Si se presenta un token ya revocado (posible robo), se cierran todas las sesiones del usuario.
+// Devuelve null si el token no es válido para este inquilino.
+// -----------------------------------------------------------------------------
+export const rotateRefreshToken = async (
+    refreshToken: string,
+    tenantDbId: number,
+    device: DeviceInfo
+): Promise<(SessionOwner & { refreshToken: string }) | null> => {
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [rows] = await connection.execute<RefreshTokenRow[]>(
+            'SELECT * FROM refresh_tokens WHERE token_hash = ? AND tenant_id = ? FOR UPDATE',
+            [hashToken(refreshToken), tenantDbId]
+        );
+
+        if (rows.length === 0) {
+            await connection.rollback();
+            return null;
+        }
+
+        const current = rows[0];
+        const owner: SessionOwner = { tenantDbId, userType: current.user_type, userId: current.user_id };
+
+        if (current.revoked_at !== null) {
+            // Reutilización de un token ya rotado: revocamos todo por seguridad
+            await connection.execute(
+                'UPDATE refresh_tokens SET revoked_at = NOW() WHERE tenant_id = ? AND user_type = ? AND user_id = ? AND revoked_at IS NULL',
+                [tenantDbId, owner.userType, owner.userId]
+            );
+            await connection.commit();
+            console.warn(`Reutilización de refresh token detectada (${owner.userType} ${owner.userId}). Sesiones revocadas.`);
+            return null;
+        }
+
+        if (new Date(current.expires_at).getTime() <= Date.now()) {
+            await connection.rollback();
+            return null;
+        }
+
+        const newToken = crypto.randomBytes(48).toString('hex');
+        const [insertResult] = await connection.execute<ResultSetHeader>(
+            `INSERT INTO refresh_tokens (tenant_id, user_type, user_id, token_hash, device_id, user_agent, expires_at)
+             VALUES (?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))`,
+            [tenantDbId, owner.userType, owner.userId, hashToken(newToken), current.device_id, device.userAgent, getRefreshTtlDays()]
+        );
+
+        await connection.execute(
+            'UPDATE refresh_tokens SET revoked_at = NOW(), replaced_by_id = ? WHERE id = ?',
+            [insertResult.insertId, current.id]
+        );
+
+        await connection.commit();
+        return { ...owner, refreshToken: newToken };
+
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+};
+
+// 🚪 Revoca un refresh token concreto (logout). Devuelve true si estaba activo.
+export const revokeRefreshToken = async (refreshToken: string, tenantDbId: number): Promise<boolean> => {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'UPDATE refresh_tokens SET revoked_at = NOW() WHERE token_hash = ? AND tenant_id = ? AND revoked_at IS NULL',
+        [hashToken(refreshToken), tenantDbId]
+    );
+    return result.affectedRows > 0;
+};
+
+// 🚪🚪 Revoca todas las sesiones activas de un usuario ("cerrar sesión en todos lados")
+export const revokeAllSessions = async (owner: SessionOwner): Promise<number> => {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'UPDATE refresh_tokens SET revoked_at = NOW() WHERE tenant_id = ? AND user_type = ? AND user_id = ? AND revoked_at IS NULL',
+        [owner.tenantDbId, owner.userType, owner.userId]
+    );
+    return result.affectedRows;
+};
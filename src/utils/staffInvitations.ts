@@ -0,0 +1,182 @@
+// src/utils/staffInvitations.ts
+// Invitaciones al personal: el administrador invita y el invitado define su propia contraseña.
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+import { sendMail } from './mailer';
+
+export interface PendingStaff {
+    id: number;
+    name: string;
+    email: string;
+    role: string;
+}
+
+interface InvitationRow extends RowDataPacket {
+    id: number;
+    staff_id: number;
+    expires_at: Date;
+    accepted_at: Date | null;
+    revoked_at: Date | null;
+    name: string;
+    email: string;
+    role: 'admin' | 'doctor' | 'receptionist';
+    status: 'active' | 'invited';
+}
+
+// Fila del listado de invitaciones pendientes (sin invitación vigente, los datos de si.* son NULL)
+interface PendingInvitationRow extends RowDataPacket {
+    staff_id: number;
+    email: string;
+    name: string;
+    role: 'admin' | 'doctor' | 'receptionist';
+    invited_at: Date | null;
+    expires_at: Date | null;
+    invited_by: number | null;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const getInvitationTtlHours = () => process.env.STAFF_INVITE_TTL_HOURS ? parseInt(process.env.STAFF_INVITE_TTL_HOURS) : 72;
+
+// Vigente = no aceptada, no revocada, no expirada y la cuenta sigue pendiente
+const isInvitationUsable = (invitation: InvitationRow) =>
+    invitation.accepted_at === null &&
+    invitation.revoked_at === null &&
+    invitation.status === 'invited' &&
+    new Date(invitation.expires_at).getTime() > Date.now();
+
+// -----------------------------------------------------------------------------
+// 📨 Emite una invitación nueva (las anteriores del mismo miembro dejan de servir) y la envía por correo.
+// Devuelve la fecha de expiración.
+// -----------------------------------------------------------------------------
+export const sendStaffInvitation = async (
+    tenantDbId: number,
+    staff: PendingStaff,
+    invitedBy: number,
+    buildInviteLink: (token: string) => string
+): Promise<Date> => {
+    const token = crypto.randomBytes(32).toString('hex');
+    const ttlHours = getInvitationTtlHours();
+
+    await pool.execute(
+        `UPDATE staff_invitations SET revoked_at = NOW()
+         WHERE tenant_id = ? AND staff_id = ? AND accepted_at IS NULL AND revoked_at IS NULL`,
+        [tenantDbId, staff.id]
+    );
+
+    await pool.execute(
+        `INSERT INTO staff_invitations (tenant_id, staff_id, token_hash, invited_by, expires_at)
+         VALUES (?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? HOUR))`,
+        [tenantDbId, staff.id, hashToken(token), invitedBy, ttlHours]
+    );
+
+    const [tenantRows] = await pool.execute<RowDataPacket[]>('SELECT name FROM tenants WHERE id = ?', [tenantDbId]);
+    const clinicName = tenantRows[0]?.name || 'la clínica';
+
+    await sendMail({
+        to: staff.email,
+        subject: `Invitación para unirte a ${clinicName}`,
+        text: `Hola ${staff.name},\n\nTe invitaron a unirte a ${clinicName} como ${staff.role}. Define tu contraseña en el siguiente enlace (válido por ${ttlHours} horas):\n${buildInviteLink(token)}`,
+    });
+
+    return new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+};
+
+// 🔎 Invitación vigente a partir del token (para que el frontend muestre a quién se invita)
+export const findActiveInvitation = async (tenantDbId: number, token: string): Promise<PendingStaff | null> => {
+    const [rows] = await pool.execute<InvitationRow[]>(
+        `SELECT si.id, si.staff_id, si.expires_at, si.accepted_at, si.revoked_at, s.name, s.email, s.role, s.status
+         FROM staff_invitations si
+         JOIN staff s ON si.staff_id = s.id
+         WHERE si.token_hash = ? AND si.tenant_id = ?`,
+        [hashToken(token), tenantDbId]
+    );
+
+    const invitation = rows[0];
+    if (!invitation || !isInvitationUsable(invitation)) return null;
+
+    return { id: invitation.staff_id, name: invitation.name, email: invitation.email, role: invitation.role };
+};
+
+// -----------------------------------------------------------------------------
+// ✅ Consume la invitación: guarda la contraseña elegida y activa la cuenta.
+// Devuelve false si el token no existe, expiró, fue revocado o ya se usó.
+// -----------------------------------------------------------------------------
+export const acceptStaffInvitation = async (tenantDbId: number, token: string, password: string): Promise<boolean> => {
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [rows] = await connection.execute<InvitationRow[]>(
+            `SELECT si.id, si.staff_id, si.expires_at, si.accepted_at, si.revoked_at, s.name, s.email, s.role, s.status
+             FROM staff_invitations si
+             JOIN staff s ON si.staff_id = s.id
+             WHERE si.token_hash = ? AND si.tenant_id = ? FOR UPDATE`,
+            [hashToken(token), tenantDbId]
+        );
+
+        const invitation = rows[0];
+        if (!invitation || !isInvitationUsable(invitation)) {
+            await connection.rollback();
+            return false;
+        }
+
+        const saltRounds = process.env.SALT_ROUNDS ? parseInt(process.env.SALT_ROUNDS) : 10;
+        const hashedPassword = await bcrypt.hash(password, saltRounds);
+
+        await connection.execute(
+            `UPDATE staff SET password = ?, status = 'active' WHERE id = ? AND tenant_id = ?`,
+            [hashedPassword, invitation.staff_id, tenantDbId]
+        );
+        await connection.execute(
+            'UPDATE staff_invitations SET accepted_at = NOW() WHERE id = ?',
+            [invitation.id]
+        );
+
+        await connection.commit();
+        return true;
+
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+};
+
+// 📋 Personal con invitación pendiente (vigente o expirada) y los datos de su última invitación
+export const listStaffInvitations = async (tenantDbId: number) => {
+    const [rows] = await pool.execute<PendingInvitationRow[]>(
+        `SELECT s.id AS staff_id, s.email, s.name, s.role,
+                si.created_at AS invited_at, si.expires_at, si.invited_by
+         FROM staff s
+         LEFT JOIN staff_invitations si ON si.id = (
+             SELECT MAX(id) FROM staff_invitations WHERE staff_id = s.id AND revoked_at IS NULL
+         )
+         WHERE s.tenant_id = ? AND s.status = 'invited'
+         ORDER BY si.created_at DESC`,
+        [tenantDbId]
+    );
+
+    return rows.map(row => ({
+        ...row,
+        expired: !row.expires_at || new Date(row.expires_at).getTime() <= Date.now()
+    }));
+};
+
+// 🚫 Revoca la invitación y elimina la cuenta pendiente. Devuelve los datos eliminados o null.
+export const revokeStaffInvitation = async (tenantDbId: number, staffId: number): Promise<PendingStaff | null> => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT id, name, email, role FROM staff WHERE id = ? AND tenant_id = ? AND status = 'invited'`,
+        [staffId, tenantDbId]
+    );
+    if (rows.length === 0) return null;
+
+    // Las invitaciones se eliminan en cascada junto con la cuenta pendiente
+    await pool.execute(`DELETE FROM staff WHERE id = ? AND tenant_id = ? AND status = 'invited'`, [staffId, tenantDbId]);
+
+    const { id, name, email, role } = rows[0];
+    return { id, name, email, role };
+};
@@ -0,0 +1,98 @@
+// src/utils/tenantCache.ts
+// Caché en memoria (con TTL) de los inquilinos y de los dominios propios verificados.
+// Evita consultar la tabla 'tenants' en cada solicitud; las rutas que modifican
+// un inquilino deben invalidarlo. Con varias instancias, el TTL acota el desfase.
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+import { ResolvedTenant } from '../middleware/authMiddleware';
+import { SocialLinks } from './branding';
+import { findTenantSlugByDomain } from './tenantDomains';
+import { DEFAULT_TENANT_SETTINGS, readStoredSettings } from './tenantSettings';
+
+interface CacheEntry<T> {
+    value: T;
+    expiresAt: number;
+}
+
+const getTtlMs = () => (process.env.TENANT_CACHE_TTL_SECONDS ? parseInt(process.env.TENANT_CACHE_TTL_SECONDS) : 60) * 1000;
+
+// También se guardan los "no encontrado" para que un host o slug inexistente no consulte la DB en cada solicitud
+const tenantsBySlug = new Map<string, CacheEntry<ResolvedTenant | null>>();
+const slugsByDomain = new Map<string, CacheEntry<string | null>>();
+
+const readEntry = <T>(cache: Map<string, CacheEntry<T>>, key: string): CacheEntry<T> | undefined => {
+    const entry = cache.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+        cache.delete(key);
+        return undefined;
+    }
+    return entry;
+};
+
+const writeEntry = <T>(cache: Map<string, CacheEntry<T>>, key: string, value: T) => {
+    cache.set(key, { value, expiresAt: Date.now() + getTtlMs() });
+};
+
+const parseSocialLinks = (value: string | SocialLinks | null): SocialLinks =>
+    (typeof value === 'string' ? JSON.parse(value) : value) || {};
+
+const loadTenant = async (tenantSlug: string): Promise<ResolvedTenant | null> => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT t.id, t.tenant_id, t.status, t.name, t.phone, t.email, t.address, t.schedule,
+                t.logo_url, t.favicon_url, t.primary_color, t.secondary_color, t.social_links, ts.settings
+         FROM tenants t
+         LEFT JOIN tenant_settings ts ON ts.tenant_id = t.id
+         WHERE t.tenant_id = ?`,
+        [tenantSlug]
+    );
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+    return {
+        id: row.id,
+        slug: row.tenant_id,
+        status: row.status,
+        name: row.name,
+        phone: row.phone,
+        email: row.email,
+        address: row.address,
+        schedule: row.schedule,
+        logoUrl: row.logo_url,
+        faviconUrl: row.favicon_url,
+        primaryColor: row.primary_color,
+        secondaryColor: row.secondary_color,
+        socialLinks: parseSocialLinks(row.social_links),
+        locale: readStoredSettings(row.settings).locale ?? DEFAULT_TENANT_SETTINGS.locale,
+    };
+};
+
+// 🔎 Inquilino completo por slug (desde la caché si está vigente)
+export const getCachedTenant = async (tenantSlug: string): Promise<ResolvedTenant | null> => {
+    const cached = readEntry(tenantsBySlug, tenantSlug);
+    if (cached) return cached.value;
+
+    const tenant = await loadTenant(tenantSlug);
+    writeEntry(tenantsBySlug, tenantSlug, tenant);
+    return tenant;
+};
+
+// 🔎 Slug del dueño de un dominio propio verificado (null si no hay mapeo)
+export const getCachedDomainSlug = async (host: string): Promise<string | null> => {
+    const domain = host.toLowerCase();
+    const cached = readEntry(slugsByDomain, domain);
+    if (cached) return cached.value;
+
+    const slug = await findTenantSlugByDomain(domain);
+    writeEntry(slugsByDomain, domain, slug);
+    return slug;
+};
+
+// 🧹 Invalidación: llamar después de cualquier cambio en la fila del inquilino
+export const invalidateTenant = (tenantSlug: string) => {
+    tenantsBySlug.delete(tenantSlug);
+};
+
+// Llamar después de verificar o quitar un dominio propio
+export const invalidateDomain = (domain: string) => {
+    slugsByDomain.delete(domain.toLowerCase());
+};
@@ -0,0 +1,117 @@
+// src/utils/tenantDomains.ts
+// Dominios de los inquilinos: subdominios de la plataforma y dominios propios verificados por DNS.
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import pool from '../db';
+
+// Dominio base de la plataforma: cada clínica tiene <slug>.<base>
+export const PLATFORM_DOMAIN_BASE = process.env.PLATFORM_DOMAIN_BASE || 'veterinaria.techinnovats.com';
+
+// Registro TXT que el dueño del dominio debe publicar: _vet-verification.<dominio> = vet-verification=<token>
+export const VERIFICATION_RECORD_PREFIX = '_vet-verification';
+
+const DOMAIN_REGEX = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export interface TenantDomainRow extends RowDataPacket {
+    id: number;
+    tenant_id: number;
+    domain: string;
+    verification_token: string;
+    verified_at: Date | null;
+    created_at: Date;
+}
+
+// Normaliza lo que escribe el operador ("https://VetChavez.pe/" -> "vetchavez.pe"). null si no es válido.
+export const normalizeDomain = (value: unknown): string | null => {
+    if (typeof value !== 'string') return null;
+    const domain = value.trim().toLowerCase()
+        .replace(/^https?:\/\//, '')
+        .replace(/[/:].*$/, '')
+        .replace(/\.$/, '');
+    return DOMAIN_REGEX.test(domain) ? domain : null;
+};
+
+// Los subdominios de la propia plataforma no se pueden registrar como dominios propios
+export const isPlatformDomain = (domain: string) =>
+    domain === PLATFORM_DOMAIN_BASE || domain.endsWith(`.${PLATFORM_DOMAIN_BASE}`);
+
+export const getVerificationInstructions = (row: { domain: string; verification_token: string }) => ({
+    type: 'TXT',
+    name: `${VERIFICATION_RECORD_PREFIX}.${row.domain}`,
+    value: `vet-verification=${row.verification_token}`,
+});
+
+// 🔎 Slug del inquilino dueño de un dominio propio verificado (null si no hay mapeo)
+export const findTenantSlugByDomain = async (host: string): Promise<string | null> => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        `SELECT t.tenant_id AS slug
+         FROM tenant_domains d
+         JOIN tenants t ON d.tenant_id = t.id
+         WHERE d.domain = ? AND d.verified_at IS NOT NULL`,
+        [host.toLowerCase()]
+    );
+    return rows.length > 0 ? rows[0].slug : null;
+};
+
+export const listTenantDomains = async (tenantDbId: number) => {
+    const [rows] = await pool.execute<TenantDomainRow[]>(
+        'SELECT id, tenant_id, domain, verification_token, verified_at, created_at FROM tenant_domains WHERE tenant_id = ? ORDER BY created_at ASC',
+        [tenantDbId]
+    );
+    return rows;
+};
+
+export const findTenantDomain = async (tenantDbId: number, domain: string): Promise<TenantDomainRow | null> => {
+    const [rows] = await pool.execute<TenantDomainRow[]>(
+        'SELECT id, tenant_id, domain, verification_token, verified_at, created_at FROM tenant_domains WHERE tenant_id = ? AND domain = ?',
+        [tenantDbId, domain]
+    );
+    return rows[0] ?? null;
+};
+
+// ➕ Asocia un dominio (pendiente de verificación). Devuelve null si otro inquilino ya lo usa.
+export const attachTenantDomain = async (tenantDbId: number, domain: string): Promise<TenantDomainRow | null> => {
+    const [existing] = await pool.execute<TenantDomainRow[]>(
+        'SELECT id, tenant_id FROM tenant_domains WHERE domain = ?',
+        [domain]
+    );
+    if (existing.length > 0) {
+        return existing[0].tenant_id === tenantDbId ? findTenantDomain(tenantDbId, domain) : null;
+    }
+
+    await pool.execute<ResultSetHeader>(
+        'INSERT INTO tenant_domains (tenant_id, domain, verification_token) VALUES (?, ?, ?)',
+        [tenantDbId, domain, crypto.randomBytes(16).toString('hex')]
+    );
+    return findTenantDomain(tenantDbId, domain);
+};
+
+// -----------------------------------------------------------------------------
+// ✅ Verifica el dominio consultando el registro TXT. Devuelve true si quedó verificado.
+// -----------------------------------------------------------------------------
+export const verifyTenantDomain = async (row: TenantDomainRow): Promise<boolean> => {
+    const expected = getVerificationInstructions(row);
+
+    let records: string[][] = [];
+    try {
+        records = await dns.resolveTxt(expected.name);
+    } catch (error) {
+        // ENOTFOUND / ENODATA: el registro aún no existe o no se propagó
+        return false;
+    }
+
+    const found = records.some((chunks) => chunks.join('') === expected.value);
+    if (!found) return false;
+
+    await pool.execute('UPDATE tenant_domains SET verified_at = NOW() WHERE id = ?', [row.id]);
+    return true;
+};
+
+export const detachTenantDomain = async (tenantDbId: number, domain: string): Promise<boolean> => {
+    const [result] = await pool.execute<ResultSetHeader>(
+        'DELETE FROM tenant_domains WHERE tenant_id = ? AND domain = ?',
+        [tenantDbId, domain]
+    );
+    return result.affectedRows > 0;
+};
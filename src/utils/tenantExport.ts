@@ -0,0 +1,189 @@
+// src/utils/tenantExport.ts
+// Exportación de los datos de una clínica: JSON de solo lectura (disponible incluso si está
+// suspendida) y archivo completo (.json.gz con los archivos de /uploads) para respaldo o migración.
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+
+const gzip = promisify(zlib.gzip);
+
+export const ARCHIVE_FORMAT = 'vet-tenant-archive';
+export const ARCHIVE_VERSION = 1;
+
+export const UPLOADS_DIR = path.join(__dirname, '..', '..', 'uploads');
+
+export interface TenantArchiveData {
+    tenant: RowDataPacket;
+    rolePermissions: RowDataPacket[];
+    businessHours: RowDataPacket[];
+    closures: RowDataPacket[];
+    settings: RowDataPacket[];
+    branches: RowDataPacket[];
+    branchHours: RowDataPacket[];
+    staff: RowDataPacket[];
+    staffBranches: RowDataPacket[];
+    clients: RowDataPacket[];
+    categories: RowDataPacket[];
+    images: RowDataPacket[];
+    products: RowDataPacket[];
+    productImages: RowDataPacket[];
+    branchStock: RowDataPacket[];
+    services: RowDataPacket[];
+    serviceImages: RowDataPacket[];
+    orders: RowDataPacket[];
+    orderItems: RowDataPacket[];
+    appointments: RowDataPacket[];
+}
+
+export interface TenantArchive {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    sourceTenant: string;
+    includesPasswordHashes: boolean;
+    data: TenantArchiveData;
+    files: Record<string, string>; // URL relativa (/uploads/...) -> contenido en base64
+}
+
+const selectAll = async (query: string, tenantDbId: number) => {
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [tenantDbId]);
+    return rows;
+};
+
+// -----------------------------------------------------------------------------
+// 📦 Reúne los datos de la clínica con columnas explícitas (las mismas que recrea la importación).
+// Nunca incluye secretos de 2FA ni tokens; los hashes de contraseñas solo si se piden.
+// -----------------------------------------------------------------------------
+const collectTenantData = async (tenantDbId: number, includePasswordHashes: boolean): Promise<TenantArchiveData> => {
+    const passwordColumn = includePasswordHashes ? ', password' : '';
+
+    const [tenantRows] = await pool.execute<RowDataPacket[]>(
+        `SELECT id, tenant_id, name, phone, email, address, schedule, logo_url, favicon_url,
+                primary_color, secondary_color, social_links, require_admin_2fa, status
+         FROM tenants WHERE id = ?`,
+        [tenantDbId]
+    );
+
+    return {
+        tenant: tenantRows[0],
+        rolePermissions: await selectAll('SELECT role, permissions FROM tenant_role_permissions WHERE tenant_id = ?', tenantDbId),
+        businessHours: await selectAll('SELECT weekday, opens_at, closes_at FROM tenant_business_hours WHERE tenant_id = ?', tenantDbId),
+        closures: await selectAll('SELECT closure_date, reason FROM tenant_closures WHERE tenant_id = ?', tenantDbId),
+        settings: await selectAll('SELECT settings FROM tenant_settings WHERE tenant_id = ?', tenantDbId),
+        branches: await selectAll('SELECT id, name, address, phone, email, is_active FROM branches WHERE tenant_id = ?', tenantDbId),
+        branchHours: await selectAll(
+            'SELECT bh.branch_id, bh.weekday, bh.opens_at, bh.closes_at FROM branch_business_hours bh JOIN branches b ON bh.branch_id = b.id WHERE b.tenant_id = ?',
+            tenantDbId
+        ),
+        staff: await selectAll(`SELECT id, email, name, is_admin, role, status${passwordColumn} FROM staff WHERE tenant_id = ?`, tenantDbId),
+        staffBranches: await selectAll(
+            'SELECT sb.staff_id, sb.branch_id FROM staff_branches sb JOIN branches b ON sb.branch_id = b.id WHERE b.tenant_id = ?',
+            tenantDbId
+        ),
+        clients: await selectAll(
+            `SELECT id, name, email, phone, address, email_verified_at, deleted_at${passwordColumn} FROM clients WHERE tenant_id = ?`,
+            tenantDbId
+        ),
+        categories: await selectAll('SELECT id, name, sort_order, is_active FROM categories WHERE tenant_id = ?', tenantDbId),
+        images: await selectAll('SELECT id, storage_key, url, alt_text FROM images WHERE tenant_id = ?', tenantDbId),
+        products: await selectAll(
+            'SELECT id, category_id, name, description, price, stock, is_available FROM products WHERE tenant_id = ?',
+            tenantDbId
+        ),
+        productImages: await selectAll(
+            'SELECT pi.product_id, pi.image_id, pi.is_primary FROM product_images pi JOIN products p ON pi.product_id = p.id WHERE p.tenant_id = ?',
+            tenantDbId
+        ),
+        branchStock: await selectAll(
+            'SELECT bs.branch_id, bs.product_id, bs.stock FROM branch_stock bs JOIN branches b ON bs.branch_id = b.id WHERE b.tenant_id = ?',
+            tenantDbId
+        ),
+        services: await selectAll('SELECT id, title, description, is_active FROM services WHERE tenant_id = ?', tenantDbId),
+        serviceImages: await selectAll(
+            'SELECT si.service_id, si.image_id, si.is_primary, si.sort_order FROM service_images si JOIN services s ON si.service_id = s.id WHERE s.tenant_id = ?',
+            tenantDbId
+        ),
+        orders: await selectAll(
+            'SELECT id, client_id, branch_id, total_amount, status, pickup_date, expiration_date, created_at FROM orders WHERE tenant_id = ?',
+            tenantDbId
+        ),
+        orderItems: await selectAll(
+            'SELECT oi.order_id, oi.product_id, oi.quantity, oi.unit_price FROM order_items oi JOIN orders o ON oi.order_id = o.id WHERE o.tenant_id = ?',
+            tenantDbId
+        ),
+        appointments: await selectAll(
+            'SELECT id, client_id, branch_id, staff_id, pet_name, pet_type, service, appointment_date, appointment_time, status, notes FROM appointments WHERE tenant_id = ?',
+            tenantDbId
+        ),
+    };
+};
+
+// Nunca se exportan contraseñas, secretos de 2FA ni hashes de tokens
+export const buildTenantExport = async (tenantDbId: number) => ({
+    exportedAt: new Date().toISOString(),
+    ...(await collectTenantData(tenantDbId, false)),
+});
+
+// Fechas en formato MySQL (hora local del servidor, igual que las escribe mysql2) para reimportarlas tal cual
+const pad = (value: number) => String(value).padStart(2, '0');
+const toSqlDateTime = (date: Date) =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+const serializeRows = (rows: RowDataPacket[]) =>
+    rows.map(row => {
+        const serialized: Record<string, unknown> = {};
+        for (const [column, value] of Object.entries(row)) {
+            serialized[column] = value instanceof Date ? toSqlDateTime(value) : value;
+        }
+        return serialized as RowDataPacket;
+    });
+
+// Archivos de /uploads referenciados por la clínica (el logo por defecto es compartido y no se incluye)
+const readReferencedFiles = async (data: TenantArchiveData): Promise<Record<string, string>> => {
+    const defaultLogoUrl = process.env.DEFAULT_LOGO_URL || '/uploads/icono.png';
+    const urls = new Set<string>([
+        ...data.images.map(image => image.url as string),
+        data.tenant.logo_url,
+        data.tenant.favicon_url,
+    ]);
+
+    const files: Record<string, string> = {};
+    for (const url of urls) {
+        if (!url || !url.startsWith('/uploads/') || url === defaultLogoUrl) continue;
+        try {
+            const content = await fs.promises.readFile(path.join(UPLOADS_DIR, path.basename(url)));
+            files[url] = content.toString('base64');
+        } catch (e) {
+            console.warn(`Archivo no encontrado al exportar: ${url}`);
+        }
+    }
+    return files;
+};
+
+// -----------------------------------------------------------------------------
+// 🗜️ Archivo completo de la clínica: JSON comprimido con gzip que incluye los archivos subidos.
+// Se reimporta con importTenantArchive (utils/tenantImport).
+// -----------------------------------------------------------------------------
+export const buildTenantArchive = async (tenantDbId: number, includePasswordHashes: boolean): Promise<Buffer> => {
+    const rawData = await collectTenantData(tenantDbId, includePasswordHashes);
+    const data = {} as Record<string, unknown>;
+    for (const [key, value] of Object.entries(rawData)) {
+        data[key] = Array.isArray(value) ? serializeRows(value) : serializeRows([value])[0];
+    }
+
+    const archive: TenantArchive = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        sourceTenant: rawData.tenant.tenant_id,
+        includesPasswordHashes: includePasswordHashes,
+        data: data as unknown as TenantArchiveData,
+        files: await readReferencedFiles(rawData),
+    };
+
+    return gzip(JSON.stringify(archive));
+};
@@ -0,0 +1,363 @@
+// src/utils/tenantImport.ts
+// Importación de un archivo de clínica (ver buildTenantArchive) bajo un slug nuevo.
+// Todos los IDs se reasignan y los archivos subidos se copian con nombres nuevos.
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { promisify } from 'util';
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import pool from '../db';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, TenantArchive, UPLOADS_DIR } from './tenantExport';
+import { invalidateTenant } from './tenantCache';
+import { ApiMessage, apiMessage } from './i18n';
+
+const gunzip = promisify(zlib.gunzip);
+
+export const TENANT_SLUG_REGEX = /^[a-z0-9](?:[a-z0-9-]{0,48}[a-z0-9])?$/;
+
+export interface TenantImportResult {
+    tenantDbId: number;
+    slug: string;
+    counts: Record<string, number>;
+    invitedStaff: number; // Personal sin contraseña (el archivo no traía hashes): queda como invitación pendiente
+}
+
+// Los JSON (social_links, permissions, settings) vienen ya parseados en el archivo
+const toJsonColumn = (value: unknown) =>
+    value === null || value === undefined || typeof value === 'string' ? value ?? null : JSON.stringify(value);
+
+// Cada referencia (columna -> lista de filas a la que apunta) debe existir dentro del respaldo
+const findMissingReference = (data: TenantArchive['data']): ApiMessage | null => {
+    const idsOf = (rows: RowDataPacket[] | undefined) => new Set((rows || []).map(row => Number(row.id)));
+    // branch_id es opcional en pedidos y citas, y staff_id en citas
+    const withBranch = (rows: RowDataPacket[] | undefined) => (rows || []).filter(row => row.branch_id !== null && row.branch_id !== undefined);
+    const withStaff = (rows: RowDataPacket[] | undefined) => (rows || []).filter(row => row.staff_id !== null && row.staff_id !== undefined);
+    const checks: [RowDataPacket[] | undefined, string, Set<number>, string][] = [
+        [data.branchHours, 'branch_id', idsOf(data.branches), 'branches'],
+        [data.staffBranches, 'branch_id', idsOf(data.branches), 'branches'],
+        [data.staffBranches, 'staff_id', idsOf(data.staff), 'staff'],
+        [data.branchStock, 'branch_id', idsOf(data.branches), 'branches'],
+        [data.branchStock, 'product_id', idsOf(data.products), 'products'],
+        [withBranch(data.orders), 'branch_id', idsOf(data.branches), 'branches'],
+        [withBranch(data.appointments), 'branch_id', idsOf(data.branches), 'branches'],
+        [withStaff(data.appointments), 'staff_id', idsOf(data.staff), 'staff'],
+        [data.products, 'category_id', idsOf(data.categories), 'categories'],
+        [data.productImages, 'product_id', idsOf(data.products), 'products'],
+        [data.productImages, 'image_id', idsOf(data.images), 'images'],
+        [data.serviceImages, 'service_id', idsOf(data.services), 'services'],
+        [data.serviceImages, 'image_id', idsOf(data.images), 'images'],
+        [data.orders, 'client_id', idsOf(data.clients), 'clients'],
+        [data.orderItems, 'order_id', idsOf(data.orders), 'orders'],
+        [data.orderItems, 'product_id', idsOf(data.products), 'products'],
+        [data.appointments, 'client_id', idsOf(data.clients), 'clients'],
+    ];
+
+    for (const [rows, column, ids, entity] of checks) {
+        const broken = (rows || []).find(row => !ids.has(Number(row[column])));
+        if (broken) return apiMessage('ARCHIVE_MISSING_REFERENCE', { entity, id: broken[column] });
+    }
+    return null;
+};
+
+// -----------------------------------------------------------------------------
+// 🔎 Descomprime y valida el respaldo. Devuelve un mensaje de error si no se puede importar.
+// -----------------------------------------------------------------------------
+export const parseTenantArchive = async (buffer: Buffer): Promise<{ archive?: TenantArchive; error?: ApiMessage }> => {
+    let archive: TenantArchive;
+    try {
+        archive = JSON.parse((await gunzip(buffer)).toString('utf8'));
+    } catch (e) {
+        return { error: apiMessage('INVALID_ARCHIVE_FORMAT') };
+    }
+    if (archive?.format !== ARCHIVE_FORMAT || !archive.data?.tenant) {
+        return { error: apiMessage('INVALID_ARCHIVE') };
+    }
+    if (archive.version > ARCHIVE_VERSION) {
+        return { error: apiMessage('UNSUPPORTED_ARCHIVE_VERSION', { version: archive.version }) };
+    }
+
+    const missingReference = findMissingReference(archive.data);
+    return missingReference ? { error: missingReference } : { archive };
+};
+
+// Extensiones que se aceptan del respaldo (SVG no: se serviría desde /uploads y puede llevar scripts)
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.ico'];
+
+// 🗂️ Copia los archivos del respaldo a /uploads con nombres nuevos. Devuelve URL antigua -> URL nueva.
+// Los archivos que no son imágenes se descartan (su URL queda como archivo faltante).
+const writeArchiveFiles = async (files: Record<string, string>, writtenPaths: string[]) => {
+    const urlMap = new Map<string, string>();
+    for (const [url, base64] of Object.entries(files || {})) {
+        const extension = path.extname(url).toLowerCase();
+        if (!IMAGE_EXTENSIONS.includes(extension)) continue;
+
+        const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+        const filename = `import-${uniqueSuffix}${extension}`;
+        const absolutePath = path.join(UPLOADS_DIR, filename);
+
+        await fs.promises.writeFile(absolutePath, Buffer.from(base64, 'base64'));
+        writtenPaths.push(absolutePath);
+        urlMap.set(url, `/uploads/${filename}`);
+    }
+    return urlMap;
+};
+
+// Inserta una fila y devuelve el nuevo ID
+const insert = async (connection: PoolConnection, table: string, values: Record<string, unknown>) => {
+    const columns = Object.keys(values);
+    const [result] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        columns.map(column => values[column] ?? null) as (string | number | boolean | null)[]
+    );
+    return result.insertId;
+};
+
+// Las referencias ya se validaron en parseTenantArchive
+const remap = (ids: Map<number, number>, oldId: unknown) => ids.get(Number(oldId))!;
+
+// -----------------------------------------------------------------------------
+// 📥 Recrea la clínica del respaldo bajo 'newSlug' (ya validado y libre) en una sola transacción.
+// Sin hashes en el respaldo: el personal queda "invitado" (sin contraseña) y los clientes
+// con una contraseña inutilizable (deben usar "olvidé mi contraseña").
+// La clínica importada no hereda plan, dominios, claves de API ni sesiones.
+// -----------------------------------------------------------------------------
+export const importTenantArchive = async (archive: TenantArchive, newSlug: string): Promise<TenantImportResult> => {
+    const { data } = archive;
+    const writtenPaths: string[] = [];
+    const counts: Record<string, number> = {};
+    let invitedStaff = 0;
+
+    const connection = await pool.getConnection();
+    try {
+        const urlMap = await writeArchiveFiles(archive.files, writtenPaths);
+        // Un archivo local que no vino en el respaldo no se comparte con la clínica de origen:
+        // borrarlo o reemplazarlo en una borraría el de la otra. Queda sin imagen (null).
+        const defaultLogoUrl = process.env.DEFAULT_LOGO_URL || '/uploads/icono.png';
+        const mapUrl = (url: string | null) => {
+            if (!url || !url.startsWith('/uploads/') || url === defaultLogoUrl) return url;
+            return urlMap.get(url) ?? null;
+        };
+
+        await connection.beginTransaction();
+
+        // 1. Inquilino y configuración
+        const tenant = data.tenant;
+        const tenantDbId = await insert(connection, 'tenants', {
+            tenant_id: newSlug,
+            name: tenant.name,
+            phone: tenant.phone,
+            email: tenant.email,
+            address: tenant.address,
+            schedule: tenant.schedule,
+            logo_url: mapUrl(tenant.logo_url) ?? defaultLogoUrl,
+            favicon_url: mapUrl(tenant.favicon_url),
+            primary_color: tenant.primary_color,
+            secondary_color: tenant.secondary_color,
+            social_links: toJsonColumn(tenant.social_links),
+            require_admin_2fa: tenant.require_admin_2fa ?? false,
+        });
+
+        for (const row of data.rolePermissions || []) {
+            await insert(connection, 'tenant_role_permissions', {
+                tenant_id: tenantDbId, role: row.role, permissions: toJsonColumn(row.permissions)
+            });
+        }
+        for (const row of data.businessHours || []) {
+            await insert(connection, 'tenant_business_hours', {
+                tenant_id: tenantDbId, weekday: row.weekday, opens_at: row.opens_at, closes_at: row.closes_at
+            });
+        }
+        for (const row of data.closures || []) {
+            await insert(connection, 'tenant_closures', {
+                tenant_id: tenantDbId, closure_date: row.closure_date, reason: row.reason
+            });
+        }
+        for (const row of data.settings || []) {
+            await insert(connection, 'tenant_settings', { tenant_id: tenantDbId, settings: toJsonColumn(row.settings) });
+        }
+
+        const branchIds = new Map<number, number>();
+        for (const row of data.branches || []) {
+            branchIds.set(Number(row.id), await insert(connection, 'branches', {
+                tenant_id: tenantDbId, name: row.name, address: row.address, phone: row.phone, email: row.email, is_active: row.is_active
+            }));
+        }
+        counts.branches = branchIds.size;
+        for (const row of data.branchHours || []) {
+            await insert(connection, 'branch_business_hours', {
+                branch_id: remap(branchIds, row.branch_id), weekday: row.weekday, opens_at: row.opens_at, closes_at: row.closes_at
+            });
+        }
+        // Sin sucursal en el respaldo (o respaldos anteriores): null
+        const remapBranch = (oldId: unknown) => (oldId === null || oldId === undefined ? null : remap(branchIds, oldId));
+
+        // 2. Personas
+        const staffIds = new Map<number, number>();
+        for (const row of data.staff || []) {
+            const hasPassword = Boolean(row.password);
+            if (!hasPassword) invitedStaff++;
+            staffIds.set(Number(row.id), await insert(connection, 'staff', {
+                tenant_id: tenantDbId,
+                email: row.email,
+                name: row.name,
+                is_admin: row.is_admin,
+                role: row.role,
+                password: hasPassword ? row.password : null,
+                status: hasPassword ? row.status : 'invited',
+            }));
+        }
+        counts.staff = staffIds.size;
+        for (const row of data.staffBranches || []) {
+            await insert(connection, 'staff_branches', {
+                staff_id: remap(staffIds, row.staff_id), branch_id: remap(branchIds, row.branch_id)
+            });
+        }
+
+        // Una sola contraseña aleatoria (nadie la conoce) para todos los clientes sin hash
+        let unusablePassword: string | null = null;
+        const clientIds = new Map<number, number>();
+        for (const row of data.clients || []) {
+            if (!row.password && !unusablePassword) {
+                unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+            }
+            const password = row.password || unusablePassword;
+            clientIds.set(Number(row.id), await insert(connection, 'clients', {
+                tenant_id: tenantDbId,
+                name: row.name,
+                email: row.email,
+                password,
+                phone: row.phone,
+                address: row.address,
+                email_verified_at: row.email_verified_at,
+                deleted_at: row.deleted_at,
+            }));
+        }
+        counts.clients = clientIds.size;
+
+        // 3. Catálogo
+        const categoryIds = new Map<number, number>();
+        for (const row of data.categories || []) {
+            categoryIds.set(Number(row.id), await insert(connection, 'categories', {
+                tenant_id: tenantDbId, name: row.name, sort_order: row.sort_order, is_active: row.is_active
+            }));
+        }
+        counts.categories = categoryIds.size;
+
+        const imageIds = new Map<number, number>();
+        for (const row of data.images || []) {
+            const url = mapUrl(row.url);
+            if (!url) continue; // Imagen sin archivo en el respaldo: se omite junto con sus vínculos
+            imageIds.set(Number(row.id), await insert(connection, 'images', {
+                tenant_id: tenantDbId,
+                storage_key: url && url.startsWith('/uploads/') ? path.basename(url) : row.storage_key,
+                url,
+                alt_text: row.alt_text,
+            }));
+        }
+        counts.images = imageIds.size;
+
+        const productIds = new Map<number, number>();
+        for (const row of data.products || []) {
+            productIds.set(Number(row.id), await insert(connection, 'products', {
+                tenant_id: tenantDbId,
+                category_id: remap(categoryIds, row.category_id),
+                name: row.name,
+                description: row.description,
+                price: row.price,
+                stock: row.stock,
+                is_available: row.is_available,
+            }));
+        }
+        counts.products = productIds.size;
+
+        for (const row of data.productImages || []) {
+            if (!imageIds.has(Number(row.image_id))) continue;
+            await insert(connection, 'product_images', {
+                product_id: remap(productIds, row.product_id),
+                image_id: remap(imageIds, row.image_id),
+                is_primary: row.is_primary,
+            });
+        }
+
+        for (const row of data.branchStock || []) {
+            await insert(connection, 'branch_stock', {
+                branch_id: remap(branchIds, row.branch_id), product_id: remap(productIds, row.product_id), stock: row.stock
+            });
+        }
+
+        const serviceIds = new Map<number, number>();
+        for (const row of data.services || []) {
+            serviceIds.set(Number(row.id), await insert(connection, 'services', {
+                tenant_id: tenantDbId, title: row.title, description: row.description, is_active: row.is_active
+            }));
+        }
+        counts.services = serviceIds.size;
+
+        for (const row of data.serviceImages || []) {
+            if (!imageIds.has(Number(row.image_id))) continue;
+            await insert(connection, 'service_images', {
+                service_id: remap(serviceIds, row.service_id),
+                image_id: remap(imageIds, row.image_id),
+                is_primary: row.is_primary,
+                sort_order: row.sort_order,
+            });
+        }
+
+        // 4. Actividad
+        const orderIds = new Map<number, number>();
+        for (const row of data.orders || []) {
+            orderIds.set(Number(row.id), await insert(connection, 'orders', {
+                tenant_id: tenantDbId,
+                client_id: remap(clientIds, row.client_id),
+                branch_id: remapBranch(row.branch_id),
+                total_amount: row.total_amount,
+                status: row.status,
+                pickup_date: row.pickup_date,
+                expiration_date: row.expiration_date,
+                created_at: row.created_at,
+            }));
+        }
+        counts.orders = orderIds.size;
+
+        for (const row of data.orderItems || []) {
+            await insert(connection, 'order_items', {
+                order_id: remap(orderIds, row.order_id),
+                product_id: remap(productIds, row.product_id),
+                quantity: row.quantity,
+                unit_price: row.unit_price,
+            });
+        }
+
+        for (const row of data.appointments || []) {
+            await insert(connection, 'appointments', {
+                tenant_id: tenantDbId,
+                client_id: remap(clientIds, row.client_id),
+                branch_id: remapBranch(row.branch_id),
+                staff_id: row.staff_id === null || row.staff_id === undefined ? null : remap(staffIds, row.staff_id),
+                pet_name: row.pet_name,
+                pet_type: row.pet_type,
+                service: row.service,
+                appointment_date: row.appointment_date,
+                appointment_time: row.appointment_time,
+                status: row.status || 'scheduled', // Respaldos anteriores a la migración 020
+                notes: row.notes,
+            });
+        }
+        counts.appointments = (data.appointments || []).length;
+
+        await connection.commit();
+        invalidateTenant(newSlug);
+
+        return { tenantDbId, slug: newSlug, counts, invitedStaff };
+    } catch (error) {
+        await connection.rollback();
+        // Los archivos copiados no sirven sin los datos
+        writtenPaths.forEach(filePath => fs.unlink(filePath, () => undefined));
+        throw error;
+    } finally {
+        connection.release();
+    }
+};
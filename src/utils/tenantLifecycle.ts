@@ -0,0 +1,116 @@
+// src/utils/tenantLifecycle.ts
+// Ciclo de vida de las clínicas: activar, suspender, cerrar y purgar los datos tras la retención.
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import pool from '../db';
+import { TenantStatus } from '../middleware/authMiddleware';
+import { deleteUploadedAsset } from './branding';
+import { invalidateTenant } from './tenantCache';
+
+export const TENANT_STATUSES: TenantStatus[] = ['active', 'suspended', 'closed'];
+
+const getRetentionDays = () => process.env.TENANT_RETENTION_DAYS ? parseInt(process.env.TENANT_RETENTION_DAYS) : 30;
+const getPurgeIntervalMinutes = () => process.env.TENANT_PURGE_INTERVAL_MINUTES ? parseInt(process.env.TENANT_PURGE_INTERVAL_MINUTES) : 60;
+
+// -----------------------------------------------------------------------------
+// 🔄 Cambia el estado de la clínica.
+// Al cerrarla se programa la purga y se cierran todas las sesiones; al reactivarla se cancela la purga.
+// -----------------------------------------------------------------------------
+export const changeTenantStatus = async (
+    tenantDbId: number,
+    status: TenantStatus,
+    reason: string | null
+): Promise<{ purgeAfter: Date | null; sessionsRevoked: number }> => {
+    const retentionDays = getRetentionDays();
+
+    await pool.execute(
+        `UPDATE tenants
+         SET status = ?, status_reason = ?, status_changed_at = NOW(),
+             purge_after = ${status === 'closed' ? 'DATE_ADD(NOW(), INTERVAL ? DAY)' : 'NULL'}
+         WHERE id = ?`,
+        status === 'closed' ? [status, reason, retentionDays, tenantDbId] : [status, reason, tenantDbId]
+    );
+
+    let sessionsRevoked = 0;
+    if (status === 'closed') {
+        const [result] = await pool.execute<ResultSetHeader>(
+            'UPDATE refresh_tokens SET revoked_at = NOW() WHERE tenant_id = ? AND revoked_at IS NULL',
+            [tenantDbId]
+        );
+        sessionsRevoked = result.affectedRows;
+    }
+
+    return {
+        purgeAfter: status === 'closed' ? new Date(Date.now() + retentionDays * 24 * 60 * 60 * 1000) : null,
+        sessionsRevoked
+    };
+};
+
+// -----------------------------------------------------------------------------
+// 🗑️ Elimina todos los datos de una clínica cerrada (incluidos sus archivos subidos).
+// La bitácora de auditoría se conserva: es de solo inserción y no tiene FK al inquilino.
+// -----------------------------------------------------------------------------
+const purgeTenantData = async (tenantDbId: number) => {
+    const connection = await pool.getConnection();
+    let imageUrls: string[] = [];
+    try {
+        await connection.beginTransaction();
+
+        const [images] = await connection.execute<RowDataPacket[]>('SELECT url FROM images WHERE tenant_id = ?', [tenantDbId]);
+        const [tenantRows] = await connection.execute<RowDataPacket[]>('SELECT logo_url, favicon_url FROM tenants WHERE id = ?', [tenantDbId]);
+        imageUrls = images.map(image => image.url);
+        if (tenantRows.length > 0) imageUrls.push(tenantRows[0].logo_url, tenantRows[0].favicon_url);
+
+        // Orden: primero las tablas hijas sin FK en cascada
+        await connection.execute('DELETE oi FROM order_items oi JOIN orders o ON oi.order_id = o.id WHERE o.tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE FROM orders WHERE tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE FROM appointments WHERE tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE pi FROM product_images pi JOIN products p ON pi.product_id = p.id WHERE p.tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE FROM products WHERE tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE FROM categories WHERE tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE si FROM service_images si JOIN services s ON si.service_id = s.id WHERE s.tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE FROM services WHERE tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE FROM images WHERE tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE FROM clients WHERE tenant_id = ?', [tenantDbId]);
+        await connection.execute('DELETE FROM staff WHERE tenant_id = ?', [tenantDbId]);
+        // El resto (tokens, intentos, permisos, claves, dominios...) cae en cascada
+        await connection.execute(`DELETE FROM tenants WHERE id = ? AND status = 'closed'`, [tenantDbId]);
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    imageUrls.forEach(url => deleteUploadedAsset(url));
+};
+
+// Purga las clínicas cerradas cuyo período de retención ya venció. Devuelve los slugs purgados.
+export const purgeClosedTenants = async (): Promise<string[]> => {
+    const [tenants] = await pool.execute<RowDataPacket[]>(
+        `SELECT id, tenant_id FROM tenants WHERE status = 'closed' AND purge_after IS NOT NULL AND purge_after <= NOW()`
+    );
+
+    const purged: string[] = [];
+    for (const tenant of tenants) {
+        try {
+            await purgeTenantData(tenant.id);
+            invalidateTenant(tenant.tenant_id);
+            purged.push(tenant.tenant_id);
+            console.log(`🗑️ Datos de la clínica '${tenant.tenant_id}' purgados tras el período de retención.`);
+        } catch (error) {
+            console.error(`Error al purgar la clínica '${tenant.tenant_id}':`, error);
+        }
+    }
+    return purged;
+};
+
+// ⏰ Revisión periódica de clínicas pendientes de purga
+export const scheduleTenantPurge = () => {
+    const run = () => {
+        purgeClosedTenants().catch(error => console.error("Error en la purga programada de clínicas:", error));
+    };
+    setInterval(run, getPurgeIntervalMinutes() * 60 * 1000).unref();
+    run();
+};
@@ -0,0 +1,194 @@
+// src/utils/tenantSettings.ts
+// Configuración operativa por inquilino (reglas de pedidos y citas, moneda, zona horaria, idioma).
+// Solo se guardan los valores personalizados; el resto usa DEFAULT_TENANT_SETTINGS.
+import { RowDataPacket } from 'mysql2';
+import pool from '../db';
+import { ApiMessage, Locale, DEFAULT_LOCALE, SUPPORTED_LOCALES, apiMessage, isLocale } from './i18n';
+
+export interface TenantSettings {
+    pickupWindowDays: number; // Días máximos entre hoy y la fecha de recojo de un pedido
+    orderExpiryDays: number; // Días después del recojo en que vence la reserva
+    bookingLeadTimeHours: number; // Anticipación mínima para agendar una cita
+    currency: string; // Código ISO 4217, e.g. 'PEN'
+    timezone: string; // Zona IANA, e.g. 'America/Lima' (define el "hoy" de la clínica)
+    locale: Locale; // Idioma de los mensajes de la API cuando el cliente no envía Accept-Language
+}
+
+export type TenantSettingKey = keyof TenantSettings;
+
+export const DEFAULT_TENANT_SETTINGS: TenantSettings = {
+    pickupWindowDays: 10,
+    orderExpiryDays: 2,
+    bookingLeadTimeHours: 0,
+    currency: process.env.DEFAULT_CURRENCY || 'PEN',
+    timezone: process.env.DEFAULT_TIMEZONE || 'America/Lima',
+    locale: DEFAULT_LOCALE,
+};
+
+// Valores iniciales de la ficha de una clínica recién registrada (POST /api/external/register-tenant)
+export const NEW_TENANT_DEFAULTS = {
+    phone: 'N/A',
+    address: 'Dirección por definir',
+    schedule: 'Lun-Vie: 9am - 5pm',
+    primaryColor: process.env.DEFAULT_PRIMARY_COLOR || '#007bff',
+    secondaryColor: process.env.DEFAULT_SECONDARY_COLOR || '#6c757d',
+};
+
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+
+export const isValidTimezone = (value: string) => {
+    try {
+        new Date().toLocaleString('en-US', { timeZone: value });
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+const integerBetween = (min: number, max: number) => (key: string, value: unknown) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+        ? null
+        : apiMessage('SETTING_OUT_OF_RANGE', { key, min, max });
+
+// Validación de cada clave: devuelve el motivo del rechazo o null
+const SETTING_RULES: Record<TenantSettingKey, (key: string, value: unknown) => ApiMessage | null> = {
+    pickupWindowDays: integerBetween(1, 90),
+    orderExpiryDays: integerBetween(0, 30),
+    bookingLeadTimeHours: integerBetween(0, 720),
+    currency: (key, value) => typeof value === 'string' && CURRENCY_REGEX.test(value) ? null : apiMessage('INVALID_CURRENCY', { key }),
+    timezone: (key, value) => typeof value === 'string' && isValidTimezone(value) ? null : apiMessage('INVALID_TIMEZONE', { key }),
+    locale: (key, value) => isLocale(value) ? null : apiMessage('INVALID_LOCALE', { key, allowed: SUPPORTED_LOCALES.join(', ') }),
+};
+
+export const TENANT_SETTING_KEYS = Object.keys(SETTING_RULES) as TenantSettingKey[];
+
+// Un valor guardado que ya no pasa la validación se ignora (se usa el valor por defecto).
+// También la usa la caché de inquilinos para leer el idioma de la clínica.
+export const readStoredSettings = (raw: unknown): Partial<TenantSettings> => {
+    const stored = (typeof raw === 'string' ? JSON.parse(raw) : raw) || {};
+    const settings: Partial<TenantSettings> = {};
+    for (const key of TENANT_SETTING_KEYS) {
+        if (stored[key] !== undefined && SETTING_RULES[key](key, stored[key]) === null) {
+            (settings as Record<string, unknown>)[key] = stored[key];
+        }
+    }
+    return settings;
+};
+
+const getStoredSettings = async (tenantDbId: number): Promise<Partial<TenantSettings>> => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT settings FROM tenant_settings WHERE tenant_id = ?',
+        [tenantDbId]
+    );
+    return rows.length > 0 ? readStoredSettings(rows[0].settings) : {};
+};
+
+// 🔎 Configuración efectiva del inquilino (personalización + valores por defecto)
+export const getTenantSettings = async (tenantDbId: number): Promise<TenantSettings> => ({
+    ...DEFAULT_TENANT_SETTINGS,
+    ...(await getStoredSettings(tenantDbId)),
+});
+
+// -----------------------------------------------------------------------------
+// 📋 Valida un cambio parcial: { pickupWindowDays?: 7, currency?: 'USD', ... }
+// Un valor null restablece la clave a su valor por defecto.
+// -----------------------------------------------------------------------------
+export const parseSettingsUpdate = (raw: unknown): { changes?: Partial<Record<TenantSettingKey, unknown>>; error?: ApiMessage } => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { error: apiMessage('SETTINGS_NOT_OBJECT') };
+    }
+
+    const changes: Partial<Record<TenantSettingKey, unknown>> = {};
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (!TENANT_SETTING_KEYS.includes(key as TenantSettingKey)) {
+            return { error: apiMessage('INVALID_SETTING_KEY', { key, allowed: TENANT_SETTING_KEYS.join(', ') }) };
+        }
+        const problem = value === null ? null : SETTING_RULES[key as TenantSettingKey](key, value);
+        if (problem) {
+            return { error: problem };
+        }
+        changes[key as TenantSettingKey] = value;
+    }
+
+    if (Object.keys(changes).length === 0) {
+        return { error: apiMessage('NO_FIELDS_TO_UPDATE', { fields: TENANT_SETTING_KEYS.join(', ') }) };
+    }
+    return { changes };
+};
+
+// 💾 Aplica el cambio sobre la personalización guardada y devuelve la configuración efectiva
+export const saveTenantSettings = async (tenantDbId: number, changes: Partial<Record<TenantSettingKey, unknown>>): Promise<TenantSettings> => {
+    const stored: Record<string, unknown> = { ...(await getStoredSettings(tenantDbId)) };
+    for (const [key, value] of Object.entries(changes)) {
+        if (value === null) {
+            delete stored[key];
+        } else {
+            stored[key] = value;
+        }
+    }
+
+    await pool.execute(
+        `INSERT INTO tenant_settings (tenant_id, settings) VALUES (?, ?)
+         ON DUPLICATE KEY UPDATE settings = VALUES(settings)`,
+        [tenantDbId, JSON.stringify(stored)]
+    );
+    return { ...DEFAULT_TENANT_SETTINGS, ...(stored as Partial<TenantSettings>) };
+};
+
+// -----------------------------------------------------------------------------
+// 🕒 Fechas en la zona horaria de la clínica (el servidor puede correr en UTC)
+// -----------------------------------------------------------------------------
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Fecha 'YYYY-MM-DD' y hora 'HH:MM' actuales en la zona indicada
+export const getLocalNow = (timezone: string, now = new Date()): { date: string; time: string } => {
+    const formatted = now.toLocaleString('en-US', {
+        timeZone: timezone, hour12: false,
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+    });
+    const [, month, day, year, hour, minute] = formatted.match(/(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+)/)!.map(Number);
+    // Algunos motores formatean la medianoche como "24:00"
+    return { date: `${year}-${pad(month)}-${pad(day)}`, time: `${pad(hour % 24)}:${pad(minute)}` };
+};
+
+// Suma días a una fecha 'YYYY-MM-DD' (sin depender de la zona horaria del servidor)
+export const addDays = (date: string, days: number): string => {
+    const [year, month, day] = date.split('-').map(Number);
+    const result = new Date(Date.UTC(year, month - 1, day + days));
+    return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`;
+};
+
+// Minutos entre "ahora" en la clínica y una fecha/hora local de la clínica
+const minutesUntil = (timezone: string, date: string, time: string) => {
+    const toMinutes = (d: string, t: string) => {
+        const [year, month, day] = d.split('-').map(Number);
+        const [hour, minute] = t.split(':').map(Number);
+        return Date.UTC(year, month - 1, day, hour, minute) / 60000;
+    };
+    const now = getLocalNow(timezone);
+    return toMinutes(date, time) - toMinutes(now.date, now.time);
+};
+
+// 📅 Verifica la fecha de recojo contra la ventana configurada. Devuelve el mensaje de error o null.
+export const checkPickupWindow = (settings: TenantSettings, pickupDate: string): ApiMessage | null => {
+    const today = getLocalNow(settings.timezone).date;
+    if (pickupDate <= today) {
+        return apiMessage('PICKUP_DATE_NOT_FUTURE');
+    }
+    if (pickupDate > addDays(today, settings.pickupWindowDays)) {
+        return apiMessage('PICKUP_DATE_TOO_FAR', { days: settings.pickupWindowDays });
+    }
+    return null;
+};
+
+// ⏱️ Verifica la anticipación mínima de una cita ('HH:MM'). Devuelve el mensaje de error o null.
+export const checkBookingLeadTime = (settings: TenantSettings, date: string, time: string): ApiMessage | null => {
+    const remaining = minutesUntil(settings.timezone, date, time.slice(0, 5));
+    if (remaining < 0) {
+        return apiMessage('APPOINTMENT_IN_PAST');
+    }
+    if (remaining < settings.bookingLeadTimeHours * 60) {
+        return apiMessage('BOOKING_LEAD_TIME_REQUIRED', { hours: settings.bookingLeadTimeHours });
+    }
+    return null;
+};
@@ -0,0 +1,87 @@
+// src/utils/totp.ts
+// TOTP (RFC 6238) compatible con Google Authenticator, Authy, etc.: SHA1, 6 dígitos, 30 segundos.
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    const clean = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Secreto TOTP con formato no válido.');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+// Código HOTP (RFC 4226) para un contador dado
+const generateHotp = (secret: Buffer, counter: number): string => {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+    counterBuffer.writeUInt32BE(counter % 0x100000000, 4);
+
+    const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24)
+        | (hmac[offset + 1] << 16)
+        | (hmac[offset + 2] << 8)
+        | hmac[offset + 3];
+
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+export const buildOtpauthUrl = (secret: string, accountName: string, issuer: string) =>
+    `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`
+    + `?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${PERIOD_SECONDS}`;
+
+// -----------------------------------------------------------------------------
+// 🔢 Verifica un código aceptando ±1 intervalo de desfase de reloj.
+// Devuelve el contador usado (para evitar reutilizarlo) o null si no coincide.
+// Los contadores menores o iguales a `lastUsedCounter` se rechazan.
+// -----------------------------------------------------------------------------
+export const verifyTotpCode = (secret: string, code: string, lastUsedCounter: number | null = null): number | null => {
+    const normalized = String(code).replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) return null;
+
+    const key = base32Decode(secret);
+    const currentCounter = Math.floor(Date.now() / 1000 / PERIOD_SECONDS);
+
+    for (const counter of [currentCounter - 1, currentCounter, currentCounter + 1]) {
+        if (lastUsedCounter !== null && counter <= lastUsedCounter) continue;
+        const expected = generateHotp(key, counter);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return counter;
+        }
+    }
+    return null;
+};
@@ -0,0 +1,94 @@
+// src/utils/twoFactor.ts
+// Operaciones de 2FA del personal: estado, códigos de recuperación y verificación del segundo factor.
+import crypto from 'crypto';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import pool from '../db';
+import { verifyTotpCode } from './totp';
+
+export interface StaffTwoFactorRow extends RowDataPacket {
+    id: number;
+    email: string;
+    role: 'admin' | 'doctor' | 'receptionist';
+    totp_secret: string | null;
+    totp_enabled: number;
+    totp_last_counter: number | null;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+
+export const getStaffTwoFactor = async (tenantDbId: number, staffId: number): Promise<StaffTwoFactorRow | null> => {
+    const [rows] = await pool.execute<StaffTwoFactorRow[]>(
+        'SELECT id, email, role, totp_secret, totp_enabled, totp_last_counter FROM staff WHERE id = ? AND tenant_id = ?',
+        [staffId, tenantDbId]
+    );
+    return rows[0] ?? null;
+};
+
+// ¿El inquilino exige 2FA para este rol? (por ahora solo aplica al rol 'admin')
+export const isTwoFactorMandatory = async (tenantDbId: number, role: string): Promise<boolean> => {
+    if (role !== 'admin') return false;
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT require_admin_2fa FROM tenants WHERE id = ?',
+        [tenantDbId]
+    );
+    return rows.length > 0 && Boolean(rows[0].require_admin_2fa);
+};
+
+// 🧾 Genera códigos de recuperación nuevos (los anteriores dejan de servir). Solo se muestran una vez.
+export const regenerateRecoveryCodes = async (staffId: number): Promise<string[]> => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = crypto.randomBytes(5).toString('hex');
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await pool.execute('DELETE FROM staff_recovery_codes WHERE staff_id = ?', [staffId]);
+    for (const code of codes) {
+        await pool.execute(
+            'INSERT INTO staff_recovery_codes (staff_id, code_hash) VALUES (?, ?)',
+            [staffId, hashCode(code)]
+        );
+    }
+    return codes;
+};
+
+export const countRemainingRecoveryCodes = async (staffId: number): Promise<number> => {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+        'SELECT COUNT(*) AS remaining FROM staff_recovery_codes WHERE staff_id = ? AND used_at IS NULL',
+        [staffId]
+    );
+    return Number(rows[0].remaining);
+};
+
+// -----------------------------------------------------------------------------
+// 🔐 Verifica el segundo factor: código TOTP o, en su defecto, un código de recuperación.
+// Los códigos TOTP no se pueden reutilizar y los de recuperación son de un solo uso.
+// -----------------------------------------------------------------------------
+export const verifySecondFactor = async (
+    staff: StaffTwoFactorRow,
+    factor: { code?: string; recoveryCode?: string }
+): Promise<boolean> => {
+    if (factor.code && staff.totp_secret) {
+        const lastCounter = staff.totp_last_counter !== null ? Number(staff.totp_last_counter) : null;
+        const counter = verifyTotpCode(staff.totp_secret, factor.code, lastCounter);
+        if (counter === null) return false;
+
+        // Condicional para que dos solicitudes simultáneas con el mismo código no pasen ambas
+        const [result] = await pool.execute<ResultSetHeader>(
+            'UPDATE staff SET totp_last_counter = ? WHERE id = ? AND (totp_last_counter IS NULL OR totp_last_counter < ?)',
+            [counter, staff.id, counter]
+        );
+        return result.affectedRows === 1;
+    }
+
+    if (factor.recoveryCode) {
+        const [result] = await pool.execute<ResultSetHeader>(
+            'UPDATE staff_recovery_codes SET used_at = NOW() WHERE staff_id = ? AND code_hash = ? AND used_at IS NULL',
+            [staff.id, hashCode(factor.recoveryCode)]
+        );
+        return result.affectedRows > 0;
+    }
+
+    return false;
+};